@@ -0,0 +1,934 @@
+// AAYURCURE Admin Dashboard - TypeScript Application
+
+import { ApiError, requestJson } from './client/api-client.js';
+import { Dialog } from './client/dialog.js';
+import { DOMHelper } from './client/dom-helper.js';
+import { printIntakeSummary, renderIntakeSummary } from './client/intake-summary.js';
+import { renderSlotOptions } from './client/slot-options.js';
+import { ToastManager, type ToastAction } from './client/toast-manager.js';
+import { clinicConfig, getServiceName } from './shared/clinic-config.js';
+import { addDays, clinicNow } from './shared/dates.js';
+import { formatTime, fromMinutes, toMinutes } from './shared/scheduling.js';
+import type {
+    AdminAppointmentList,
+    AdminSession,
+    AnalyticsReport,
+    ApiErrorBody,
+    Appointment,
+    AppointmentStatus,
+    AvailabilityResponse,
+    CourseProgress,
+    PatientIntake,
+    Review,
+    ReviewStatus
+} from './shared/types.js';
+
+// Session Storage
+class AdminSessionStore {
+    private static readonly STORAGE_KEY = 'aayurcure-admin-session';
+
+    static get(): AdminSession | null {
+        const stored = sessionStorage.getItem(this.STORAGE_KEY);
+        if (!stored) return null;
+
+        const session = JSON.parse(stored) as AdminSession;
+        if (new Date(session.expiresAt) <= new Date()) {
+            this.clear();
+            return null;
+        }
+        return session;
+    }
+
+    static save(session: AdminSession): void {
+        sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(session));
+    }
+
+    static clear(): void {
+        sessionStorage.removeItem(this.STORAGE_KEY);
+    }
+}
+
+// Admin API Client
+class AdminApi {
+    private static readonly BASE_URL = '/api/admin';
+
+    static async login(password: string): Promise<AdminSession> {
+        return requestJson<AdminSession>(`${this.BASE_URL}/login`, {
+            method: 'POST',
+            body: JSON.stringify({ password })
+        }, 'Could not sign in');
+    }
+
+    static async logout(): Promise<void> {
+        await this.send<void>('/logout', { method: 'POST' }, 'Could not sign out');
+    }
+
+    static async listAppointments(date: string, serviceType: string): Promise<AdminAppointmentList> {
+        const params = new URLSearchParams({ date, service: serviceType });
+        return this.send<AdminAppointmentList>(`/appointments?${params}`, {}, 'Could not load appointments');
+    }
+
+    static async getAvailability(reference: string, date: string, serviceType: string): Promise<AvailabilityResponse> {
+        const params = new URLSearchParams({ date, service: serviceType });
+        return this.send<AvailabilityResponse>(
+            `/appointments/${encodeURIComponent(reference)}/availability?${params}`,
+            {},
+            'Could not load available times'
+        );
+    }
+
+    static async updateStatus(reference: string, status: AppointmentStatus): Promise<Appointment> {
+        return this.send<Appointment>(`/appointments/${encodeURIComponent(reference)}/status`, {
+            method: 'POST',
+            body: JSON.stringify({ status })
+        }, 'Could not update the booking');
+    }
+
+    static async reschedule(reference: string, preferredDate: string, preferredTime: string): Promise<Appointment> {
+        return this.send<Appointment>(`/appointments/${encodeURIComponent(reference)}/reschedule`, {
+            method: 'POST',
+            body: JSON.stringify({ preferredDate, preferredTime })
+        }, 'Could not reschedule the booking');
+    }
+
+    static async addNote(reference: string, text: string): Promise<Appointment> {
+        return this.send<Appointment>(`/appointments/${encodeURIComponent(reference)}/notes`, {
+            method: 'POST',
+            body: JSON.stringify({ text })
+        }, 'Could not save the note');
+    }
+
+    static async getIntake(reference: string): Promise<PatientIntake> {
+        return this.send<PatientIntake>(
+            `/appointments/${encodeURIComponent(reference)}/intake`,
+            {},
+            'Could not load the health questionnaire'
+        );
+    }
+
+    static async getAnalytics(from: string, to: string): Promise<AnalyticsReport> {
+        const params = new URLSearchParams({ from, to });
+        return this.send<AnalyticsReport>(`/analytics?${params}`, {}, 'Could not load the booking funnel');
+    }
+
+    static async listCourses(): Promise<CourseProgress[]> {
+        return this.send<CourseProgress[]>('/courses', {}, 'Could not load treatment courses');
+    }
+
+    static async listReviews(status: ReviewStatus): Promise<Review[]> {
+        const params = new URLSearchParams({ status });
+        return this.send<Review[]>(`/reviews?${params}`, {}, 'Could not load reviews');
+    }
+
+    static async moderateReview(reference: string, status: ReviewStatus): Promise<Review> {
+        return this.send<Review>(`/reviews/${encodeURIComponent(reference)}/status`, {
+            method: 'POST',
+            body: JSON.stringify({ status })
+        }, 'Could not update the review');
+    }
+
+    // The schedule comes back as an .ics file rather than JSON
+    static async getScheduleIcs(date: string): Promise<Blob> {
+        const params = new URLSearchParams({ date });
+        const response = await fetch(`${this.BASE_URL}/schedule.ics?${params}`, { headers: this.authHeaders() });
+        if (!response.ok) {
+            const payload = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+            throw new ApiError(response.status, payload?.error || 'Could not download the schedule');
+        }
+        return response.blob();
+    }
+
+    private static async send<T>(path: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+        const headers = this.authHeaders(init.headers);
+        return requestJson<T>(`${this.BASE_URL}${path}`, { ...init, headers }, fallbackMessage);
+    }
+
+    private static authHeaders(init?: HeadersInit): Headers {
+        const session = AdminSessionStore.get();
+        const headers = new Headers(init);
+        if (session) {
+            headers.set('Authorization', `Bearer ${session.token}`);
+        }
+        return headers;
+    }
+}
+
+// Sign-in Form
+class AdminLogin {
+    private form: HTMLFormElement | null;
+    private toastManager: ToastManager;
+
+    constructor(private readonly onSignedIn: () => void) {
+        this.form = DOMHelper.getElementById<HTMLFormElement>('adminLoginForm');
+        this.toastManager = ToastManager.getInstance();
+        this.initializeLogin();
+    }
+
+    private initializeLogin(): void {
+        if (!this.form) return;
+        this.form.addEventListener('submit', (e) => void this.handleSubmit(e));
+    }
+
+    private async handleSubmit(e: Event): Promise<void> {
+        e.preventDefault();
+
+        const passwordInput = DOMHelper.getElementById<HTMLInputElement>('adminPassword');
+        const errorElement = DOMHelper.getElementById('adminPasswordError');
+        if (!passwordInput || !errorElement) return;
+
+        errorElement.textContent = '';
+        DOMHelper.removeClass(passwordInput, 'error');
+
+        if (!passwordInput.value) {
+            errorElement.textContent = 'Password is required';
+            DOMHelper.addClass(passwordInput, 'error');
+            passwordInput.focus();
+            return;
+        }
+
+        try {
+            AdminSessionStore.save(await AdminApi.login(passwordInput.value));
+            passwordInput.value = '';
+            this.onSignedIn();
+        } catch (error) {
+            const message = error instanceof ApiError ? error.message : 'Could not reach the server';
+            errorElement.textContent = message;
+            DOMHelper.addClass(passwordInput, 'error');
+            this.toastManager.show({ message, type: 'error' });
+        }
+    }
+}
+
+// Appointment Board
+class AppointmentBoard {
+    private static readonly STATUS_LABELS: Record<AppointmentStatus, string> = {
+        'pending': 'Pending',
+        'confirmed': 'Confirmed',
+        'cancelled': 'Cancelled',
+        'no-show': 'No-show'
+    };
+
+    private listElement: HTMLElement | null;
+    private summaryElement: HTMLElement | null;
+    private dateInput: HTMLInputElement | null;
+    private serviceFilter: HTMLSelectElement | null;
+    private toastManager: ToastManager;
+    // '' shows requests that have no preferred date yet
+    private currentDate: string;
+
+    constructor(private readonly onSessionExpired: () => void) {
+        this.listElement = DOMHelper.getElementById('adminAppointments');
+        this.summaryElement = DOMHelper.getElementById('adminSummary');
+        this.dateInput = DOMHelper.getElementById<HTMLInputElement>('adminDate');
+        this.serviceFilter = DOMHelper.getElementById<HTMLSelectElement>('adminServiceFilter');
+        this.toastManager = ToastManager.getInstance();
+        this.currentDate = clinicNow().date;
+        this.initializeBoard();
+    }
+
+    private initializeBoard(): void {
+        if (this.serviceFilter) {
+            clinicConfig.services.forEach(service => {
+                this.serviceFilter?.appendChild(new Option(service.name, service.id));
+            });
+            this.serviceFilter.addEventListener('change', () => void this.load());
+        }
+
+        if (this.dateInput) {
+            this.dateInput.value = this.currentDate;
+            this.dateInput.addEventListener('change', () => {
+                if (this.dateInput?.value) this.showDate(this.dateInput.value);
+            });
+        }
+
+        const bindButton = (id: string, handler: () => void) => {
+            DOMHelper.getElementById(id)?.addEventListener('click', handler);
+        };
+
+        bindButton('adminPrevDay', () => this.showDate(addDays(this.currentDate || clinicNow().date, -1)));
+        bindButton('adminNextDay', () => this.showDate(addDays(this.currentDate || clinicNow().date, 1)));
+        bindButton('adminToday', () => this.showDate(clinicNow().date));
+        bindButton('adminUnscheduled', () => this.showDate(''));
+        bindButton('adminRefresh', () => void this.load());
+        bindButton('adminDownloadIcs', () => void this.downloadSchedule());
+    }
+
+    // Confirmed bookings for the day as an .ics file for staff calendars
+    private async downloadSchedule(): Promise<void> {
+        if (!this.currentDate) {
+            this.toastManager.show({ message: 'Pick a date to download its schedule', type: 'error' });
+            return;
+        }
+
+        try {
+            const blob = await AdminApi.getScheduleIcs(this.currentDate);
+            const url = URL.createObjectURL(blob);
+            const link = DOMHelper.createElement('a');
+            link.href = url;
+            link.download = `aayurcure-schedule-${this.currentDate}.ics`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            this.handleError(error);
+        }
+    }
+
+    private showDate(date: string): void {
+        this.currentDate = date;
+        if (this.dateInput) this.dateInput.value = date;
+        void this.load();
+    }
+
+    async load(): Promise<void> {
+        if (!this.listElement) return;
+
+        try {
+            const list = await AdminApi.listAppointments(this.currentDate, this.serviceFilter?.value || '');
+            this.render(list.appointments);
+        } catch (error) {
+            this.handleError(error);
+        }
+    }
+
+    private render(appointments: Appointment[]): void {
+        if (!this.listElement) return;
+
+        if (this.summaryElement) {
+            const heading = this.currentDate
+                ? new Date(`${this.currentDate}T00:00:00Z`).toLocaleDateString('en-IN', {
+                    timeZone: 'UTC', weekday: 'long', day: 'numeric', month: 'long', year: 'numeric'
+                })
+                : 'Requests without a preferred date';
+            const active = appointments.filter(a => a.status === 'pending' || a.status === 'confirmed').length;
+            this.summaryElement.textContent = `${heading} · ${appointments.length} request(s), ${active} active`;
+        }
+
+        if (appointments.length === 0) {
+            this.listElement.replaceChildren(DOMHelper.createElement('p', 'admin-empty', 'No appointment requests.'));
+            return;
+        }
+
+        this.listElement.replaceChildren(...appointments.map(appointment => this.createCard(appointment)));
+    }
+
+    private createCard(appointment: Appointment): HTMLElement {
+        const card = DOMHelper.createElement('article', 'admin-card');
+        card.dataset.reference = appointment.reference;
+
+        const header = DOMHelper.createElement('div', 'admin-card-header');
+        const time = DOMHelper.createElement('span', 'admin-card-time', this.describeTime(appointment));
+        const status = DOMHelper.createElement(
+            'span',
+            `status-badge status-${appointment.status}`,
+            AppointmentBoard.STATUS_LABELS[appointment.status]
+        );
+        header.append(time, status);
+
+        const name = DOMHelper.createElement('h3', '', appointment.patientName);
+        const details = DOMHelper.createElement('p', 'admin-card-details');
+        const phone = DOMHelper.createElement('a', '', appointment.phoneNumber);
+        phone.href = `tel:+91${appointment.phoneNumber}`;
+        const phoneCheck = appointment.phoneVerified
+            ? DOMHelper.createElement('span', 'phone-verified', ' ✓ verified')
+            : '';
+        details.append(
+            `${getServiceName(appointment.serviceType) || 'Service not specified'} · `,
+            phone,
+            phoneCheck,
+            ` · ${appointment.reference}`
+        );
+        if (appointment.course) {
+            details.append(` · Session ${appointment.course.session} of ${appointment.course.sessions}`);
+        }
+
+        card.append(header, name, details);
+
+        if (appointment.message) {
+            card.appendChild(DOMHelper.createElement('p', 'admin-card-message', appointment.message));
+        }
+        if (appointment.cancellationReason) {
+            card.appendChild(DOMHelper.createElement(
+                'p', 'admin-card-message', `Cancelled by patient: ${appointment.cancellationReason}`
+            ));
+        }
+        if (appointment.intakeSubmittedAt) {
+            card.appendChild(this.createIntake(appointment));
+        }
+
+        card.append(this.createActions(appointment), this.createNotes(appointment));
+        return card;
+    }
+
+    private describeTime(appointment: Appointment): string {
+        if (!appointment.preferredTime) return 'Time not set';
+        const end = fromMinutes(toMinutes(appointment.preferredTime) + appointment.durationMinutes);
+        return `${formatTime(appointment.preferredTime)} – ${formatTime(end)}`;
+    }
+
+    private createActions(appointment: Appointment): HTMLElement {
+        const actions = DOMHelper.createElement('div', 'admin-card-actions');
+        const isActive = appointment.status === 'pending' || appointment.status === 'confirmed';
+
+        const addButton = (label: string, className: string, handler: () => void) => {
+            const button = DOMHelper.createElement('button', `btn admin-action ${className}`, label);
+            button.type = 'button';
+            button.addEventListener('click', handler);
+            actions.appendChild(button);
+        };
+
+        if (appointment.status !== 'confirmed') {
+            addButton(isActive ? 'Confirm' : 'Restore', 'btn-primary',
+                () => void this.changeStatus(appointment, 'confirmed'));
+        }
+        if (isActive) {
+            addButton('Reschedule', 'btn-secondary', () => this.openRescheduleForm(appointment, actions));
+            addButton('No-show', 'btn-secondary', () => void this.changeStatus(appointment, 'no-show'));
+            addButton('Cancel', 'admin-action-danger', () => void this.confirmCancel(appointment));
+        }
+
+        return actions;
+    }
+
+    private async confirmCancel(appointment: Appointment): Promise<void> {
+        const confirmed = await Dialog.confirm({
+            title: 'Cancel this booking?',
+            message: `Cancel booking ${appointment.reference} for ${appointment.patientName}?`,
+            confirmLabel: 'Cancel Booking',
+            cancelLabel: 'Keep Booking',
+            danger: true
+        });
+        if (confirmed) await this.changeStatus(appointment, 'cancelled');
+    }
+
+    private openRescheduleForm(appointment: Appointment, actions: HTMLElement): void {
+        const form = DOMHelper.createElement('form', 'admin-reschedule');
+        const dateInput = DOMHelper.createElement('input', 'form-input');
+        dateInput.type = 'date';
+        dateInput.required = true;
+        dateInput.value = appointment.preferredDate;
+        dateInput.setAttribute('aria-label', 'New date');
+
+        const timeSelect = DOMHelper.createElement('select', 'form-input');
+        timeSelect.required = true;
+        timeSelect.setAttribute('aria-label', 'New time');
+        timeSelect.appendChild(new Option('Select a date first', ''));
+
+        const save = DOMHelper.createElement('button', 'btn btn-primary admin-action', 'Save');
+        save.type = 'submit';
+        const cancel = DOMHelper.createElement('button', 'btn btn-secondary admin-action', 'Back');
+        cancel.type = 'button';
+
+        const loadSlots = async () => {
+            timeSelect.replaceChildren(new Option('Loading...', ''));
+            if (!dateInput.value) return;
+
+            try {
+                const availability = await AdminApi.getAvailability(
+                    appointment.reference, dateInput.value, appointment.serviceType
+                );
+                renderSlotOptions(
+                    timeSelect,
+                    availability.slots,
+                    availability.slots.length > 0 ? 'Select time' : 'No free slots'
+                );
+            } catch (error) {
+                this.handleError(error);
+            }
+        };
+
+        dateInput.addEventListener('change', () => void loadSlots());
+        cancel.addEventListener('click', () => form.replaceWith(actions));
+        form.addEventListener('submit', (e) => {
+            e.preventDefault();
+            void this.runAction(
+                () => AdminApi.reschedule(appointment.reference, dateInput.value, timeSelect.value),
+                `Booking ${appointment.reference} moved`
+            );
+        });
+
+        form.append(dateInput, timeSelect, save, cancel);
+        actions.replaceWith(form);
+        void loadSlots();
+        dateInput.focus();
+    }
+
+    // The patient's health questionnaire, loaded when first opened
+    private createIntake(appointment: Appointment): HTMLElement {
+        const section = DOMHelper.createElement('div', 'admin-intake');
+        const toggle = DOMHelper.createElement('button', 'link-button', 'Show health questionnaire');
+        toggle.type = 'button';
+        toggle.setAttribute('aria-expanded', 'false');
+        const content = DOMHelper.createElement('div', 'admin-intake-content');
+        content.hidden = true;
+
+        toggle.addEventListener('click', () => void this.toggleIntake(appointment, toggle, content));
+        section.append(toggle, content);
+        return section;
+    }
+
+    private async toggleIntake(appointment: Appointment, toggle: HTMLButtonElement, content: HTMLElement): Promise<void> {
+        const expanding = content.hidden;
+
+        if (expanding && !content.hasChildNodes()) {
+            try {
+                const intake = await AdminApi.getIntake(appointment.reference);
+                const summary = renderIntakeSummary(appointment, intake.answers, intake.submittedAt);
+                const print = DOMHelper.createElement('button', 'btn btn-secondary admin-action', 'Print');
+                print.type = 'button';
+                print.addEventListener('click', () => printIntakeSummary(summary));
+                content.append(summary, print);
+            } catch (error) {
+                this.handleError(error);
+                return;
+            }
+        }
+
+        content.hidden = !expanding;
+        toggle.textContent = expanding ? 'Hide health questionnaire' : 'Show health questionnaire';
+        toggle.setAttribute('aria-expanded', String(expanding));
+    }
+
+    private createNotes(appointment: Appointment): HTMLElement {
+        const notes = DOMHelper.createElement('div', 'admin-notes');
+        notes.appendChild(DOMHelper.createElement('h4', '', 'Internal notes'));
+
+        appointment.internalNotes.forEach(note => {
+            const item = DOMHelper.createElement('p', 'admin-note', note.text);
+            const timestamp = DOMHelper.createElement(
+                'time',
+                'admin-note-time',
+                new Date(note.createdAt).toLocaleString('en-IN', { timeZone: clinicConfig.hours.timeZone })
+            );
+            timestamp.dateTime = note.createdAt;
+            item.prepend(timestamp);
+            notes.appendChild(item);
+        });
+
+        const form = DOMHelper.createElement('form', 'admin-note-form');
+        const textarea = DOMHelper.createElement('textarea', 'form-input');
+        textarea.rows = 2;
+        textarea.placeholder = 'Add a note for the team (not visible to the patient)';
+        textarea.setAttribute('aria-label', `Internal note for ${appointment.patientName}`);
+        const submit = DOMHelper.createElement('button', 'btn btn-secondary admin-action', 'Add note');
+        submit.type = 'submit';
+
+        form.addEventListener('submit', (e) => {
+            e.preventDefault();
+            const text = textarea.value.trim();
+            if (!text) {
+                textarea.focus();
+                return;
+            }
+            void this.runAction(() => AdminApi.addNote(appointment.reference, text), 'Note added');
+        });
+
+        form.append(textarea, submit);
+        notes.appendChild(form);
+        return notes;
+    }
+
+    private async changeStatus(appointment: Appointment, status: AppointmentStatus): Promise<void> {
+        const previousStatus = appointment.status;
+        await this.runAction(
+            () => AdminApi.updateStatus(appointment.reference, status),
+            `${appointment.patientName}: ${AppointmentBoard.STATUS_LABELS[status]}`,
+            { label: 'Undo', onClick: () => void this.changeStatus({ ...appointment, status }, previousStatus) }
+        );
+    }
+
+    private async runAction(
+        action: () => Promise<Appointment>,
+        successMessage: string,
+        undo: ToastAction | null = null
+    ): Promise<void> {
+        try {
+            await action();
+            this.toastManager.show({ message: successMessage, type: 'success', actions: undo ? [undo] : [] });
+            await this.load();
+        } catch (error) {
+            this.handleError(error, () => void this.runAction(action, successMessage, undo));
+        }
+    }
+
+    private handleError(error: unknown, retry: (() => void) | null = null): void {
+        if (error instanceof ApiError && error.status === 401) {
+            this.onSessionExpired();
+            return;
+        }
+
+        const message = error instanceof ApiError
+            ? Object.values(error.errors)[0] || error.message
+            : 'Could not reach the server';
+        // Only worth retrying when the server was unreachable or failed, not when it said no
+        const canRetry = retry && !(error instanceof ApiError && error.status < 500);
+        this.toastManager.show({
+            message,
+            type: 'error',
+            actions: canRetry ? [{ label: 'Retry', onClick: retry }] : []
+        });
+    }
+}
+
+// Treatment Courses
+// Patients part-way through a course of daily sessions, the next session first
+class CourseTracker {
+    private listElement: HTMLElement | null;
+    private toastManager: ToastManager;
+
+    constructor(private readonly onSessionExpired: () => void) {
+        this.listElement = DOMHelper.getElementById('adminCourses');
+        this.toastManager = ToastManager.getInstance();
+    }
+
+    async load(): Promise<void> {
+        if (!this.listElement) return;
+
+        try {
+            this.render(await AdminApi.listCourses());
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 401) {
+                this.onSessionExpired();
+                return;
+            }
+            const message = error instanceof ApiError ? error.message : 'Could not reach the server';
+            this.toastManager.show({ message, type: 'error' });
+        }
+    }
+
+    private render(courses: CourseProgress[]): void {
+        if (!this.listElement) return;
+
+        if (courses.length === 0) {
+            this.listElement.replaceChildren(DOMHelper.createElement('p', 'admin-empty', 'No courses in progress.'));
+            return;
+        }
+        this.listElement.replaceChildren(...courses.map(course => this.createCard(course)));
+    }
+
+    private createCard(course: CourseProgress): HTMLElement {
+        const card = DOMHelper.createElement('article', 'admin-card');
+        card.dataset.reference = course.reference;
+
+        const header = DOMHelper.createElement('div', 'admin-card-header');
+        header.appendChild(DOMHelper.createElement('span', 'admin-card-time', this.describeNext(course)));
+
+        const details = DOMHelper.createElement('p', 'admin-card-details');
+        const phone = DOMHelper.createElement('a', '', course.phoneNumber);
+        phone.href = `tel:+91${course.phoneNumber}`;
+        details.append(
+            `${getServiceName(course.serviceType) || 'Service not specified'} · `,
+            phone,
+            ` · ${course.reference}`
+        );
+
+        const summary = `${course.completed} of ${course.sessions} sessions done`;
+        const progress = DOMHelper.createElement('progress', 'admin-course-progress');
+        progress.max = course.sessions;
+        progress.value = course.completed;
+        progress.setAttribute('aria-label', summary);
+
+        const counts = [summary];
+        if (course.missed > 0) counts.push(`${course.missed} missed`);
+        if (course.cancelled > 0) counts.push(`${course.cancelled} cancelled`);
+
+        card.append(
+            header,
+            DOMHelper.createElement('h3', '', course.patientName),
+            details,
+            progress,
+            DOMHelper.createElement('p', 'admin-card-details', counts.join(' · '))
+        );
+        return card;
+    }
+
+    private describeNext(course: CourseProgress): string {
+        if (!course.next) return 'No sessions left';
+
+        const date = new Date(`${course.next.preferredDate}T00:00:00Z`).toLocaleDateString('en-IN', {
+            timeZone: 'UTC', weekday: 'short', day: 'numeric', month: 'short'
+        });
+        const time = course.next.preferredTime ? `, ${formatTime(course.next.preferredTime)}` : '';
+        return `Next: ${date}${time}`;
+    }
+}
+
+// Review Moderation
+// Patient reviews wait here until staff publish or reject them
+class ReviewQueue {
+    private static readonly STATUS_LABELS: Record<ReviewStatus, string> = {
+        pending: 'Waiting',
+        approved: 'Published',
+        rejected: 'Rejected'
+    };
+
+    private statusSelect: HTMLSelectElement | null;
+    private listElement: HTMLElement | null;
+    private toastManager: ToastManager;
+
+    constructor(private readonly onSessionExpired: () => void) {
+        this.statusSelect = DOMHelper.getElementById<HTMLSelectElement>('adminReviewStatus');
+        this.listElement = DOMHelper.getElementById('adminReviews');
+        this.toastManager = ToastManager.getInstance();
+
+        this.statusSelect?.addEventListener('change', () => void this.load());
+    }
+
+    async load(): Promise<void> {
+        if (!this.listElement) return;
+
+        try {
+            this.render(await AdminApi.listReviews((this.statusSelect?.value || 'pending') as ReviewStatus));
+        } catch (error) {
+            this.handleError(error);
+        }
+    }
+
+    private render(reviews: Review[]): void {
+        if (!this.listElement) return;
+
+        if (reviews.length === 0) {
+            this.listElement.replaceChildren(DOMHelper.createElement('p', 'admin-empty', 'No reviews here.'));
+            return;
+        }
+        this.listElement.replaceChildren(...reviews.map(review => this.createCard(review)));
+    }
+
+    private createCard(review: Review): HTMLElement {
+        const card = DOMHelper.createElement('article', 'admin-card');
+        card.dataset.reference = review.reference;
+
+        const header = DOMHelper.createElement('div', 'admin-card-header');
+        const stars = '★'.repeat(review.rating) + '☆'.repeat(5 - review.rating);
+        header.append(
+            DOMHelper.createElement('span', 'admin-card-time', `${stars} ${review.rating}/5`),
+            DOMHelper.createElement('span', `status-badge status-${review.status}`, ReviewQueue.STATUS_LABELS[review.status])
+        );
+
+        const received = new Intl.DateTimeFormat('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+            .format(new Date(review.createdAt));
+        const details = DOMHelper.createElement('p', 'admin-card-details', [
+            getServiceName(review.serviceType) || 'Service not specified',
+            review.reference,
+            review.displayName ? `Shown as ${review.displayName}` : 'Anonymous',
+            `Received ${received}`
+        ].join(' · '));
+
+        const actions = DOMHelper.createElement('div', 'admin-card-actions');
+        const addButton = (label: string, className: string, status: ReviewStatus) => {
+            const button = DOMHelper.createElement('button', `btn admin-action ${className}`, label);
+            button.type = 'button';
+            button.addEventListener('click', () => void this.moderate(review, status, button));
+            actions.appendChild(button);
+        };
+        if (review.status !== 'approved') addButton('Publish', 'btn-primary', 'approved');
+        if (review.status !== 'rejected') addButton('Reject', 'admin-action-danger', 'rejected');
+
+        card.append(header, details, DOMHelper.createElement('p', 'admin-card-message', review.comment), actions);
+        return card;
+    }
+
+    private async moderate(review: Review, status: ReviewStatus, button: HTMLButtonElement): Promise<void> {
+        button.disabled = true;
+
+        try {
+            await AdminApi.moderateReview(review.reference, status);
+            this.toastManager.show({
+                message: status === 'approved' ? 'Review published' : 'Review rejected',
+                type: 'success'
+            });
+            await this.load();
+        } catch (error) {
+            button.disabled = false;
+            this.handleError(error);
+        }
+    }
+
+    private handleError(error: unknown): void {
+        if (error instanceof ApiError && error.status === 401) {
+            this.onSessionExpired();
+            return;
+        }
+        const message = error instanceof ApiError ? error.message : 'Could not reach the server';
+        this.toastManager.show({ message, type: 'error' });
+    }
+}
+
+// Booking Funnel
+// Where visitors drop off on the way to a booking, from the website's own analytics
+class FunnelReport {
+    private static readonly FIELD_LABELS: Record<string, string> = {
+        patientName: 'Name',
+        phoneNumber: 'Phone number',
+        serviceType: 'Service',
+        preferredDate: 'Date',
+        preferredTime: 'Time',
+        message: 'Message',
+        courseSessions: 'Treatment course'
+    };
+    private static readonly CHANNEL_LABELS: Record<string, string> = {
+        whatsapp: 'WhatsApp',
+        email: 'Email'
+    };
+
+    private form: HTMLFormElement | null;
+    private fromInput: HTMLInputElement | null;
+    private toInput: HTMLInputElement | null;
+    private reportElement: HTMLElement | null;
+    private toastManager: ToastManager;
+
+    constructor(private readonly onSessionExpired: () => void) {
+        this.form = DOMHelper.getElementById<HTMLFormElement>('adminReportForm');
+        this.fromInput = DOMHelper.getElementById<HTMLInputElement>('adminReportFrom');
+        this.toInput = DOMHelper.getElementById<HTMLInputElement>('adminReportTo');
+        this.reportElement = DOMHelper.getElementById('adminReport');
+        this.toastManager = ToastManager.getInstance();
+
+        this.form?.addEventListener('submit', (e) => {
+            e.preventDefault();
+            void this.load();
+        });
+    }
+
+    async load(): Promise<void> {
+        if (!this.reportElement) return;
+
+        try {
+            const report = await AdminApi.getAnalytics(this.fromInput?.value || '', this.toInput?.value || '');
+            if (this.fromInput) this.fromInput.value = report.from;
+            if (this.toInput) this.toInput.value = report.to;
+            this.render(report);
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 401) {
+                this.onSessionExpired();
+                return;
+            }
+            const message = error instanceof ApiError ? error.message : 'Could not reach the server';
+            this.toastManager.show({ message, type: 'error' });
+        }
+    }
+
+    private render(report: AnalyticsReport): void {
+        if (!this.reportElement) return;
+
+        const visits = report.funnel[0]?.sessions || 0;
+        if (visits === 0) {
+            this.reportElement.replaceChildren(
+                DOMHelper.createElement('p', 'admin-empty', 'No visits recorded for these dates.')
+            );
+            return;
+        }
+
+        const funnel = DOMHelper.createElement('ol', 'admin-funnel');
+        report.funnel.forEach((step, index) => {
+            const share = Math.round(step.sessions * 100 / visits);
+            const previous = report.funnel[index - 1]?.sessions;
+            const item = DOMHelper.createElement('li', 'admin-funnel-step');
+            const bar = DOMHelper.createElement('span', 'admin-funnel-bar');
+            bar.style.width = `${share}%`;
+
+            const detail = previous
+                ? `${step.sessions} (${share}% of visits, ${Math.round(step.sessions * 100 / previous)}% of the step before)`
+                : `${step.sessions}`;
+            item.append(
+                DOMHelper.createElement('span', 'admin-funnel-label', step.step),
+                DOMHelper.createElement('span', 'admin-funnel-count', detail),
+                bar
+            );
+            funnel.appendChild(item);
+        });
+
+        const breakdowns = DOMHelper.createElement('div', 'admin-report-breakdowns');
+        breakdowns.append(
+            this.createBreakdown('Sections viewed (visits)', report.sections, id => id),
+            this.createBreakdown('Form errors shown', report.validationErrors,
+                field => FunnelReport.FIELD_LABELS[field] || field),
+            this.createBreakdown('Request sent by hand (visits)', report.contactChoices,
+                channel => FunnelReport.CHANNEL_LABELS[channel] || channel)
+        );
+
+        this.reportElement.replaceChildren(funnel, breakdowns);
+    }
+
+    private createBreakdown(title: string, counts: Record<string, number>, label: (key: string) => string): HTMLElement {
+        const block = DOMHelper.createElement('div', 'admin-report-breakdown');
+        block.appendChild(DOMHelper.createElement('h3', '', title));
+
+        const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+        if (entries.length === 0) {
+            block.appendChild(DOMHelper.createElement('p', 'admin-empty', 'None recorded.'));
+            return block;
+        }
+
+        const list = DOMHelper.createElement('dl');
+        entries.forEach(([key, count]) => {
+            list.append(DOMHelper.createElement('dt', '', label(key)), DOMHelper.createElement('dd', '', String(count)));
+        });
+        block.appendChild(list);
+        return block;
+    }
+}
+
+// Main Admin Application Class
+class AdminApp {
+    private loginSection: HTMLElement | null = null;
+    private dashboardSection: HTMLElement | null = null;
+    private board: AppointmentBoard | null = null;
+    private courseTracker: CourseTracker | null = null;
+    private reviewQueue: ReviewQueue | null = null;
+    private funnelReport: FunnelReport | null = null;
+
+    constructor() {
+        if (document.readyState === 'loading') {
+            document.addEventListener('DOMContentLoaded', () => this.setup());
+        } else {
+            this.setup();
+        }
+    }
+
+    private setup(): void {
+        this.loginSection = DOMHelper.getElementById('adminLogin');
+        this.dashboardSection = DOMHelper.getElementById('adminDashboard');
+
+        new AdminLogin(() => this.showDashboard());
+        const onSessionExpired = () => this.signOut('Your session has expired. Please sign in again.');
+        this.board = new AppointmentBoard(onSessionExpired);
+        this.courseTracker = new CourseTracker(onSessionExpired);
+        this.reviewQueue = new ReviewQueue(onSessionExpired);
+        this.funnelReport = new FunnelReport(onSessionExpired);
+
+        DOMHelper.getElementById('adminSignOut')?.addEventListener('click', () => {
+            void AdminApi.logout().catch(() => undefined);
+            this.signOut('Signed out');
+        });
+
+        if (AdminSessionStore.get()) {
+            this.showDashboard();
+        } else {
+            this.showLogin();
+        }
+    }
+
+    private showDashboard(): void {
+        if (this.loginSection) this.loginSection.hidden = true;
+        if (this.dashboardSection) this.dashboardSection.hidden = false;
+        void this.board?.load();
+        void this.courseTracker?.load();
+        void this.reviewQueue?.load();
+        void this.funnelReport?.load();
+    }
+
+    private showLogin(): void {
+        if (this.dashboardSection) this.dashboardSection.hidden = true;
+        if (this.loginSection) this.loginSection.hidden = false;
+        DOMHelper.getElementById<HTMLInputElement>('adminPassword')?.focus();
+    }
+
+    private signOut(message: string): void {
+        AdminSessionStore.clear();
+        this.showLogin();
+        ToastManager.getInstance().show({ message, type: 'info' });
+    }
+}
+
+// Initialize Admin Application
+new AdminApp();
@@ -0,0 +1,136 @@
+// AAYURCURE - First-party booking funnel analytics
+// Events go to the clinic's own API and nowhere else. A visit is a random id
+// kept for this browser tab only (sessionStorage, no cookies), and events name
+// what happened - a section, a form field, a channel - never what was typed.
+// Browsers that send Do Not Track or Global Privacy Control are not counted.
+// Nothing is sent until the visitor allows it on the consent banner; events
+// from before that wait in memory and are dropped if the visitor declines.
+import type { AnalyticsEvent, AnalyticsEventName } from '../shared/types.js';
+import { AnalyticsConsent } from './consent.js';
+
+export class Analytics {
+    private static readonly ENDPOINT = '/api/analytics/events';
+    private static readonly SESSION_KEY = 'aayurcure-analytics-session';
+    private static readonly FLUSH_DELAY_MS = 5000;
+    private static readonly MAX_BATCH = 20;
+
+    private static queue: AnalyticsEvent[] = [];
+    private static flushTimer: number | null = null;
+    // Used when sessionStorage is blocked
+    private static fallbackId: string | null = null;
+    // Events that only count once per page load, e.g. starting the form
+    private static tracked = new Set<string>();
+    private static listening = false;
+    private static watchingConsent = false;
+
+    static track(name: AnalyticsEventName, detail: string = ''): void {
+        if (!this.isAllowed()) return;
+
+        const consent = AnalyticsConsent.get();
+        if (consent?.granted === false) return;
+
+        this.queue.push({ name, detail, sessionId: this.sessionId() });
+        this.watchConsent();
+        if (!consent) return;
+        this.listenForPageHide();
+
+        if (this.queue.length >= this.MAX_BATCH) {
+            this.flush();
+        } else if (this.flushTimer === null) {
+            this.flushTimer = window.setTimeout(() => this.flush(), this.FLUSH_DELAY_MS);
+        }
+    }
+
+    static trackOnce(name: AnalyticsEventName, detail: string = ''): void {
+        const key = `${name}:${detail}`;
+        if (this.tracked.has(key)) return;
+
+        this.tracked.add(key);
+        this.track(name, detail);
+    }
+
+    static flush(): void {
+        if (this.flushTimer !== null) {
+            window.clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (!AnalyticsConsent.isGranted()) return;
+
+        // Events held back for consent can be more than one batch
+        while (this.queue.length > 0) {
+            this.send(this.queue.splice(0, this.MAX_BATCH));
+        }
+    }
+
+    // sendBeacon survives the page closing; fetch with keepalive is the fallback
+    private static send(events: AnalyticsEvent[]): void {
+        const body = JSON.stringify({ events });
+        const sent = 'sendBeacon' in navigator
+            && navigator.sendBeacon(this.ENDPOINT, new Blob([body], { type: 'application/json' }));
+        if (!sent) {
+            void fetch(this.ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body,
+                keepalive: true
+            }).catch(() => undefined);
+        }
+    }
+
+    private static isAllowed(): boolean {
+        const privacy = navigator as Navigator & { globalPrivacyControl?: boolean };
+        return navigator.doNotTrack !== '1' && privacy.globalPrivacyControl !== true;
+    }
+
+    // Held events go out once the visitor allows counting, and are forgotten if they decline
+    private static watchConsent(): void {
+        if (this.watchingConsent) return;
+        this.watchingConsent = true;
+
+        AnalyticsConsent.onChange(granted => {
+            if (granted) {
+                this.listenForPageHide();
+                this.flush();
+                return;
+            }
+
+            this.queue = [];
+            this.tracked.clear();
+            try {
+                sessionStorage.removeItem(this.SESSION_KEY);
+            } catch {
+                this.fallbackId = null;
+            }
+        });
+    }
+
+    private static sessionId(): string {
+        try {
+            let id = sessionStorage.getItem(this.SESSION_KEY);
+            if (!id) {
+                id = this.randomId();
+                sessionStorage.setItem(this.SESSION_KEY, id);
+            }
+            return id;
+        } catch {
+            this.fallbackId ??= this.randomId();
+            return this.fallbackId;
+        }
+    }
+
+    private static randomId(): string {
+        const bytes = crypto.getRandomValues(new Uint8Array(16));
+        return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    // Whatever is still queued goes out when the tab is hidden or closed
+    private static listenForPageHide(): void {
+        if (this.listening) return;
+        this.listening = true;
+
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden') this.flush();
+        });
+        window.addEventListener('pagehide', () => this.flush());
+    }
+}
@@ -0,0 +1,35 @@
+// AAYURCURE - Fetch wrapper for the appointment API
+import type { ApiErrorBody } from '../shared/types.js';
+
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+        readonly errors: Record<string, string> = {}
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Sends a JSON request and unwraps the API's { error, errors } failures into ApiError
+export async function requestJson<T>(url: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+    const headers = new Headers(init.headers);
+    if (init.body !== undefined) {
+        headers.set('Content-Type', 'application/json');
+    }
+
+    const response = await fetch(url, { ...init, headers });
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        const errorBody = (payload || {}) as Partial<ApiErrorBody>;
+        throw new ApiError(
+            response.status,
+            errorBody.error || fallbackMessage,
+            errorBody.errors
+        );
+    }
+
+    return payload as T;
+}
@@ -0,0 +1,70 @@
+// AAYURCURE - IndexedDB outbox for appointment requests made while offline
+// Requests wait here until the connection returns and the page sends them.
+import type { AppointmentFormData } from '../shared/types.js';
+
+export interface QueuedAppointment {
+    id: number;
+    formData: AppointmentFormData;
+    // From verifying the phone before going offline; the API rejects it once expired
+    verificationToken: string;
+    // Missing on requests queued before consent was recorded; the API turns those down
+    consentNoticeVersion?: string;
+    queuedAt: string;
+}
+
+export class AppointmentOutbox {
+    private static readonly DATABASE_NAME = 'aayurcure-outbox';
+    private static readonly STORE_NAME = 'appointments';
+    private static databasePromise: Promise<IDBDatabase> | null = null;
+
+    static isSupported(): boolean {
+        return 'indexedDB' in window;
+    }
+
+    static async add(formData: AppointmentFormData, verificationToken: string, consentNoticeVersion: string): Promise<number> {
+        const id = await this.run('readwrite', store =>
+            store.add({ formData, verificationToken, consentNoticeVersion, queuedAt: new Date().toISOString() }));
+        return Number(id);
+    }
+
+    // Oldest first, so requests reach the clinic in the order they were made
+    static async list(): Promise<QueuedAppointment[]> {
+        const entries = await this.run('readonly', store => store.getAll());
+        return entries as QueuedAppointment[];
+    }
+
+    static async remove(id: number): Promise<void> {
+        await this.run('readwrite', store => store.delete(id));
+    }
+
+    private static async run<T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const database = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction(this.STORE_NAME, mode);
+            const request = operation(transaction.objectStore(this.STORE_NAME));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    private static open(): Promise<IDBDatabase> {
+        if (!this.databasePromise) {
+            this.databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(this.DATABASE_NAME, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(this.STORE_NAME, { keyPath: 'id', autoIncrement: true });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.databasePromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.databasePromise;
+    }
+}
@@ -0,0 +1,83 @@
+// AAYURCURE - Booking form data kept on this device between visits
+// Drafts hold everything typed into the booking form; the returning patient
+// record holds only the name and phone, and only when the patient opts in.
+// Health questionnaire answers are kept per booking until they are sent.
+import type { AppointmentFormData, IntakeAnswers } from '../shared/types.js';
+
+export interface BookingDraft {
+    formData: AppointmentFormData;
+    savedAt: string;
+}
+
+export interface IntakeDraft {
+    answers: IntakeAnswers;
+    savedAt: string;
+}
+
+export type ReturningPatient = Pick<AppointmentFormData, 'patientName' | 'phoneNumber'>;
+
+export class BookingDraftStore {
+    private static readonly STORAGE_KEY = 'aayurcure-booking-draft';
+    // Older drafts are stale - the dates in them have usually passed
+    private static readonly MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+    static get(): BookingDraft | null {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (!stored) return null;
+
+        const draft = JSON.parse(stored) as BookingDraft;
+        if (Date.now() - new Date(draft.savedAt).getTime() > this.MAX_AGE_MS) {
+            this.clear();
+            return null;
+        }
+        return draft;
+    }
+
+    static save(formData: AppointmentFormData): void {
+        const draft: BookingDraft = { formData, savedAt: new Date().toISOString() };
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(draft));
+    }
+
+    static clear(): void {
+        localStorage.removeItem(this.STORAGE_KEY);
+    }
+}
+
+export class ReturningPatientStore {
+    private static readonly STORAGE_KEY = 'aayurcure-patient';
+
+    static get(): ReturningPatient | null {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        return stored ? JSON.parse(stored) as ReturningPatient : null;
+    }
+
+    static save(patient: ReturningPatient): void {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify({
+            patientName: patient.patientName.trim(),
+            phoneNumber: patient.phoneNumber
+        }));
+    }
+
+    static forget(): void {
+        localStorage.removeItem(this.STORAGE_KEY);
+    }
+}
+
+export class IntakeDraftStore {
+    private static readonly STORAGE_PREFIX = 'aayurcure-intake-';
+
+    static get(reference: string): IntakeDraft | null {
+        const stored = localStorage.getItem(this.STORAGE_PREFIX + reference);
+        return stored ? JSON.parse(stored) as IntakeDraft : null;
+    }
+
+    static save(reference: string, answers: IntakeAnswers): void {
+        const draft: IntakeDraft = { answers, savedAt: new Date().toISOString() };
+        localStorage.setItem(this.STORAGE_PREFIX + reference, JSON.stringify(draft));
+    }
+
+    // Medical details should not linger on a shared device once the clinic has them
+    static clear(reference: string): void {
+        localStorage.removeItem(this.STORAGE_PREFIX + reference);
+    }
+}
@@ -0,0 +1,53 @@
+// AAYURCURE - The visitor's choice about analytics
+// Kept on this device together with the privacy notice it was made under, so
+// a new notice asks again. Booking consent is separate and goes with each booking.
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+
+export interface AnalyticsConsentChoice {
+    granted: boolean;
+    noticeVersion: string;
+    decidedAt: string;
+}
+
+export type ConsentListener = (granted: boolean) => void;
+
+export class AnalyticsConsent {
+    private static readonly STORAGE_KEY = 'aayurcure-analytics-consent';
+    private static listeners: ConsentListener[] = [];
+
+    // null until the visitor has answered under the current notice; blocked
+    // storage (private browsing, sandboxed frames) or a garbled answer counts as none
+    static get(): AnalyticsConsentChoice | null {
+        try {
+            const stored = localStorage.getItem(this.STORAGE_KEY);
+            if (!stored) return null;
+
+            const choice = JSON.parse(stored) as AnalyticsConsentChoice;
+            return choice.noticeVersion === PRIVACY_NOTICE_VERSION ? choice : null;
+        } catch {
+            return null;
+        }
+    }
+
+    static isGranted(): boolean {
+        return this.get()?.granted === true;
+    }
+
+    static set(granted: boolean): void {
+        const choice: AnalyticsConsentChoice = {
+            granted,
+            noticeVersion: PRIVACY_NOTICE_VERSION,
+            decidedAt: new Date().toISOString()
+        };
+        try {
+            localStorage.setItem(this.STORAGE_KEY, JSON.stringify(choice));
+        } catch {
+            // Nothing is remembered, so get() keeps reporting no answer and nothing is sent
+        }
+        this.listeners.forEach(listener => listener(granted));
+    }
+
+    static onChange(listener: ConsentListener): void {
+        this.listeners.push(listener);
+    }
+}
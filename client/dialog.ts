@@ -0,0 +1,183 @@
+// AAYURCURE - Accessible modal dialogs
+// A dialog traps focus, locks page scrolling and hands focus back to whatever
+// opened it when it closes. Dialogs stack: Escape, Tab and backdrop clicks
+// only ever act on the topmost one. Results come back as promises, so callers
+// read like `const choice = await dialog.choose([...])`.
+import { t } from '../shared/i18n.js';
+import { DOMHelper } from './dom-helper.js';
+
+export interface DialogChoice<T> {
+    label: string;
+    value: T;
+    variant?: 'primary' | 'secondary' | 'danger';
+}
+
+export interface DialogOptions {
+    title: string;
+    message?: string;
+    // Extra markup between the message and the buttons, e.g. links
+    content?: Node;
+    // False keeps Escape, the backdrop and the close button from dismissing it
+    dismissible?: boolean;
+}
+
+export interface ConfirmOptions {
+    title: string;
+    message: string;
+    confirmLabel: string;
+    cancelLabel: string;
+    danger?: boolean;
+}
+
+const FOCUSABLE_SELECTOR = [
+    'a[href]',
+    'button:not([disabled])',
+    'input:not([disabled])',
+    'select:not([disabled])',
+    'textarea:not([disabled])',
+    '[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+export class Dialog<T = string> {
+    private static stack: Dialog<unknown>[] = [];
+    private static nextId = 0;
+    // Keys go to the topmost dialog only
+    private static readonly keydownListener = (e: KeyboardEvent): void => {
+        Dialog.stack[Dialog.stack.length - 1]?.handleKeydown(e);
+    };
+
+    private backdrop: HTMLElement;
+    private panel: HTMLElement;
+    private actions: HTMLElement;
+    private returnFocus: HTMLElement | null = null;
+    private resolve: ((value: T | null) => void) | null = null;
+
+    constructor(private readonly options: DialogOptions) {
+        const id = `dialog-${++Dialog.nextId}`;
+
+        this.backdrop = DOMHelper.createElement('div', 'dialog-backdrop');
+        this.panel = DOMHelper.createElement('div', 'dialog');
+        this.panel.setAttribute('role', 'dialog');
+        this.panel.setAttribute('aria-modal', 'true');
+        this.panel.setAttribute('aria-labelledby', `${id}-title`);
+        this.panel.tabIndex = -1;
+
+        const title = DOMHelper.createElement('h2', 'dialog-title', options.title);
+        title.id = `${id}-title`;
+        this.panel.appendChild(title);
+
+        if (options.dismissible !== false) {
+            const closeButton = DOMHelper.createElement('button', 'dialog-close', '×');
+            closeButton.type = 'button';
+            closeButton.setAttribute('aria-label', t('common.close'));
+            closeButton.addEventListener('click', () => this.close(null));
+            this.panel.appendChild(closeButton);
+        }
+
+        if (options.message) {
+            const message = DOMHelper.createElement('p', 'dialog-message', options.message);
+            message.id = `${id}-message`;
+            this.panel.setAttribute('aria-describedby', message.id);
+            this.panel.appendChild(message);
+        }
+        if (options.content) {
+            this.panel.appendChild(options.content);
+        }
+
+        this.actions = DOMHelper.createElement('div', 'dialog-actions');
+        this.panel.appendChild(this.actions);
+        this.backdrop.appendChild(this.panel);
+
+        this.backdrop.addEventListener('click', (e) => {
+            if (e.target === this.backdrop && this.options.dismissible !== false) this.close(null);
+        });
+    }
+
+    // Opens the dialog; resolves with the chosen value, or null if it was dismissed
+    choose(choices: DialogChoice<T>[]): Promise<T | null> {
+        this.actions.replaceChildren(...choices.map(choice => {
+            const button = DOMHelper.createElement('button', `btn dialog-button dialog-button-${choice.variant || 'primary'}`, choice.label);
+            button.type = 'button';
+            button.addEventListener('click', () => this.close(choice.value));
+            return button;
+        }));
+
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    // Closes with a result chosen by the caller, e.g. from a link inside the content
+    close(value: T | null): void {
+        if (!this.resolve) return;
+
+        const resolve = this.resolve;
+        this.resolve = null;
+        this.backdrop.remove();
+        Dialog.stack = Dialog.stack.filter(dialog => dialog !== this);
+        Dialog.updatePage();
+
+        this.returnFocus?.focus();
+        resolve(value);
+    }
+
+    static async confirm(options: ConfirmOptions): Promise<boolean> {
+        const dialog = new Dialog<boolean>({ title: options.title, message: options.message });
+        const confirmed = await dialog.choose([
+            { label: options.cancelLabel, value: false, variant: 'secondary' },
+            { label: options.confirmLabel, value: true, variant: options.danger ? 'danger' : 'primary' }
+        ]);
+        return confirmed === true;
+    }
+
+    private open(): void {
+        this.returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        document.body.appendChild(this.backdrop);
+        Dialog.stack.push(this as Dialog<unknown>);
+        Dialog.updatePage();
+
+        // Start on the first action rather than the close button
+        const firstAction = this.actions.querySelector<HTMLElement>('button');
+        (firstAction ?? this.panel).focus();
+    }
+
+    private handleKeydown(e: KeyboardEvent): void {
+        if (e.key === 'Escape' && this.options.dismissible !== false) {
+            e.preventDefault();
+            this.close(null);
+            return;
+        }
+        if (e.key !== 'Tab') return;
+
+        // Keep Tab and Shift+Tab cycling inside the dialog
+        const focusable = Array.from(this.panel.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (!first || !last) {
+            e.preventDefault();
+            this.panel.focus();
+            return;
+        }
+
+        const active = document.activeElement;
+        if (e.shiftKey && (active === first || !this.panel.contains(active))) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && (active === last || !this.panel.contains(active))) {
+            e.preventDefault();
+            first.focus();
+        }
+    }
+
+    // One document listener and one scroll lock, however many dialogs are open
+    private static updatePage(): void {
+        const anyOpen = Dialog.stack.length > 0;
+        document.body.classList.toggle('dialog-open', anyOpen);
+        if (anyOpen) {
+            document.addEventListener('keydown', Dialog.keydownListener);
+        } else {
+            document.removeEventListener('keydown', Dialog.keydownListener);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+// AAYURCURE - DOM helpers shared by the website and the admin dashboard
+
+// DOM Helper Functions
+export class DOMHelper {
+    static getElementById<T extends HTMLElement>(id: string): T | null {
+        return document.getElementById(id) as T | null;
+    }
+
+    static querySelector<T extends HTMLElement>(selector: string): T | null {
+        return document.querySelector(selector) as T | null;
+    }
+
+    static querySelectorAll<T extends HTMLElement>(selector: string): NodeListOf<T> {
+        return document.querySelectorAll(selector) as NodeListOf<T>;
+    }
+
+    static addClass(element: HTMLElement, className: string): void {
+        element.classList.add(className);
+    }
+
+    static removeClass(element: HTMLElement, className: string): void {
+        element.classList.remove(className);
+    }
+
+    static toggleClass(element: HTMLElement, className: string): void {
+        element.classList.toggle(className);
+    }
+
+    static hasClass(element: HTMLElement, className: string): boolean {
+        return element.classList.contains(className);
+    }
+
+    static createElement<K extends keyof HTMLElementTagNameMap>(
+        tagName: K,
+        className: string = '',
+        textContent: string = ''
+    ): HTMLElementTagNameMap[K] {
+        const element = document.createElement(tagName);
+        if (className) element.className = className;
+        if (textContent) element.textContent = textContent;
+        return element;
+    }
+}
@@ -0,0 +1,76 @@
+// AAYURCURE - Health questionnaire summary for the doctor
+// Rendered for the patient to check before sending and on the staff
+// dashboard; the print view hides the rest of the page so either can be
+// printed and filed with the patient's notes.
+import { bookingDetailLines } from '../shared/booking-message.js';
+import { clinicConfig } from '../shared/clinic-config.js';
+import { I18n, t } from '../shared/i18n.js';
+import type { MessageKey } from '../shared/i18n.js';
+import type { IntakeAnswers, PatientBooking } from '../shared/types.js';
+import { DOMHelper } from './dom-helper.js';
+
+export type IntakeBooking = Pick<PatientBooking, 'reference' | 'patientName' | 'serviceType' | 'preferredDate' | 'preferredTime'>;
+
+export function intakeOptionLabel(field: keyof IntakeAnswers, optionId: string): string {
+    return t(`intake.${field}.${optionId}` as MessageKey);
+}
+
+export function renderIntakeSummary(booking: IntakeBooking, answers: IntakeAnswers, submittedAt?: string): HTMLElement {
+    const summary = DOMHelper.createElement('div', 'intake-summary');
+    summary.appendChild(DOMHelper.createElement('h3', '', t('intake.summaryTitle', { clinic: clinicConfig.name })));
+
+    const details = [
+        booking.patientName,
+        t('message.reference', { reference: booking.reference }),
+        ...bookingDetailLines(booking, date => I18n.formatDate(date, 'long'))
+    ];
+    if (submittedAt) {
+        details.push(t('intake.submittedOn', { date: I18n.formatDate(submittedAt.slice(0, 10), 'long') }));
+    }
+    summary.appendChild(DOMHelper.createElement('p', 'intake-summary-booking', details.join(' · ')));
+
+    const conditions = [
+        ...answers.conditions.map(condition => intakeOptionLabel('conditions', condition)),
+        answers.otherConditions
+    ].filter(Boolean).join(', ');
+    const priorTreatment = answers.priorTreatment
+        ? [intakeOptionLabel('priorTreatment', answers.priorTreatment), answers.priorTreatmentDetails].filter(Boolean).join(' - ')
+        : '';
+
+    const rows: [MessageKey, string][] = [
+        ['intake.summary.complaints', answers.complaints],
+        ['intake.summary.complaintDuration', answers.complaintDuration
+            ? intakeOptionLabel('complaintDuration', answers.complaintDuration)
+            : ''],
+        ['intake.summary.conditions', conditions],
+        ['intake.summary.medications', answers.medications],
+        ['intake.summary.allergies', answers.allergies],
+        ['intake.summary.pregnancyStatus', answers.pregnancyStatus
+            ? intakeOptionLabel('pregnancyStatus', answers.pregnancyStatus)
+            : ''],
+        ['intake.summary.priorTreatment', priorTreatment]
+    ];
+
+    const list = DOMHelper.createElement('dl', 'intake-summary-list');
+    list.append(...rows.flatMap(([label, value]) => [
+        DOMHelper.createElement('dt', '', t(label)),
+        DOMHelper.createElement('dd', '', value.trim() || t('intake.notAnswered'))
+    ]));
+    summary.appendChild(list);
+
+    return summary;
+}
+
+// Prints a copy of the summary on its own; styles.css hides everything else
+export function printIntakeSummary(summary: HTMLElement): void {
+    const printable = DOMHelper.createElement('div', 'intake-print');
+    printable.appendChild(summary.cloneNode(true));
+    document.body.appendChild(printable);
+    DOMHelper.addClass(document.body, 'printing-intake');
+
+    window.addEventListener('afterprint', () => {
+        printable.remove();
+        DOMHelper.removeClass(document.body, 'printing-intake');
+    }, { once: true });
+    window.print();
+}
@@ -0,0 +1,28 @@
+// AAYURCURE - Applies the current locale to the static text in index.html
+// Elements opt in with data-i18n (text content) or data-i18n-<attribute>
+// (placeholder, aria-label, alt, title); the English in the markup is the
+// no-JS fallback.
+import { I18n, t } from '../shared/i18n.js';
+import type { MessageKey } from '../shared/i18n.js';
+
+const TRANSLATED_ATTRIBUTES = ['placeholder', 'aria-label', 'alt', 'title'];
+
+export class PageTranslator {
+    static apply(root: ParentNode = document): void {
+        root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+            element.textContent = t(element.dataset.i18n as MessageKey);
+        });
+
+        TRANSLATED_ATTRIBUTES.forEach(attribute => {
+            root.querySelectorAll<HTMLElement>(`[data-i18n-${attribute}]`).forEach(element => {
+                element.setAttribute(attribute, t(element.getAttribute(`data-i18n-${attribute}`) as MessageKey));
+            });
+        });
+
+        if (root === document) {
+            document.documentElement.lang = I18n.getLocaleInfo().tag;
+            document.title = t('meta.title');
+            document.querySelector('meta[name="description"]')?.setAttribute('content', t('meta.description'));
+        }
+    }
+}
@@ -0,0 +1,108 @@
+// AAYURCURE - Prakriti (Ayurvedic constitution) self-assessment scoring
+// Every answer leans towards one dosha; the share of Vata, Pitta and Kapha
+// answers gives the constitution and the services worth suggesting. The
+// question wording lives in the locale files as prakriti.q.<question>.<dosha>.
+import { getService } from '../shared/clinic-config.js';
+
+export type Dosha = 'vata' | 'pitta' | 'kapha';
+
+export const DOSHAS: Dosha[] = ['vata', 'pitta', 'kapha'];
+
+export const PRAKRITI_QUESTIONS = [
+    'frame',
+    'skin',
+    'hair',
+    'digestion',
+    'sleep',
+    'temperament',
+    'stress',
+    'weather'
+] as const;
+
+export type PrakritiQuestion = typeof PRAKRITI_QUESTIONS[number];
+
+export type PrakritiAnswers = Partial<Record<PrakritiQuestion, Dosha>>;
+
+export interface PrakritiResult {
+    percentages: Record<Dosha, number>;
+    // Strongest first; all three when the doshas are balanced
+    dominant: Dosha[];
+    suggestedServices: string[];
+}
+
+// Attached to the booking message; later results replace the line
+export const PRAKRITI_SUMMARY_PREFIX = 'Prakriti self-assessment:';
+
+// Treatments that most often help when each dosha is strong
+const DOSHA_SERVICES: Record<Dosha, string[]> = {
+    vata: ['panchkarma', 'kansya-thali', 'viddhkarma'],
+    pitta: ['hair-skin', 'kansya-thali', 'panchkarma'],
+    kapha: ['weight-management', 'cupping', 'panchkarma']
+};
+const BALANCED_SERVICES = ['consultation'];
+const MAX_SUGGESTIONS = 3;
+
+// Doshas within this many points of the strongest count as dominant too
+const DOMINANCE_MARGIN = 10;
+
+const DOSHA_LABELS: Record<Dosha, string> = { vata: 'Vata', pitta: 'Pitta', kapha: 'Kapha' };
+
+export function scorePrakriti(answers: PrakritiAnswers): PrakritiResult {
+    const counts: Record<Dosha, number> = { vata: 0, pitta: 0, kapha: 0 };
+    Object.values(answers).forEach(dosha => {
+        counts[dosha] += 1;
+    });
+
+    const percentages = toPercentages(counts);
+    const ranked = [...DOSHAS].sort((a, b) => percentages[b] - percentages[a]);
+    const dominant = ranked.filter(dosha => percentages[dosha] >= percentages[ranked[0]!] - DOMINANCE_MARGIN);
+
+    return { percentages, dominant, suggestedServices: suggestServices(dominant) };
+}
+
+// English for Dr. Tandel, whatever language the patient used
+export function summarizePrakriti(result: PrakritiResult): string {
+    const type = result.dominant.length === DOSHAS.length
+        ? 'Tridoshic (balanced)'
+        : result.dominant.map(dosha => DOSHA_LABELS[dosha]).join('-');
+    const shares = DOSHAS.map(dosha => `${DOSHA_LABELS[dosha]} ${result.percentages[dosha]}%`).join(', ');
+    return `${PRAKRITI_SUMMARY_PREFIX} ${type} (${shares})`;
+}
+
+// Whole percentages that always add up to 100
+function toPercentages(counts: Record<Dosha, number>): Record<Dosha, number> {
+    const total = DOSHAS.reduce((sum, dosha) => sum + counts[dosha], 0) || 1;
+    const exact = DOSHAS.map(dosha => ({ dosha, value: counts[dosha] * 100 / total }));
+    const percentages = Object.fromEntries(exact.map(({ dosha, value }) => [dosha, Math.floor(value)])) as Record<Dosha, number>;
+
+    let remainder = 100 - DOSHAS.reduce((sum, dosha) => sum + percentages[dosha], 0);
+    [...exact]
+        .sort((a, b) => (b.value % 1) - (a.value % 1))
+        .forEach(({ dosha }) => {
+            if (remainder > 0 && counts[dosha] > 0) {
+                percentages[dosha] += 1;
+                remainder -= 1;
+            }
+        });
+
+    return percentages;
+}
+
+// Takes the dominant doshas' lists in turn so a dual type gets something for each
+function suggestServices(dominant: Dosha[]): string[] {
+    const lists = dominant.length === DOSHAS.length
+        ? [BALANCED_SERVICES]
+        : dominant.map(dosha => DOSHA_SERVICES[dosha]);
+    const suggestions: string[] = [];
+
+    for (let index = 0; suggestions.length < MAX_SUGGESTIONS && lists.some(list => index < list.length); index++) {
+        lists.forEach(list => {
+            const serviceId = list[index];
+            if (serviceId && getService(serviceId) && !suggestions.includes(serviceId)) {
+                suggestions.push(serviceId);
+            }
+        });
+    }
+
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,242 @@
+// AAYURCURE - Client-side router for the one-page site
+// Plain hashes (#book) scroll to a section; path-style hashes such as
+// #/services/panchkarma open a named route's view. Navigation goes through
+// history.pushState with the scroll position kept on each history entry, so
+// Back and Forward return to where the visitor was. A scroll-spy keeps the
+// navigation link for the section on screen highlighted.
+import { DOMHelper } from './dom-helper.js';
+
+export type RouteParams = Record<string, string>;
+
+export interface RouteDefinition {
+    name: string;
+    // e.g. '/services/:serviceId'; each :name matches one path segment
+    path: string;
+    // Shows the view and returns the element to scroll to and focus (null if there is nothing to show)
+    enter: (params: RouteParams) => HTMLElement | null;
+    leave?: () => void;
+}
+
+export interface NavigateOptions {
+    // Swap the current history entry instead of adding one
+    replace?: boolean;
+}
+
+interface CompiledRoute extends RouteDefinition {
+    pattern: RegExp;
+    keys: string[];
+}
+
+interface RouterState {
+    scrollY?: number;
+}
+
+export class Router {
+    // Wait this long after scrolling stops before saving the position; browsers rate-limit replaceState
+    private static readonly SCROLL_SAVE_DELAY_MS = 150;
+    // Sections count as on screen in the top part of the viewport, below the header
+    private static readonly SPY_BOTTOM_MARGIN = '-55%';
+
+    private readonly routes: CompiledRoute[] = [];
+    private activeRoute: CompiledRoute | null = null;
+    private readonly header: HTMLElement | null;
+    private readonly navLinks: HTMLAnchorElement[];
+    private headerOffset: number = 0;
+    private spy: IntersectionObserver | null = null;
+    private readonly visibleSections = new Set<Element>();
+    private scrollSaveTimer: number | undefined;
+
+    constructor() {
+        this.header = DOMHelper.querySelector('.header');
+        this.navLinks = Array.from(DOMHelper.querySelectorAll<HTMLAnchorElement>('.nav-link'));
+
+        if ('scrollRestoration' in history) {
+            history.scrollRestoration = 'manual';
+        }
+    }
+
+    add(route: RouteDefinition): void {
+        const keys: string[] = [];
+        const source = route.path
+            .split('/')
+            .map(segment => {
+                if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                keys.push(segment.substring(1));
+                return '([^/]+)';
+            })
+            .join('/');
+        this.routes.push({ ...route, pattern: new RegExp(`^${source}$`), keys });
+    }
+
+    // Call once every route is added and the page content is rendered
+    start(): void {
+        document.addEventListener('click', (e) => this.handleLinkClick(e));
+        window.addEventListener('popstate', (e) => this.resolve(Router.savedScroll(e.state)));
+        window.addEventListener('scroll', () => this.scheduleScrollSave(), { passive: true });
+
+        this.measureHeader();
+        if (this.header && 'ResizeObserver' in window) {
+            new ResizeObserver(() => this.measureHeader()).observe(this.header);
+        }
+
+        const savedScroll = Router.savedScroll(history.state);
+        if (window.location.hash.length > 1 || savedScroll !== undefined) {
+            this.resolve(savedScroll);
+        }
+    }
+
+    // '#/services/panchkarma' for href('service', { serviceId: 'panchkarma' })
+    href(name: string, params: RouteParams = {}): string {
+        const route = this.routes.find(candidate => candidate.name === name);
+        if (!route) throw new Error(`Unknown route: ${name}`);
+
+        const path = route.path.replace(/:([^/]+)/g, (_, key: string) => encodeURIComponent(params[key] ?? ''));
+        return `#${path}`;
+    }
+
+    // Takes a hash such as '#book' or '#/services/panchkarma'
+    navigate(hash: string, { replace = false }: NavigateOptions = {}): void {
+        if (replace || hash === window.location.hash) {
+            history.replaceState({}, '', hash);
+        } else {
+            this.saveScrollPosition();
+            history.pushState({}, '', hash);
+        }
+        this.resolve();
+    }
+
+    // A saved position means Back or Forward (or a reload); otherwise scroll to the target
+    private resolve(scrollY?: number): void {
+        const hash = window.location.hash.substring(1);
+        const match = this.match(hash);
+        let target: HTMLElement | null;
+
+        if (match) {
+            if (this.activeRoute !== match.route) this.leaveRoute();
+            this.activeRoute = match.route;
+            target = match.route.enter(match.params);
+        } else {
+            this.leaveRoute();
+            target = hash ? DOMHelper.getElementById(hash) : null;
+        }
+
+        if (scrollY !== undefined) {
+            window.scrollTo({ top: scrollY, behavior: 'instant' });
+        } else if (target) {
+            target.scrollIntoView({ behavior: 'smooth' });
+        }
+        if (target) this.focus(target);
+    }
+
+    private match(hash: string): { route: CompiledRoute; params: RouteParams } | null {
+        for (const route of this.routes) {
+            const result = route.pattern.exec(hash);
+            if (!result) continue;
+
+            const params: RouteParams = {};
+            route.keys.forEach((key, index) => {
+                params[key] = decodeURIComponent(result[index + 1] ?? '');
+            });
+            return { route, params };
+        }
+        return null;
+    }
+
+    private leaveRoute(): void {
+        this.activeRoute?.leave?.();
+        this.activeRoute = null;
+    }
+
+    // Moves focus for keyboard and screen reader users, unless the view already put it somewhere inside
+    private focus(target: HTMLElement): void {
+        if (target.contains(document.activeElement)) return;
+
+        if (!target.hasAttribute('tabindex')) {
+            target.setAttribute('tabindex', '-1');
+        }
+        target.focus({ preventScroll: true });
+    }
+
+    // Takes over same-page links; anything the router cannot place keeps the browser's default
+    private handleLinkClick(e: MouseEvent): void {
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+        const link = (e.target as Element | null)?.closest<HTMLAnchorElement>('a[href^="#"]');
+        const hash = link?.getAttribute('href') ?? '';
+        if (hash.length <= 1) return;
+
+        const id = hash.substring(1);
+        if (!this.match(id) && !DOMHelper.getElementById(id)) return;
+
+        e.preventDefault();
+        this.navigate(hash);
+    }
+
+    private scheduleScrollSave(): void {
+        window.clearTimeout(this.scrollSaveTimer);
+        this.scrollSaveTimer = window.setTimeout(() => this.saveScrollPosition(), Router.SCROLL_SAVE_DELAY_MS);
+    }
+
+    private saveScrollPosition(): void {
+        window.clearTimeout(this.scrollSaveTimer);
+        const state: RouterState = { ...(history.state as RouterState | null), scrollY: window.scrollY };
+        history.replaceState(state, '');
+    }
+
+    private static savedScroll(state: unknown): number | undefined {
+        const scrollY = (state as RouterState | null)?.scrollY;
+        return typeof scrollY === 'number' ? scrollY : undefined;
+    }
+
+    // The sticky header's height, shared with CSS so scrollIntoView stops below it
+    private measureHeader(): void {
+        const offset = Math.ceil(this.header?.getBoundingClientRect().height ?? 0);
+        if (offset === this.headerOffset && this.spy) return;
+
+        this.headerOffset = offset;
+        document.documentElement.style.setProperty('--header-offset', `${offset}px`);
+        this.startScrollSpy();
+    }
+
+    // Sections without a link of their own light up the link before them, e.g. Prakriti under Services
+    private startScrollSpy(): void {
+        if (!('IntersectionObserver' in window)) return;
+
+        const owners = new Map<Element, HTMLAnchorElement | null>();
+        let owner: HTMLAnchorElement | null = null;
+        DOMHelper.querySelectorAll('main section[id]').forEach(section => {
+            owner = this.navLinks.find(link => link.getAttribute('href') === `#${section.id}`) ?? owner;
+            owners.set(section, owner);
+        });
+
+        this.spy?.disconnect();
+        this.visibleSections.clear();
+        this.spy = new IntersectionObserver(entries => {
+            entries.forEach(entry => {
+                if (entry.isIntersecting) {
+                    this.visibleSections.add(entry.target);
+                } else {
+                    this.visibleSections.delete(entry.target);
+                }
+            });
+
+            // The topmost visible section wins
+            const current = [...owners.keys()].find(section => this.visibleSections.has(section));
+            if (current) this.setActiveLink(owners.get(current) ?? null);
+        }, { rootMargin: `-${this.headerOffset}px 0px ${Router.SPY_BOTTOM_MARGIN} 0px` });
+
+        owners.forEach((_, section) => this.spy?.observe(section));
+    }
+
+    private setActiveLink(activeLink: HTMLAnchorElement | null): void {
+        this.navLinks.forEach(link => {
+            if (link === activeLink) {
+                DOMHelper.addClass(link, 'active');
+                link.setAttribute('aria-current', 'location');
+            } else {
+                DOMHelper.removeClass(link, 'active');
+                link.removeAttribute('aria-current');
+            }
+        });
+    }
+}
@@ -0,0 +1,59 @@
+// AAYURCURE - Line icons for the services catalog
+// 24x24 outlines drawn with the current text colour; config/clinic.json picks one per service.
+import type { ServiceIcon } from '../shared/clinic-config.js';
+
+type IconShape = { tag: 'path' | 'circle' | 'line'; attributes: Record<string, string> };
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const path = (d: string): IconShape => ({ tag: 'path', attributes: { d } });
+
+const ICONS: Record<ServiceIcon, IconShape[]> = {
+    leaf: [
+        path('M5 19C5 19 4 9 12 5C16 3 20 4 20 4C20 4 21 12 15 17C11 20 5 19 5 19Z'),
+        path('M5 19L13 11')
+    ],
+    star: [path('M12 2L13.09 8.26L19 9L13.09 9.74L12 16L10.91 9.74L5 9L10.91 8.26L12 2Z')],
+    'check-circle': [
+        path('M9 12L11 14L15 10M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z')
+    ],
+    figure: [
+        path('M12 2C13.1 2 14 2.9 14 4C14 5.1 13.1 6 12 6C10.9 6 10 5.1 10 4C10 2.9 10.9 2 12 2ZM21 9V7L15 7.5V9M15 16V14L21 14.5V16M15 20V22L21 21.5V20M3 9V7L9 7.5V9M9 16V14L3 14.5V16M9 20V22L3 21.5V20')
+    ],
+    layers: [
+        path('M12 2L2 7L12 12L22 7L12 2Z'),
+        path('M2 17L12 22L22 17'),
+        path('M2 12L12 17L22 12')
+    ],
+    smile: [
+        { tag: 'circle', attributes: { cx: '12', cy: '12', r: '10' } },
+        path('M8 14S9.5 16 12 16S16 14 16 14'),
+        { tag: 'line', attributes: { x1: '9', y1: '9', x2: '9.01', y2: '9' } },
+        { tag: 'line', attributes: { x1: '15', y1: '9', x2: '15.01', y2: '9' } }
+    ],
+    clipboard: [
+        path('M16 4H8C6.9 4 6 4.9 6 6V18C6 19.1 6.9 20 8 20H16C17.1 20 18 19.1 18 18V6C18 4.9 17.1 4 16 4Z'),
+        { tag: 'line', attributes: { x1: '12', y1: '8', x2: '12', y2: '16' } },
+        { tag: 'line', attributes: { x1: '8', y1: '12', x2: '16', y2: '12' } }
+    ],
+    child: [
+        path('M20 21V19C20 16.7909 18.2091 15 16 15H8C5.79086 15 4 16.7909 4 19V21'),
+        { tag: 'circle', attributes: { cx: '12', cy: '7', r: '4' } }
+    ]
+};
+
+export function createServiceIcon(icon: ServiceIcon): SVGSVGElement {
+    const svg = document.createElementNS(SVG_NAMESPACE, 'svg');
+    svg.setAttribute('viewBox', '0 0 24 24');
+    svg.setAttribute('fill', 'none');
+    svg.setAttribute('stroke', 'currentColor');
+    svg.setAttribute('stroke-width', '2');
+    svg.setAttribute('aria-hidden', 'true');
+
+    ICONS[icon].forEach(({ tag, attributes }) => {
+        const shape = document.createElementNS(SVG_NAMESPACE, tag);
+        Object.entries(attributes).forEach(([name, value]) => shape.setAttribute(name, value));
+        svg.appendChild(shape);
+    });
+    return svg;
+}
@@ -0,0 +1,31 @@
+// AAYURCURE - Time slot <select> options grouped by clinic session
+import { I18n, t } from '../shared/i18n.js';
+import type { MessageKey } from '../shared/i18n.js';
+import type { TimeSlot } from '../shared/scheduling.js';
+
+const PERIOD_LABELS: Record<TimeSlot['period'], MessageKey> = {
+    morning: 'session.morning',
+    evening: 'session.evening'
+};
+
+export function renderSlotOptions(select: HTMLSelectElement, slots: readonly TimeSlot[], placeholder: string): void {
+    const previousValue = select.value;
+    select.replaceChildren(new Option(placeholder, ''));
+
+    (Object.keys(PERIOD_LABELS) as TimeSlot['period'][]).forEach(period => {
+        const periodSlots = slots.filter(slot => slot.period === period);
+        if (periodSlots.length === 0) return;
+
+        const group = document.createElement('optgroup');
+        group.label = t(PERIOD_LABELS[period]);
+        periodSlots.forEach(slot => {
+            group.appendChild(new Option(`${I18n.formatTime(slot.start)} - ${I18n.formatTime(slot.end)}`, slot.start));
+        });
+        select.appendChild(group);
+    });
+
+    // Keep the current choice if it is still free
+    if (slots.some(slot => slot.start === previousValue)) {
+        select.value = previousValue;
+    }
+}
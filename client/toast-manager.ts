@@ -0,0 +1,221 @@
+// AAYURCURE - Toast Notification System
+// Toasts stack in the corner, at most MAX_VISIBLE at a time; later ones wait
+// in a queue. Each has its own timer, paused while the pointer or keyboard
+// focus is on it. Screen readers hear them through two hidden live regions,
+// so errors interrupt and everything else waits its turn.
+import { t } from '../shared/i18n.js';
+import { DOMHelper } from './dom-helper.js';
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+    label: string;
+    // The toast is dismissed once the handler has run
+    onClick: () => void;
+}
+
+export interface ToastOptions {
+    message: string;
+    type: ToastType;
+    // Milliseconds; 0 keeps the toast until it is dismissed
+    duration?: number;
+    actions?: ToastAction[];
+    // Showing a toast with the id of one still on screen or queued replaces it
+    id?: string;
+}
+
+type QueuedToast = ToastOptions & { id: string };
+
+interface ActiveToast {
+    id: string;
+    element: HTMLElement;
+    // Null for toasts that stay until dismissed
+    remaining: number | null;
+    startedAt: number;
+    timer: number | null;
+    hovered: boolean;
+    focused: boolean;
+}
+
+const DEFAULT_DURATION = 5000;
+// Longer when there is a button to reach
+const ACTION_DURATION = 10000;
+// Time left after the pointer or focus moves away, however little remained
+const MIN_RESUME_DURATION = 1500;
+const MAX_VISIBLE = 3;
+// Matches the .toast transition in styles.css
+const EXIT_DURATION = 300;
+
+export class ToastManager {
+    private static instance: ToastManager;
+    private region: HTMLElement | null = null;
+    private politeAnnouncer: HTMLElement | null = null;
+    private assertiveAnnouncer: HTMLElement | null = null;
+    private visible: ActiveToast[] = [];
+    private queue: QueuedToast[] = [];
+    private nextId = 0;
+
+    constructor() {
+        this.initializeToast();
+    }
+
+    static getInstance(): ToastManager {
+        if (!ToastManager.instance) {
+            ToastManager.instance = new ToastManager();
+        }
+        return ToastManager.instance;
+    }
+
+    private initializeToast(): void {
+        this.region = DOMHelper.getElementById('toastRegion');
+        this.politeAnnouncer = DOMHelper.getElementById('toastPolite');
+        this.assertiveAnnouncer = DOMHelper.getElementById('toastAssertive');
+    }
+
+    // Returns the toast's id, for dismiss()
+    show(options: ToastOptions): string {
+        const toast: QueuedToast = { ...options, id: options.id ?? `toast-${++this.nextId}` };
+        if (!this.region) return toast.id;
+
+        const current = this.visible.find(active => active.id === toast.id);
+        if (current) {
+            this.replace(current, toast);
+            return toast.id;
+        }
+
+        const queuedIndex = this.queue.findIndex(queued => queued.id === toast.id);
+        if (queuedIndex >= 0) {
+            this.queue[queuedIndex] = toast;
+        } else if (this.visible.length >= MAX_VISIBLE) {
+            this.queue.push(toast);
+        } else {
+            this.display(toast);
+        }
+        return toast.id;
+    }
+
+    dismiss(id: string): void {
+        this.queue = this.queue.filter(queued => queued.id !== id);
+
+        const active = this.visible.find(candidate => candidate.id === id);
+        if (!active) return;
+
+        this.pause(active);
+        this.visible = this.visible.filter(candidate => candidate !== active);
+        DOMHelper.removeClass(active.element, 'show');
+        window.setTimeout(() => active.element.remove(), EXIT_DURATION);
+
+        while (this.visible.length < MAX_VISIBLE && this.queue.length > 0) {
+            this.display(this.queue.shift()!);
+        }
+    }
+
+    dismissAll(): void {
+        this.queue = [];
+        this.visible.map(active => active.id).forEach(id => this.dismiss(id));
+    }
+
+    private display(toast: QueuedToast): void {
+        const active = this.createActive(toast);
+        this.visible.push(active);
+        this.region?.appendChild(active.element);
+
+        // Let the browser place it off-screen first so it slides in
+        requestAnimationFrame(() => DOMHelper.addClass(active.element, 'show'));
+        this.resume(active);
+        this.announce(toast);
+    }
+
+    // Updates a toast in place rather than stacking a copy
+    private replace(current: ActiveToast, toast: QueuedToast): void {
+        const next = this.createActive(toast);
+        this.pause(current);
+        DOMHelper.addClass(next.element, 'show');
+        current.element.replaceWith(next.element);
+        this.visible = this.visible.map(active => active === current ? next : active);
+
+        this.resume(next);
+        this.announce(toast);
+    }
+
+    private createActive(toast: QueuedToast): ActiveToast {
+        const actions = toast.actions ?? [];
+        const duration = toast.duration ?? (actions.length > 0 ? ACTION_DURATION : DEFAULT_DURATION);
+        const element = DOMHelper.createElement('div', `toast toast-${toast.type}`);
+        const active: ActiveToast = {
+            id: toast.id,
+            element,
+            remaining: duration > 0 ? duration : null,
+            startedAt: 0,
+            timer: null,
+            hovered: false,
+            focused: false
+        };
+
+        element.appendChild(DOMHelper.createElement('span', 'toast-message', toast.message));
+
+        actions.forEach(action => {
+            const button = DOMHelper.createElement('button', 'toast-action', action.label);
+            button.type = 'button';
+            button.addEventListener('click', () => {
+                action.onClick();
+                this.dismiss(toast.id);
+            });
+            element.appendChild(button);
+        });
+
+        const closeButton = DOMHelper.createElement('button', 'toast-close', '×');
+        closeButton.type = 'button';
+        closeButton.setAttribute('aria-label', t('common.closeNotification'));
+        closeButton.addEventListener('click', () => this.dismiss(toast.id));
+        element.appendChild(closeButton);
+
+        element.addEventListener('mouseenter', () => {
+            active.hovered = true;
+            this.pause(active);
+        });
+        element.addEventListener('mouseleave', () => {
+            active.hovered = false;
+            this.resume(active);
+        });
+        element.addEventListener('focusin', () => {
+            active.focused = true;
+            this.pause(active);
+        });
+        element.addEventListener('focusout', (e) => {
+            if (e.relatedTarget instanceof Node && element.contains(e.relatedTarget)) return;
+            active.focused = false;
+            this.resume(active);
+        });
+
+        return active;
+    }
+
+    private pause(active: ActiveToast): void {
+        if (active.timer === null || active.remaining === null) return;
+
+        window.clearTimeout(active.timer);
+        active.timer = null;
+        active.remaining -= Date.now() - active.startedAt;
+    }
+
+    private resume(active: ActiveToast): void {
+        if (active.timer !== null || active.remaining === null || active.hovered || active.focused) return;
+        if (!this.visible.includes(active)) return;
+
+        active.remaining = Math.max(active.remaining, MIN_RESUME_DURATION);
+        active.startedAt = Date.now();
+        active.timer = window.setTimeout(() => this.dismiss(active.id), active.remaining);
+    }
+
+    private announce(toast: QueuedToast): void {
+        const announcer = toast.type === 'error' ? this.assertiveAnnouncer : this.politeAnnouncer;
+        if (!announcer) return;
+
+        // Cleared first so the same message twice in a row is read again
+        announcer.textContent = '';
+        window.setTimeout(() => {
+            announcer.textContent = toast.message;
+        }, 50);
+    }
+}
@@ -1,624 +1,3420 @@
 // AAYURCURE Ayurvedic Clinic - TypeScript Application
 
-// Type Definitions
-interface AppointmentFormData {
-    patientName: string;
-    phoneNumber: string;
-    serviceType: string;
-    preferredDate: string;
-    preferredTime: string;
-    message: string;
+import { Analytics } from './client/analytics.js';
+import { AnalyticsConsent } from './client/consent.js';
+import { ApiError, requestJson } from './client/api-client.js';
+import { AppointmentOutbox, type QueuedAppointment } from './client/appointment-outbox.js';
+import { BookingDraftStore, IntakeDraftStore, ReturningPatientStore } from './client/booking-storage.js';
+import type { BookingDraft, ReturningPatient } from './client/booking-storage.js';
+import { Dialog } from './client/dialog.js';
+import { DOMHelper } from './client/dom-helper.js';
+import { intakeOptionLabel, printIntakeSummary, renderIntakeSummary } from './client/intake-summary.js';
+import type { IntakeBooking } from './client/intake-summary.js';
+import { PageTranslator } from './client/page-translator.js';
+import { DOSHAS, PRAKRITI_QUESTIONS, PRAKRITI_SUMMARY_PREFIX, scorePrakriti, summarizePrakriti } from './client/prakriti.js';
+import type { Dosha, PrakritiAnswers, PrakritiResult } from './client/prakriti.js';
+import { createServiceIcon } from './client/service-icons.js';
+import { Router } from './client/router.js';
+import { renderSlotOptions } from './client/slot-options.js';
+import { ToastManager } from './client/toast-manager.js';
+import { clinicConfig, getService, getServiceName, weekdayIndex } from './shared/clinic-config.js';
+import type { ClinicSession, ServiceConfig, Weekday } from './shared/clinic-config.js';
+import { bookingDetailLines, describeTimeSlot } from './shared/booking-message.js';
+import { appointmentUid, buildIcs, googleCalendarUrl, outlookCalendarUrl } from './shared/calendar-invite.js';
+import type { CalendarEvent } from './shared/calendar-invite.js';
+import { ClinicCalendar } from './shared/clinic-calendar.js';
+import type { CalendarException } from './shared/clinic-calendar.js';
+import { CoursePlanner } from './shared/courses.js';
+import { addDays, clinicNow } from './shared/dates.js';
+import { FAQ_CATEGORIES, FAQ_ENTRIES, buildFaqSchema, faqAnswer, faqQuestion } from './shared/faq.js';
+import type { FaqCategory, FaqEntry } from './shared/faq.js';
+import { DEFAULT_LOCALE, I18n, LOCALES, t } from './shared/i18n.js';
+import {
+    COMPLAINT_DURATIONS,
+    emptyIntakeAnswers,
+    INTAKE_CONDITIONS,
+    INTAKE_STEP_FIELDS,
+    INTAKE_STEPS,
+    IntakeValidator,
+    PREGNANCY_STATUSES,
+    PRIOR_TREATMENT_OPTIONS
+} from './shared/intake.js';
+import type { Locale, MessageKey } from './shared/i18n.js';
+import { fromMinutes, SlotScheduler, toMinutes } from './shared/scheduling.js';
+import type { TimeSlot } from './shared/scheduling.js';
+import { PRIVACY_NOTICE_VERSION } from './shared/privacy.js';
+import { buildClinicSchema } from './shared/structured-data.js';
+import { FormValidator } from './shared/validation.js';
+import type {
+    AppointmentFormData,
+    AppointmentReceipt,
+    AppointmentStatus,
+    AvailabilityResponse,
+    CoursePlan,
+    CourseSession,
+    IntakeAnswers,
+    IntakeStep,
+    PatientBooking,
+    PlannedSession,
+    PatientDataErasure,
+    PatientDataExport,
+    PatientIntake,
+    PhoneVerificationResult,
+    PublicReview,
+    PublicReviews,
+    RatingSummary,
+    VerificationCodeSent,
+    WaitlistOfferView,
+    WaitlistPeriod,
+    WaitlistRange,
+    WaitlistReceipt
+} from './shared/types.js';
+
+// Clinic Information
+// index.html carries the clinic details as a no-JS fallback; everything below
+// re-renders them from config/clinic.json so that file is the only place to edit.
+class ClinicInfoRenderer {
+    // How far ahead holidays, leave and special hours are announced
+    static readonly NOTICE_WINDOW_DAYS = 60;
+
+    // From approved reviews, once loaded; null leaves the rating out of the structured data
+    private static rating: RatingSummary | null = null;
+
+    static render(): void {
+        this.renderServiceOptions();
+        this.renderTimings();
+        this.renderHoursSummaries();
+        this.renderContactLinks();
+        this.renderStructuredData();
+    }
+
+    static get phoneDisplay(): string {
+        // +917359171081 -> +91 7359171081
+        return clinicConfig.contact.phone.replace(/^\+91/, '+91 ');
+    }
+
+    static get whatsappUrl(): string {
+        return `https://wa.me/${clinicConfig.contact.whatsapp}`;
+    }
+
+    static serviceName(serviceId: string): string {
+        return I18n.serviceName(serviceId, getServiceName(serviceId));
+    }
+
+    private static renderServiceOptions(): void {
+        const select = DOMHelper.getElementById<HTMLSelectElement>('serviceType');
+        if (!select) return;
+
+        const selected = select.value;
+        const placeholder = select.querySelector('option[value=""]');
+        select.replaceChildren(...(placeholder ? [placeholder] : []));
+        clinicConfig.services.forEach(service => {
+            select.appendChild(new Option(this.serviceName(service.id), service.id));
+        });
+        select.value = selected;
+    }
+
+    private static renderTimings(): void {
+        const grid = DOMHelper.querySelector('.timings-grid');
+        if (!grid) return;
+
+        const { openDays, appointmentOnlyDays, sessions } = clinicConfig.hours;
+        const openCard = this.createTimingCard(
+            this.describeDays(openDays, 'long'),
+            sessions.map(session => [this.formatSession(session), t(`session.${session.period}`)])
+        );
+        grid.replaceChildren(openCard);
+
+        if (appointmentOnlyDays.length > 0) {
+            grid.appendChild(this.createTimingCard(
+                this.describeDays(appointmentOnlyDays, 'long'),
+                [[t('timings.byAppointment'), t('timings.callToSchedule')]]
+            ));
+        }
+
+        const exceptions = this.getUpcomingExceptions();
+        if (exceptions.length > 0) {
+            grid.appendChild(this.createTimingCard(
+                t('timings.upcomingChanges'),
+                exceptions.map(exception => [this.describeException(exception), exception.reason])
+            ));
+        }
+    }
+
+    static getUpcomingExceptions(): CalendarException[] {
+        const today = clinicNow().date;
+        return ClinicCalendar.getExceptionsBetween(today, addDays(today, this.NOTICE_WINDOW_DAYS));
+    }
+
+    // "Fri, 25 Dec: Closed" / "Sun, 8 Nov: 9:30 AM – 1:00 PM"
+    static describeException(exception: CalendarException): string {
+        const dates = this.formatExceptionDates(exception);
+        const hours = exception.type === 'special-hours'
+            ? (exception.sessions || []).map(session => this.formatSession(session)).join(' & ')
+            : t('timings.closed');
+
+        return `${dates}: ${hours}`;
+    }
+
+    static formatExceptionDates(exception: CalendarException): string {
+        return exception.endDate && exception.endDate !== exception.date
+            ? `${this.formatDate(exception.date)} – ${this.formatDate(exception.endDate)}`
+            : this.formatDate(exception.date);
+    }
+
+    static formatDate(date: string): string {
+        return I18n.formatDate(date, 'short');
+    }
+
+    private static formatSession(session: ClinicSession, separator: string = ' – '): string {
+        return `${I18n.formatTime(session.start)}${separator}${I18n.formatTime(session.end)}`;
+    }
+
+    private static createTimingCard(title: string, slots: [string, string][]): HTMLElement {
+        const card = document.createElement('div');
+        card.className = 'timing-card';
+
+        const heading = document.createElement('h3');
+        heading.textContent = title;
+
+        const slotList = document.createElement('div');
+        slotList.className = 'time-slots';
+        slots.forEach(([time, label]) => {
+            const slot = document.createElement('div');
+            slot.className = 'time-slot';
+
+            const timeElement = document.createElement('span');
+            timeElement.className = 'time';
+            timeElement.textContent = time;
+
+            const labelElement = document.createElement('span');
+            labelElement.className = 'label';
+            labelElement.textContent = label;
+
+            slot.append(timeElement, labelElement);
+            slotList.appendChild(slot);
+        });
+
+        card.append(heading, slotList);
+        return card;
+    }
+
+    private static renderHoursSummaries(): void {
+        const { openDays, appointmentOnlyDays, sessions } = clinicConfig.hours;
+        const sessionText = sessions.map(session => this.formatSession(session, '–')).join(' & ');
+
+        DOMHelper.querySelectorAll('[data-clinic-hours]').forEach(element => {
+            element.replaceChildren(`${this.describeDays(openDays, 'short')}: ${sessionText}`);
+            if (appointmentOnlyDays.length > 0) {
+                element.append(
+                    document.createElement('br'),
+                    `${this.describeDays(appointmentOnlyDays, 'long')}: ${t('timings.byAppointment')}`
+                );
+            }
+        });
+    }
+
+    private static renderContactLinks(): void {
+        DOMHelper.querySelectorAll<HTMLAnchorElement>('a[href^="tel:"]').forEach(link => {
+            link.href = `tel:${clinicConfig.contact.phone}`;
+        });
+
+        // Pre-filled greetings follow the page language
+        DOMHelper.querySelectorAll<HTMLAnchorElement>('a[href^="https://wa.me/"]').forEach(link => {
+            const url = new URL(link.href);
+            if (url.searchParams.has('text')) {
+                url.searchParams.set('text', t('message.whatsappGreeting'));
+            }
+            link.href = `${this.whatsappUrl}${url.search}`;
+        });
+
+        DOMHelper.querySelectorAll('[data-clinic-phone]').forEach(element => {
+            element.textContent = this.phoneDisplay;
+        });
+    }
+
+    static setRating(rating: RatingSummary): void {
+        this.rating = rating;
+        this.renderStructuredData();
+    }
+
+    // The same graph `npm run seo` writes into index.html, in the visitor's language,
+    // plus the review rating, which only the API knows; the static copy has none
+    private static renderStructuredData(): void {
+        const siteUrl = clinicConfig.site.url || `${window.location.origin}${window.location.pathname.replace(/\/[^/]*$/, '')}`;
+        const script = DOMHelper.getElementById<HTMLScriptElement>('clinicStructuredData');
+        if (script) {
+            script.textContent = JSON.stringify(buildClinicSchema(siteUrl, this.rating), null, 4);
+        }
+    }
+
+    // ['monday', ..., 'saturday'] -> "Monday – Saturday" / "Mon-Sat"
+    private static describeDays(days: Weekday[], style: 'long' | 'short'): string {
+        const indexes = days.map(weekdayIndex).sort((a, b) => a - b);
+        const ranges: [number, number][] = [];
+
+        indexes.forEach(index => {
+            const lastRange = ranges[ranges.length - 1];
+            if (lastRange && lastRange[1] === index - 1) {
+                lastRange[1] = index;
+            } else {
+                ranges.push([index, index]);
+            }
+        });
+
+        const name = (index: number): string => I18n.weekdayName(index, style);
+        const separator = style === 'long' ? ' – ' : '-';
+
+        return ranges
+            .map(([first, last]) => first === last
+                ? name(first)
+                : `${name(first)}${last - first === 1 ? ', ' : separator}${name(last)}`)
+            .join(', ');
+    }
+}
+
+// Appointment API Client
+class AppointmentApi {
+    private static readonly ENDPOINT = '/api/appointments';
+    private static readonly AVAILABILITY_ENDPOINT = '/api/availability';
+    private static readonly COURSE_PLAN_ENDPOINT = '/api/courses/plan';
+    private static readonly BOOKINGS_ENDPOINT = '/api/bookings';
+    private static readonly VERIFICATION_ENDPOINT = '/api/verification';
+    private static readonly PRIVACY_ENDPOINT = '/api/privacy';
+    private static readonly REVIEWS_ENDPOINT = '/api/reviews';
+    private static readonly WAITLIST_ENDPOINT = '/api/waitlist';
+
+    // consentNoticeVersion is the privacy notice the patient agreed to
+    static async create(
+        formData: AppointmentFormData,
+        verificationToken: string,
+        consentNoticeVersion: string
+    ): Promise<AppointmentReceipt> {
+        return requestJson<AppointmentReceipt>(this.ENDPOINT, {
+            method: 'POST',
+            body: JSON.stringify({ ...formData, verificationToken, consentNoticeVersion, locale: I18n.getLocale() })
+        }, 'Could not save your appointment request');
+    }
+
+    static async sendVerificationCode(phoneNumber: string): Promise<VerificationCodeSent> {
+        return requestJson<VerificationCodeSent>(`${this.VERIFICATION_ENDPOINT}/send`, {
+            method: 'POST',
+            body: JSON.stringify({ phoneNumber, locale: I18n.getLocale() })
+        }, 'Could not send the verification code');
+    }
+
+    static async verifyPhone(phoneNumber: string, code: string): Promise<PhoneVerificationResult> {
+        return requestJson<PhoneVerificationResult>(`${this.VERIFICATION_ENDPOINT}/verify`, {
+            method: 'POST',
+            body: JSON.stringify({ phoneNumber, code })
+        }, 'Could not check the verification code');
+    }
+
+    static async getAvailability(date: string, serviceType: string): Promise<AvailabilityResponse> {
+        const params = new URLSearchParams({ date, service: serviceType });
+        return requestJson<AvailabilityResponse>(
+            `${this.AVAILABILITY_ENDPOINT}?${params}`,
+            {},
+            'Could not load available times'
+        );
+    }
+
+    static async planCourse(serviceType: string, sessions: string, date: string, time: string): Promise<CoursePlan> {
+        const params = new URLSearchParams({ service: serviceType, sessions, date, time });
+        return requestJson<CoursePlan>(
+            `${this.COURSE_PLAN_ENDPOINT}?${params}`,
+            {},
+            'Could not plan your course'
+        );
+    }
+
+    // "Manage my booking" - the reference and phone number travel in the body
+    static async lookup(reference: string, phoneNumber: string): Promise<PatientBooking> {
+        return this.sendBookingRequest('lookup', { reference, phoneNumber }, 'Could not find your booking');
+    }
+
+    static async getBookingAvailability(reference: string, phoneNumber: string, date: string): Promise<AvailabilityResponse> {
+        return this.sendBookingRequest('availability', { reference, phoneNumber, date }, 'Could not load available times');
+    }
+
+    static async reschedule(
+        reference: string,
+        phoneNumber: string,
+        preferredDate: string,
+        preferredTime: string
+    ): Promise<PatientBooking> {
+        return this.sendBookingRequest(
+            'reschedule',
+            { reference, phoneNumber, preferredDate, preferredTime },
+            'Could not change your booking'
+        );
+    }
+
+    static async cancel(reference: string, phoneNumber: string, reason: string): Promise<PatientBooking> {
+        return this.sendBookingRequest('cancel', { reference, phoneNumber, reason }, 'Could not cancel your booking');
+    }
+
+    static async setReminders(reference: string, phoneNumber: string, enabled: boolean): Promise<PatientBooking> {
+        return this.sendBookingRequest('reminders', { reference, phoneNumber, enabled }, 'Could not update your reminders');
+    }
+
+    static async getIntake(reference: string, phoneNumber: string): Promise<PatientIntake | null> {
+        return this.sendBookingRequest('intake', { reference, phoneNumber }, 'Could not load your health questionnaire');
+    }
+
+    // step is the one just answered; submit sends the finished questionnaire to the doctor
+    static async saveIntake(
+        reference: string,
+        phoneNumber: string,
+        answers: IntakeAnswers,
+        step: IntakeStep | '',
+        submit: boolean
+    ): Promise<PatientIntake> {
+        return this.sendBookingRequest(
+            'intake/save',
+            { reference, phoneNumber, answers, step, submit },
+            'Could not save your answers'
+        );
+    }
+
+    static async submitReview(
+        reference: string,
+        phoneNumber: string,
+        rating: number,
+        comment: string,
+        showName: boolean
+    ): Promise<PatientBooking> {
+        return this.sendBookingRequest(
+            'review',
+            { reference, phoneNumber, rating, comment, showName },
+            'Could not send your review'
+        );
+    }
+
+    static async getReviews(): Promise<PublicReviews> {
+        return requestJson<PublicReviews>(this.REVIEWS_ENDPOINT, {}, 'Could not load reviews');
+    }
+
+    // Waits for a slot on the form's date (and the week after it, for range 'week')
+    static async joinWaitlist(
+        formData: AppointmentFormData,
+        period: WaitlistPeriod,
+        range: WaitlistRange,
+        verificationToken: string,
+        consentNoticeVersion: string
+    ): Promise<WaitlistReceipt> {
+        const { patientName, phoneNumber, serviceType, preferredDate } = formData;
+        return requestJson<WaitlistReceipt>(this.WAITLIST_ENDPOINT, {
+            method: 'POST',
+            body: JSON.stringify({
+                patientName,
+                phoneNumber,
+                serviceType,
+                preferredDate,
+                period,
+                range,
+                verificationToken,
+                consentNoticeVersion,
+                locale: I18n.getLocale()
+            })
+        }, 'Could not add you to the waitlist');
+    }
+
+    // The token from the offer link is all that is needed to see and answer an offer
+    static async getOffer(token: string): Promise<WaitlistOfferView> {
+        return requestJson<WaitlistOfferView>(
+            `${this.WAITLIST_ENDPOINT}/offers/${encodeURIComponent(token)}`,
+            {},
+            'Could not load your offer'
+        );
+    }
+
+    static async answerOffer(token: string, answer: 'accept' | 'decline'): Promise<WaitlistOfferView> {
+        return requestJson<WaitlistOfferView>(
+            `${this.WAITLIST_ENDPOINT}/offers/${encodeURIComponent(token)}/${answer}`,
+            { method: 'POST' },
+            'Could not answer your offer'
+        );
+    }
+
+    // Data rights requests need a verified phone number rather than a booking reference
+    static async exportData(phoneNumber: string, verificationToken: string): Promise<PatientDataExport> {
+        return requestJson<PatientDataExport>(`${this.PRIVACY_ENDPOINT}/export`, {
+            method: 'POST',
+            body: JSON.stringify({ phoneNumber, verificationToken })
+        }, 'Could not download your data');
+    }
+
+    static async eraseData(phoneNumber: string, verificationToken: string): Promise<PatientDataErasure> {
+        return requestJson<PatientDataErasure>(`${this.PRIVACY_ENDPOINT}/erase`, {
+            method: 'POST',
+            body: JSON.stringify({ phoneNumber, verificationToken, confirm: true })
+        }, 'Could not erase your data');
+    }
+
+    private static async sendBookingRequest<T>(
+        action: string,
+        body: Record<string, unknown>,
+        fallbackMessage: string
+    ): Promise<T> {
+        return requestJson<T>(`${this.BOOKINGS_ENDPOINT}/${action}`, {
+            method: 'POST',
+            body: JSON.stringify(body)
+        }, fallbackMessage);
+    }
+}
+
+// Phone Verification
+// A code texted to the patient must be entered before the booking is sent;
+// the token it earns only counts for the number the code went to. The privacy
+// form has its own copy for data requests.
+class PhoneVerification {
+    private toastManager: ToastManager;
+    private codeSentTo: string = '';
+    private resendAt: number = 0;
+    private resendTimer: number | null = null;
+    private verifiedPhone: string = '';
+    private token: string = '';
+    private tokenExpiresAt: number = 0;
+    private verifiedListeners: ((phone: string) => void)[] = [];
+
+    // Element ids are the prefix plus Send, Code, Verify, Error and so on
+    constructor(
+        private readonly phoneInputId: string = 'phoneNumber',
+        private readonly idPrefix: string = 'otp'
+    ) {
+        this.toastManager = ToastManager.getInstance();
+        this.initialize();
+    }
+
+    private initialize(): void {
+        this.element('Send')?.addEventListener('click', () => void this.sendCode());
+        this.element('Resend')?.addEventListener('click', () => void this.sendCode());
+        this.element('Verify')?.addEventListener('click', () => void this.verifyCode());
+
+        const codeInput = this.element<HTMLInputElement>('Code');
+        if (codeInput) {
+            codeInput.addEventListener('input', () => {
+                codeInput.value = codeInput.value.replace(/\D/g, '').slice(0, 6);
+            });
+            // Enter confirms the code rather than submitting the booking
+            codeInput.addEventListener('keydown', (e) => {
+                if (e.key === 'Enter') {
+                    e.preventDefault();
+                    void this.verifyCode();
+                }
+            });
+        }
+
+        // A different number needs its own code
+        DOMHelper.getElementById(this.phoneInputId)?.addEventListener('input', () => {
+            this.showError('');
+            this.render();
+        });
+        this.render();
+    }
+
+    // '' until the number has been verified (or once its token has expired)
+    getToken(phoneNumber: string): string {
+        const phone = phoneNumber.replace(/\D/g, '');
+        return phone === this.verifiedPhone && Date.now() < this.tokenExpiresAt ? this.token : '';
+    }
+
+    // Called with the number each time a code is accepted
+    onVerified(listener: (phone: string) => void): void {
+        this.verifiedListeners.push(listener);
+    }
+
+    requireVerification(): void {
+        this.render();
+        this.showError(t('otp.required'));
+        const codeInput = this.element<HTMLInputElement>('Code');
+        if (codeInput && !this.element('Entry')?.hidden) {
+            codeInput.focus();
+        } else {
+            this.element('Send')?.focus();
+        }
+    }
+
+    // The API no longer accepts the token, e.g. after a server restart
+    reset(): void {
+        this.verifiedPhone = '';
+        this.token = '';
+        this.tokenExpiresAt = 0;
+        this.render();
+    }
+
+    render(): void {
+        const phone = this.currentPhone();
+        const verified = this.getToken(phone) !== '';
+        const codeSent = !verified && phone !== '' && phone === this.codeSentTo;
+
+        const verifiedText = this.element('Verified');
+        const request = this.element('Request');
+        const entry = this.element('Entry');
+        const label = this.element('CodeLabel');
+        if (verifiedText) verifiedText.hidden = !verified;
+        if (request) request.hidden = verified || codeSent;
+        if (entry) entry.hidden = !codeSent;
+        if (label) label.textContent = t('otp.codeLabel', { phone });
+
+        this.renderResend();
+    }
+
+    private renderResend(): void {
+        const resendButton = this.element<HTMLButtonElement>('Resend');
+        if (!resendButton) return;
+
+        const secondsLeft = Math.ceil((this.resendAt - Date.now()) / 1000);
+        resendButton.disabled = secondsLeft > 0;
+        resendButton.textContent = secondsLeft > 0 ? t('otp.resendIn', { seconds: secondsLeft }) : t('otp.resend');
+
+        if (secondsLeft > 0 && this.resendTimer === null) {
+            this.resendTimer = window.setTimeout(() => {
+                this.resendTimer = null;
+                this.renderResend();
+            }, 1000);
+        }
+    }
+
+    private async sendCode(): Promise<void> {
+        const phone = this.currentPhone();
+        const phoneError = FormValidator.validatePhone(phone);
+        if (phoneError) {
+            this.showError(phoneError);
+            DOMHelper.getElementById(this.phoneInputId)?.focus();
+            return;
+        }
+
+        const sendButton = this.element<HTMLButtonElement>('Send');
+        if (sendButton) sendButton.disabled = true;
+
+        try {
+            const sent = await AppointmentApi.sendVerificationCode(phone);
+            this.codeSentTo = phone;
+            this.resendAt = new Date(sent.resendAfter).getTime();
+            this.showError('');
+            this.render();
+            this.toastManager.show({ message: t('otp.sent', { phone }), type: 'success' });
+            this.element('Code')?.focus();
+        } catch (error) {
+            console.error('Could not send verification code:', error);
+            if (!(error instanceof ApiError)) {
+                this.showError(t('otp.sendFailed'));
+            } else if (error.status === 429) {
+                this.showError(t('otp.tooManyRequests'));
+            } else {
+                this.showError(error.errors.phoneNumber || error.message);
+            }
+        } finally {
+            if (sendButton) sendButton.disabled = false;
+        }
+    }
+
+    private async verifyCode(): Promise<void> {
+        const codeInput = this.element<HTMLInputElement>('Code');
+        if (!codeInput) return;
+
+        const phone = this.codeSentTo;
+        const codeError = FormValidator.validateOtpCode(codeInput.value);
+        if (codeError) {
+            this.showError(codeError);
+            codeInput.focus();
+            return;
+        }
+
+        try {
+            const result = await AppointmentApi.verifyPhone(phone, codeInput.value.trim());
+            this.verifiedPhone = phone;
+            this.token = result.verificationToken;
+            this.tokenExpiresAt = new Date(result.expiresAt).getTime();
+            this.codeSentTo = '';
+            codeInput.value = '';
+            this.showError('');
+            this.render();
+            this.verifiedListeners.forEach(listener => listener(phone));
+        } catch (error) {
+            console.error('Could not verify code:', error);
+            this.showError(this.describeVerifyError(error));
+
+            // Expired or used up - the patient has to ask for a new code
+            if (error instanceof ApiError && (error.status === 410 || error.status === 429)) {
+                this.codeSentTo = '';
+                this.render();
+            } else {
+                codeInput.select();
+            }
+        }
+    }
+
+    private describeVerifyError(error: unknown): string {
+        if (!(error instanceof ApiError)) return t('otp.verifyFailed');
+
+        switch (error.status) {
+            case 410:
+                return t('otp.expired');
+            case 429:
+                return t('otp.tooManyAttempts');
+            case 422:
+                return error.errors.phoneNumber || t('otp.incorrect');
+            default:
+                return error.message;
+        }
+    }
+
+    private currentPhone(): string {
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>(this.phoneInputId);
+        return (phoneInput?.value || '').replace(/\D/g, '');
+    }
+
+    private element<T extends HTMLElement = HTMLElement>(name: string): T | null {
+        return DOMHelper.getElementById<T>(`${this.idPrefix}${name}`);
+    }
+
+    private showError(message: string): void {
+        const errorElement = this.element('Error');
+        if (errorElement) errorElement.textContent = message;
+    }
+}
+
+// Appointment Form Handler
+// The form's fields plus the privacy consent checkbox
+type BookingField = keyof AppointmentFormData | 'consent';
+
+class AppointmentForm {
+    private static readonly ERROR_ELEMENT_IDS: Record<string, string> = {
+        patientName: 'nameError',
+        phoneNumber: 'phoneError',
+        preferredDate: 'dateError',
+        preferredTime: 'timeError',
+        courseSessions: 'courseError',
+        consent: 'consentError'
+    };
+    // Calendar alarm before the visit, enough time to travel to the clinic
+    private static readonly REMINDER_MINUTES = 120;
+    // Reused so repeated failed attempts don't stack up copies
+    private static readonly BOOKING_ERROR_TOAST = 'booking-error';
+    private static readonly QUEUED_VERIFY_TOAST = 'queued-verify';
+
+    private form: HTMLFormElement | null;
+    private toastManager: ToastManager;
+    private phoneVerification: PhoneVerification;
+    private slotRequestId: number = 0;
+    private planRequestId: number = 0;
+    // The chosen day has no free time, or the chosen time was just taken
+    private waitlistOffered: boolean = false;
+    private sendingQueued: boolean = false;
+    // Draft found on arrival, kept until restored or discarded since autosave overwrites the stored one
+    private pendingDraft: BookingDraft | null = null;
+
+    constructor(private readonly onOpenIntake: (booking: IntakeBooking, phoneNumber: string) => void) {
+        this.form = DOMHelper.getElementById<HTMLFormElement>('appointmentForm');
+        this.toastManager = ToastManager.getInstance();
+        this.phoneVerification = new PhoneVerification();
+        this.initializeForm();
+    }
+
+    private initializeForm(): void {
+        if (!this.form) return;
+
+        this.form.addEventListener('submit', (e) => void this.handleSubmit(e));
+        this.form.addEventListener('input', () => Analytics.trackOnce('booking_start'), { once: true });
+        this.initializeDrafts();
+        
+        // Earliest selectable date is the next day the clinic is open
+        const dateInput = DOMHelper.getElementById<HTMLInputElement>('preferredDate');
+        if (dateInput) {
+            dateInput.setAttribute('min', ClinicCalendar.firstOpenDate(clinicNow().date));
+        }
+        this.renderClosureNotice();
+
+        // Add real-time validation
+        this.addRealTimeValidation();
+        this.renderCourseOptions();
+        void this.refreshTimeSlots();
+        DOMHelper.getElementById('waitlistJoin')?.addEventListener('click', () => void this.joinWaitlist());
+
+        // Requests queued while offline go out as soon as the connection returns,
+        // or once the patient verifies again if their code lapsed in the meantime
+        window.addEventListener('online', () => void this.sendQueuedAppointments());
+        this.phoneVerification.onVerified(() => void this.sendQueuedAppointments());
+        void this.sendQueuedAppointments();
+    }
+
+    private addRealTimeValidation(): void {
+        const nameInput = DOMHelper.getElementById<HTMLInputElement>('patientName');
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('phoneNumber');
+        const dateInput = DOMHelper.getElementById<HTMLInputElement>('preferredDate');
+        const serviceSelect = DOMHelper.getElementById<HTMLSelectElement>('serviceType');
+        const timeSelect = DOMHelper.getElementById<HTMLSelectElement>('preferredTime');
+        const courseSelect = DOMHelper.getElementById<HTMLSelectElement>('courseSessions');
+
+        if (nameInput) {
+            nameInput.addEventListener('blur', () => this.validateField('patientName'));
+        }
+
+        if (phoneInput) {
+            phoneInput.addEventListener('blur', () => this.validateField('phoneNumber'));
+            phoneInput.addEventListener('input', (e) => this.formatPhoneInput(e));
+        }
+
+        if (dateInput) {
+            dateInput.addEventListener('change', () => {
+                this.validateField('preferredDate');
+                void this.refreshTimeSlots();
+            });
+        }
+
+        if (serviceSelect) {
+            // Longer treatments fit into fewer slots, and only some are offered as courses
+            serviceSelect.addEventListener('change', () => {
+                this.renderCourseOptions();
+                void this.refreshTimeSlots();
+            });
+        }
+
+        if (timeSelect) {
+            timeSelect.addEventListener('change', () => {
+                this.validateField('preferredTime');
+                void this.refreshCoursePlan();
+            });
+        }
+
+        if (courseSelect) {
+            courseSelect.addEventListener('change', () => {
+                this.validateField('courseSessions');
+                this.renderWaitlist();
+                void this.refreshCoursePlan();
+            });
+        }
+
+        DOMHelper.getElementById('consent')?.addEventListener('change', () => this.validateField('consent'));
+    }
+
+    private initializeDrafts(): void {
+        if (!this.form) return;
+
+        this.pendingDraft = BookingDraftStore.get();
+        this.prefillReturningPatient();
+        this.renderDraftNotice();
+
+        // Autosave as the patient types so nothing is lost when they leave the page
+        this.form.addEventListener('input', () => this.saveDraft());
+        this.form.addEventListener('change', () => this.saveDraft());
+
+        DOMHelper.getElementById('draftRestore')?.addEventListener('click', () => void this.restoreDraft());
+        DOMHelper.getElementById('draftDiscard')?.addEventListener('click', () => this.discardDraft());
+        DOMHelper.getElementById('forgetPatient')?.addEventListener('click', () => this.forgetPatient());
+    }
+
+    private saveDraft(): void {
+        const formData = this.getFormData();
+        if (this.isDraftWorthKeeping(formData)) {
+            BookingDraftStore.save(formData);
+        } else {
+            BookingDraftStore.clear();
+        }
+    }
+
+    // A form holding nothing but the remembered name and phone is not worth offering back
+    private isDraftWorthKeeping(formData: AppointmentFormData): boolean {
+        const patient = ReturningPatientStore.get();
+        return Object.entries(formData).some(([field, value]) =>
+            value.trim() !== '' && value !== patient?.[field as keyof ReturningPatient]);
+    }
+
+    private renderDraftNotice(): void {
+        const notice = DOMHelper.getElementById('draftNotice');
+        const text = DOMHelper.getElementById('draftNoticeText');
+        if (!notice || !text) return;
+
+        const draft = this.pendingDraft && this.isDraftWorthKeeping(this.pendingDraft.formData)
+            ? this.pendingDraft
+            : null;
+        notice.hidden = !draft;
+        text.textContent = draft
+            ? t('draft.found', { date: ClinicInfoRenderer.formatDate(clinicNow(new Date(draft.savedAt)).date) })
+            : '';
+    }
+
+    private async restoreDraft(): Promise<void> {
+        const draft = this.pendingDraft;
+        if (!this.form || !draft) return;
+
+        this.pendingDraft = null;
+        this.renderDraftNotice();
+
+        // Drafts saved before course booking have no courseSessions
+        const { preferredTime, courseSessions = '', ...fields } = draft.formData;
+        Object.entries(fields).forEach(([name, value]) => {
+            const field = this.form?.elements.namedItem(name);
+            if (field instanceof HTMLInputElement || field instanceof HTMLSelectElement || field instanceof HTMLTextAreaElement) {
+                field.value = value;
+            }
+        });
+
+        // The course packages and the time list depend on the restored date and service
+        this.renderCourseOptions();
+        const courseSelect = DOMHelper.getElementById<HTMLSelectElement>('courseSessions');
+        if (courseSelect && Array.from(courseSelect.options).some(option => option.value === courseSessions)) {
+            courseSelect.value = courseSessions;
+        }
+        await this.refreshTimeSlots();
+        const timeSelect = DOMHelper.getElementById<HTMLSelectElement>('preferredTime');
+        if (timeSelect && Array.from(timeSelect.options).some(option => option.value === preferredTime)) {
+            timeSelect.value = preferredTime;
+        }
+        void this.refreshCoursePlan();
+
+        this.saveDraft();
+        this.phoneVerification.render();
+        DOMHelper.getElementById('patientName')?.focus();
+    }
+
+    private discardDraft(): void {
+        this.pendingDraft = null;
+        BookingDraftStore.clear();
+        // Keep whatever has been typed since arriving
+        this.saveDraft();
+        this.renderDraftNotice();
+    }
+
+    private prefillReturningPatient(): void {
+        const patient = ReturningPatientStore.get();
+        const nameInput = DOMHelper.getElementById<HTMLInputElement>('patientName');
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('phoneNumber');
+        const rememberInput = DOMHelper.getElementById<HTMLInputElement>('rememberPatient');
+
+        if (patient) {
+            if (nameInput && !nameInput.value) nameInput.value = patient.patientName;
+            if (phoneInput && !phoneInput.value) phoneInput.value = patient.phoneNumber;
+            if (rememberInput) rememberInput.checked = true;
+        }
+        this.renderReturningPatient();
+        this.phoneVerification.render();
+    }
+
+    private renderReturningPatient(): void {
+        const container = DOMHelper.getElementById('returningPatient');
+        const text = DOMHelper.getElementById('returningPatientText');
+        if (!container || !text) return;
+
+        const patient = ReturningPatientStore.get();
+        container.hidden = !patient;
+        text.textContent = patient ? t('patient.welcomeBack', { name: patient.patientName }) : '';
+    }
+
+    private rememberPatient(formData: AppointmentFormData): void {
+        const rememberInput = DOMHelper.getElementById<HTMLInputElement>('rememberPatient');
+        if (rememberInput?.checked) {
+            ReturningPatientStore.save({
+                patientName: formData.patientName,
+                phoneNumber: formData.phoneNumber.replace(/\D/g, '')
+            });
+        } else {
+            ReturningPatientStore.forget();
+        }
+    }
+
+    // "Forget me" removes everything this device holds about the patient
+    private forgetPatient(): void {
+        const patient = ReturningPatientStore.get();
+        ReturningPatientStore.forget();
+        BookingDraftStore.clear();
+        this.pendingDraft = null;
+
+        const nameInput = DOMHelper.getElementById<HTMLInputElement>('patientName');
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('phoneNumber');
+        const rememberInput = DOMHelper.getElementById<HTMLInputElement>('rememberPatient');
+        if (nameInput && nameInput.value === patient?.patientName) nameInput.value = '';
+        if (phoneInput && phoneInput.value === patient?.phoneNumber) phoneInput.value = '';
+        if (rememberInput) rememberInput.checked = false;
+
+        this.renderReturningPatient();
+        this.renderDraftNotice();
+        this.phoneVerification.render();
+        this.toastManager.show({ message: t('patient.forgotten'), type: 'success' });
+        nameInput?.focus();
+    }
+
+    // The Prakriti quiz picks the service and leaves its result for the doctor
+    applyPrakriti(serviceId: string, summary: string): void {
+        const messageInput = DOMHelper.getElementById<HTMLTextAreaElement>('message');
+        this.setService(serviceId);
+
+        if (messageInput) {
+            // Replace an earlier result rather than stacking them up
+            const kept = messageInput.value
+                .split('\n')
+                .filter(line => !line.startsWith(PRAKRITI_SUMMARY_PREFIX))
+                .join('\n')
+                .trim();
+            messageInput.value = kept ? `${kept}\n${summary}` : summary;
+            messageInput.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+
+        this.toastManager.show({
+            message: t('prakriti.applied', { service: ClinicInfoRenderer.serviceName(serviceId) }),
+            type: 'success'
+        });
+        this.showForm();
+    }
+
+    // "Book this" in the services catalog
+    selectService(serviceId: string): void {
+        this.setService(serviceId);
+        this.toastManager.show({
+            message: t('services.selected', { service: ClinicInfoRenderer.serviceName(serviceId) }),
+            type: 'success'
+        });
+        this.showForm();
+    }
+
+    private setService(serviceId: string): void {
+        const serviceSelect = DOMHelper.getElementById<HTMLSelectElement>('serviceType');
+        if (!serviceSelect) return;
+
+        serviceSelect.value = serviceId;
+        serviceSelect.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    private showForm(): void {
+        DOMHelper.getElementById('book')?.scrollIntoView({ behavior: 'smooth' });
+        DOMHelper.getElementById('patientName')?.focus({ preventScroll: true });
+    }
+
+    // The request is stored (by the API or in the outbox) - start a fresh form
+    private resetAfterBooking(formData: AppointmentFormData): void {
+        if (!this.form) return;
+
+        this.rememberPatient(formData);
+        BookingDraftStore.clear();
+        this.pendingDraft = null;
+        this.form.reset();
+        this.prefillReturningPatient();
+        this.renderDraftNotice();
+        this.renderCourseOptions();
+        void this.refreshTimeSlots();
+    }
+
+    // Re-render everything built from translated text after a language change
+    applyLocale(): void {
+        this.renderDraftNotice();
+        this.renderReturningPatient();
+        this.renderClosureNotice();
+        this.phoneVerification.render();
+        this.renderCourseOptions();
+        void this.refreshTimeSlots();
+
+        Object.entries(AppointmentForm.ERROR_ELEMENT_IDS).forEach(([field, errorId]) => {
+            if (DOMHelper.getElementById(errorId)?.textContent) {
+                this.validateField(field as BookingField);
+            }
+        });
+    }
+
+    // Date inputs cannot grey out individual days, so list the upcoming closures instead
+    private renderClosureNotice(): void {
+        const notice = DOMHelper.getElementById('dateNotice');
+        if (!notice) return;
+
+        const closures = ClinicInfoRenderer.getUpcomingExceptions()
+            .filter(exception => exception.type !== 'special-hours');
+
+        notice.textContent = closures.length > 0
+            ? t('form.closedNotice', {
+                closures: closures.map(closure =>
+                    `${ClinicInfoRenderer.formatExceptionDates(closure)} (${closure.reason})`).join(', ')
+            })
+            : '';
+    }
+
+    private async refreshTimeSlots(): Promise<void> {
+        const timeSelect = DOMHelper.getElementById<HTMLSelectElement>('preferredTime');
+        if (!timeSelect) return;
+
+        const { preferredDate, serviceType } = this.getFormData();
+        const requestId = ++this.slotRequestId;
+
+        this.waitlistOffered = false;
+        this.renderWaitlist();
+
+        if (!preferredDate || FormValidator.validateDate(preferredDate)) {
+            renderSlotOptions(timeSelect, [], t('slots.selectDateFirst'));
+            return;
+        }
+
+        renderSlotOptions(timeSelect, [], t('slots.loading'));
+        timeSelect.disabled = true;
+
+        let slots: TimeSlot[];
+        let online = true;
+        try {
+            slots = (await AppointmentApi.getAvailability(preferredDate, serviceType)).slots;
+        } catch (error) {
+            // Offline - offer the clinic's regular slots so the WhatsApp/email fallback still works
+            console.error('Could not load availability:', error);
+            slots = SlotScheduler.getCandidateSlots(preferredDate, serviceType);
+            online = false;
+        }
+
+        // A newer date or service was picked while this request was in flight
+        if (requestId !== this.slotRequestId) return;
+
+        timeSelect.disabled = false;
+        this.waitlistOffered = online && slots.length === 0;
+        this.renderWaitlist();
+        renderSlotOptions(
+            timeSelect,
+            slots,
+            slots.length > 0 ? t('slots.select') : t('slots.none')
+        );
+        void this.refreshCoursePlan();
+    }
+
+    // Packages for the chosen service; the group stays hidden for single-visit services
+    private renderCourseOptions(): void {
+        const group = DOMHelper.getElementById('courseGroup');
+        const courseSelect = DOMHelper.getElementById<HTMLSelectElement>('courseSessions');
+        if (!group || !courseSelect) return;
+
+        const offered = getService(this.getFormData().serviceType)?.courseSessions ?? [];
+        const selected = offered.includes(Number(courseSelect.value)) ? courseSelect.value : '';
+
+        const single = DOMHelper.createElement('option', '', t('course.single'));
+        single.value = '';
+        courseSelect.replaceChildren(single, ...offered.map(sessions => {
+            const option = DOMHelper.createElement('option', '', t('course.sessions', { sessions }));
+            option.value = String(sessions);
+            return option;
+        }));
+        courseSelect.value = selected;
+        group.hidden = offered.length === 0;
+        void this.refreshCoursePlan();
+    }
+
+    // Lists the days the course would take; offline the plan ignores other bookings
+    private async refreshCoursePlan(): Promise<void> {
+        const preview = DOMHelper.getElementById('coursePlan');
+        if (!preview) return;
+
+        const { serviceType, courseSessions, preferredDate, preferredTime } = this.getFormData();
+        const requestId = ++this.planRequestId;
+
+        if (!courseSessions) {
+            preview.replaceChildren();
+            return;
+        }
+        if (!preferredDate || !preferredTime) {
+            preview.replaceChildren(DOMHelper.createElement('p', 'form-hint', t('course.pickStart')));
+            return;
+        }
+
+        let sessions: PlannedSession[];
+        try {
+            sessions = (await AppointmentApi.planCourse(serviceType, courseSessions, preferredDate, preferredTime)).sessions;
+        } catch (error) {
+            console.error('Could not plan the course:', error);
+            sessions = CoursePlanner.plan(serviceType, Number(courseSessions), preferredDate, preferredTime, []) ?? [];
+        }
+
+        // The form changed while this request was in flight
+        if (requestId !== this.planRequestId) return;
+
+        if (sessions.length === 0) {
+            preview.replaceChildren(DOMHelper.createElement('p', 'form-hint', t('course.noFit')));
+            return;
+        }
+
+        const last = sessions[sessions.length - 1];
+        const list = DOMHelper.createElement('ol', 'course-plan-list');
+        sessions.forEach(session => {
+            list.appendChild(DOMHelper.createElement('li', '', this.describeSession(session)));
+        });
+        preview.replaceChildren(
+            DOMHelper.createElement('p', 'course-plan-title', t('course.planTitle', {
+                sessions: sessions.length,
+                end: last ? ClinicInfoRenderer.formatDate(last.date) : ''
+            })),
+            list
+        );
+    }
+
+    private describeSession(session: PlannedSession): string {
+        return `${ClinicInfoRenderer.formatDate(session.date)} · ${I18n.formatTime(session.time)}`;
+    }
+
+    // Courses are planned around full days instead, so the waitlist is for single visits
+    private renderWaitlist(): void {
+        const panel = DOMHelper.getElementById('waitlistPanel');
+        if (panel) panel.hidden = !this.waitlistOffered || this.getFormData().courseSessions !== '';
+    }
+
+    // Same checks as a booking without the time; the phone must be verified too
+    private async joinWaitlist(): Promise<void> {
+        this.clearFormErrors();
+
+        const formData = this.getFormData();
+        const consentNoticeVersion = this.consentNoticeVersion();
+        const errors = { ...FormValidator.validateWaitlist(formData).errors };
+        const consentError = FormValidator.validateConsent(consentNoticeVersion);
+        if (consentError) errors.consent = consentError;
+
+        if (Object.keys(errors).length > 0) {
+            this.showWaitlistErrors(errors);
+            return;
+        }
+
+        const verificationToken = this.phoneVerification.getToken(formData.phoneNumber);
+        if (!verificationToken) {
+            this.phoneVerification.requireVerification();
+            this.toastManager.show({ message: t('toast.verifyPhone'), type: 'error' });
+            return;
+        }
+
+        const period = (DOMHelper.getElementById<HTMLSelectElement>('waitlistPeriod')?.value || 'any') as WaitlistPeriod;
+        const range = (DOMHelper.getElementById<HTMLSelectElement>('waitlistRange')?.value || 'day') as WaitlistRange;
+        const joinButton = DOMHelper.getElementById<HTMLButtonElement>('waitlistJoin');
+        if (joinButton) joinButton.disabled = true;
+
+        try {
+            const receipt = await AppointmentApi.joinWaitlist(formData, period, range, verificationToken, consentNoticeVersion);
+            const dates = receipt.fromDate === receipt.untilDate
+                ? ClinicInfoRenderer.formatDate(receipt.fromDate)
+                : `${ClinicInfoRenderer.formatDate(receipt.fromDate)} – ${ClinicInfoRenderer.formatDate(receipt.untilDate)}`;
+            this.toastManager.show({ message: t('toast.waitlistJoined', { dates }), type: 'success', duration: 8000 });
+            this.waitlistOffered = false;
+            this.renderWaitlist();
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 403) {
+                this.phoneVerification.reset();
+                this.phoneVerification.requireVerification();
+                return;
+            }
+
+            if (error instanceof ApiError && Object.keys(error.errors).length > 0) {
+                this.showWaitlistErrors(error.errors);
+                return;
+            }
+
+            console.error('Could not join the waitlist:', error);
+            const waitlistError = DOMHelper.getElementById('waitlistError');
+            if (waitlistError) {
+                waitlistError.textContent = error instanceof ApiError ? error.message : t('waitlist.unreachable');
+            }
+        } finally {
+            if (joinButton) joinButton.disabled = false;
+        }
+    }
+
+    // The service select has no error line of its own, so the panel reports a missing service
+    private showWaitlistErrors(errors: Record<string, string>): void {
+        const { serviceType: serviceError = '', ...fieldErrors } = errors;
+        const waitlistError = DOMHelper.getElementById('waitlistError');
+        if (waitlistError) waitlistError.textContent = serviceError;
+        this.showValidationErrors(fieldErrors);
+    }
+
+    private formatPhoneInput(e: Event): void {
+        const input = e.target as HTMLInputElement;
+        let value = input.value.replace(/\D/g, '');
+        
+        // Limit to 10 digits
+        if (value.length > 10) {
+            value = value.substring(0, 10);
+        }
+        
+        input.value = value;
+    }
+
+    private validateField(fieldName: BookingField): void {
+        const errors = this.validate(this.getFormData());
+        
+        const errorElement = this.getErrorElement(fieldName);
+        const inputElement = DOMHelper.getElementById<HTMLInputElement>(fieldName);
+        
+        if (errorElement && inputElement) {
+            const error = errors[fieldName] || '';
+            // Counted when the error appears, not on every blur while it stays
+            if (error && !errorElement.textContent) Analytics.track('validation_error', fieldName);
+            errorElement.textContent = error;
+            
+            if (error) {
+                DOMHelper.addClass(inputElement, 'error');
+            } else {
+                DOMHelper.removeClass(inputElement, 'error');
+            }
+        }
+    }
+
+    // The form's own checks plus agreement to the privacy notice
+    private validate(formData: AppointmentFormData): Record<string, string> {
+        const errors = { ...FormValidator.validateForm(formData).errors };
+        const consentError = FormValidator.validateConsent(this.consentNoticeVersion());
+        if (consentError) errors.consent = consentError;
+        return errors;
+    }
+
+    // '' until the consent box is ticked
+    private consentNoticeVersion(): string {
+        const consent = DOMHelper.getElementById<HTMLInputElement>('consent');
+        return consent?.checked ? PRIVACY_NOTICE_VERSION : '';
+    }
+
+    private getErrorElement(fieldName: string): HTMLElement | null {
+        const errorId = AppointmentForm.ERROR_ELEMENT_IDS[fieldName];
+        return errorId ? DOMHelper.getElementById(errorId) : null;
+    }
+
+    private getFormData(): AppointmentFormData {
+        if (!this.form) throw new Error('Form not found');
+
+        const formData = new FormData(this.form);
+        
+        return {
+            patientName: (formData.get('patientName') as string) || '',
+            phoneNumber: (formData.get('phoneNumber') as string) || '',
+            serviceType: (formData.get('serviceType') as string) || '',
+            preferredDate: (formData.get('preferredDate') as string) || '',
+            preferredTime: (formData.get('preferredTime') as string) || '',
+            message: (formData.get('message') as string) || '',
+            courseSessions: (formData.get('courseSessions') as string) || ''
+        };
+    }
+
+    private clearFormErrors(): void {
+        if (!this.form) return;
+
+        const errorElements = this.form.querySelectorAll<HTMLElement>('.error-message');
+        errorElements.forEach(element => {
+            element.textContent = '';
+        });
+
+        const inputElements = this.form.querySelectorAll<HTMLElement>('.form-input');
+        inputElements.forEach(element => {
+            DOMHelper.removeClass(element, 'error');
+        });
+    }
+
+    private displayErrors(errors: Record<string, string>): void {
+        Object.entries(errors).forEach(([field, message]) => {
+            const errorElement = this.getErrorElement(field);
+            const inputElement = DOMHelper.getElementById<HTMLInputElement>(field);
+            
+            if (errorElement) {
+                errorElement.textContent = message;
+            }
+            
+            if (inputElement) {
+                DOMHelper.addClass(inputElement, 'error');
+            }
+        });
+    }
+
+    private generateEmailContent(formData: AppointmentFormData, reference?: string): string {
+        let content = `${t('message.emailHeading')}\n\n`;
+        if (reference) {
+            content += `${t('message.reference', { reference })}\n`;
+        }
+        content += `${t('message.emailName', { name: formData.patientName })}\n`;
+        content += `${t('message.emailPhone', { phone: formData.phoneNumber })}\n`;
+        
+        if (formData.serviceType) {
+            content += `${t('message.emailService', { service: ClinicInfoRenderer.serviceName(formData.serviceType) })}\n`;
+        }
+        
+        if (formData.preferredDate) {
+            content += `${t('message.emailDate', { date: I18n.formatDate(formData.preferredDate, 'long') })}\n`;
+        }
+        
+        if (formData.preferredTime) {
+            content += `${t('message.emailTime', { time: describeTimeSlot(formData) })}\n`;
+        }
+
+        if (formData.courseSessions) {
+            content += `${t('message.coursePackage', { sessions: formData.courseSessions })}\n`;
+        }
+        
+        if (formData.message.trim()) {
+            content += `\n${t('message.emailAdditional')}\n${formData.message}\n`;
+        }
+
+        content += `\n---\n${t('message.emailFooter')}`;
+        
+        return encodeURIComponent(content);
+    }
+
+    private generateWhatsAppMessage(formData: AppointmentFormData, reference?: string): string {
+        let message = `${t('message.whatsappGreeting')}\n\n`;
+        if (reference) {
+            message += `${t('message.reference', { reference })}\n`;
+        }
+        message += `${t('message.whatsappName', { name: formData.patientName })}\n`;
+        message += `${t('message.whatsappPhone', { phone: formData.phoneNumber })}\n`;
+
+        // ISO date so staff read it the same way whatever language the patient used
+        bookingDetailLines(formData).forEach(line => {
+            message += `${line}\n`;
+        });
+
+        return encodeURIComponent(message);
+    }
+
+    private async handleSubmit(e: Event): Promise<void> {
+        e.preventDefault();
+        
+        if (!this.form) return;
+
+        // Clear previous errors
+        this.clearFormErrors();
+
+        // Get and validate form data
+        const formData = this.getFormData();
+        const errors = this.validate(formData);
+
+        if (Object.keys(errors).length > 0) {
+            Object.keys(errors).forEach(field => Analytics.track('validation_error', field));
+            this.showValidationErrors(errors);
+            return;
+        }
+        Analytics.track('booking_submit');
+        const consentNoticeVersion = this.consentNoticeVersion();
+
+        const verificationToken = this.phoneVerification.getToken(formData.phoneNumber);
+        if (!verificationToken) {
+            if (navigator.onLine) {
+                this.phoneVerification.requireVerification();
+                this.toastManager.show({ message: t('toast.verifyPhone'), type: 'error' });
+                return;
+            }
+
+            // Offline before verifying - the number cannot be checked, so send the request by hand
+            this.toastManager.show({ message: t('toast.bookingOffline'), type: 'error' });
+            void this.showContactOptions(...this.buildContactLinks(formData));
+            return;
+        }
+
+        const submitButton = this.form.querySelector<HTMLButtonElement>('button[type="submit"]');
+        if (submitButton) submitButton.disabled = true;
+
+        try {
+            const receipt = await AppointmentApi.create(formData, verificationToken, consentNoticeVersion);
+
+            this.toastManager.dismiss(AppointmentForm.BOOKING_ERROR_TOAST);
+            Analytics.track('booking_complete', 'online');
+            this.toastManager.show({
+                message: receipt.sessions
+                    ? t('toast.courseSaved', { reference: receipt.reference, sessions: receipt.sessions.length })
+                    : t('toast.bookingSaved', { reference: receipt.reference }),
+                type: 'success',
+                duration: 8000
+            });
+
+            // WhatsApp, email and the health questionnaire are optional once the booking is stored;
+            // a course's questionnaire goes with its first session
+            const first = receipt.sessions?.[0];
+            const booking: IntakeBooking = first
+                ? { ...formData, preferredDate: first.preferredDate, preferredTime: first.preferredTime, reference: receipt.reference }
+                : { ...formData, reference: receipt.reference };
+            void this.showContactOptions(
+                ...this.buildContactLinks(formData, receipt.reference),
+                this.buildCalendarEvents(formData, receipt),
+                () => this.onOpenIntake(booking, formData.phoneNumber)
+            );
+            this.resetAfterBooking(formData);
+        } catch (error) {
+            // The verification has lapsed on the server - ask for a new code
+            if (error instanceof ApiError && error.status === 403) {
+                this.phoneVerification.reset();
+                this.phoneVerification.requireVerification();
+                return;
+            }
+
+            if (error instanceof ApiError && Object.keys(error.errors).length > 0) {
+                // Someone took the slot first - the patient can wait for another one
+                if (error.status === 409 && !formData.courseSessions) {
+                    this.waitlistOffered = true;
+                    this.renderWaitlist();
+                }
+                this.showValidationErrors(error.errors);
+                return;
+            }
+
+            console.error('Appointment booking failed:', error);
+
+            // Offline - keep the request and send it when the connection returns
+            if (!(error instanceof ApiError) && await this.queueAppointment(formData, verificationToken, consentNoticeVersion)) {
+                Analytics.track('booking_complete', 'queued');
+                this.toastManager.show({ message: t('toast.bookingQueued'), type: 'info', duration: 8000 });
+                this.resetAfterBooking(formData);
+                return;
+            }
+
+            // Server unreachable - fall back to sending the request by hand
+            this.toastManager.show({
+                id: AppointmentForm.BOOKING_ERROR_TOAST,
+                message: t('toast.bookingOffline'),
+                type: 'error',
+                actions: [{ label: t('toast.retry'), onClick: () => this.form?.requestSubmit() }]
+            });
+            void this.showContactOptions(...this.buildContactLinks(formData));
+        } finally {
+            if (submitButton) submitButton.disabled = false;
+        }
+    }
+
+    private async queueAppointment(
+        formData: AppointmentFormData,
+        verificationToken: string,
+        consentNoticeVersion: string
+    ): Promise<boolean> {
+        if (!AppointmentOutbox.isSupported()) return false;
+
+        try {
+            await AppointmentOutbox.add(formData, verificationToken, consentNoticeVersion);
+            return true;
+        } catch (error) {
+            console.error('Could not queue the appointment request:', error);
+            return false;
+        }
+    }
+
+    private async sendQueuedAppointments(): Promise<void> {
+        if (this.sendingQueued || !navigator.onLine || !AppointmentOutbox.isSupported()) return;
+        this.sendingQueued = true;
+
+        try {
+            for (const entry of await AppointmentOutbox.list()) {
+                try {
+                    // A fresh verification on this page stands in for one that lapsed while offline
+                    const receipt = await AppointmentApi.create(
+                        entry.formData,
+                        this.phoneVerification.getToken(entry.formData.phoneNumber) || entry.verificationToken,
+                        entry.consentNoticeVersion ?? ''
+                    );
+                    await AppointmentOutbox.remove(entry.id);
+                    this.toastManager.show({
+                        message: t('toast.queuedSent', { reference: receipt.reference }),
+                        type: 'success',
+                        duration: 8000
+                    });
+                } catch (error) {
+                    // Still unreachable or rate limited - leave the rest for the next attempt
+                    if (!(error instanceof ApiError) || error.status >= 500 || error.status === 429) return;
+
+                    // The verification expired while offline - keep the request until the number is verified again
+                    if (error.status === 401 || error.status === 403) {
+                        this.requestReverification(entry);
+                        continue;
+                    }
+
+                    // The clinic turned it down, e.g. the slot was taken in the meantime
+                    await AppointmentOutbox.remove(entry.id);
+                    this.toastManager.show({
+                        message: t('toast.queuedRejected', { reason: error.message }),
+                        type: 'error',
+                        duration: 8000
+                    });
+                }
+            }
+        } catch (error) {
+            console.error('Could not read the appointment outbox:', error);
+        } finally {
+            this.sendingQueued = false;
+        }
+    }
+
+    // Puts the queued request's number back in the form so the patient can verify it
+    private requestReverification(entry: QueuedAppointment): void {
+        const { patientName, phoneNumber } = entry.formData;
+        // This page's token was turned down too, e.g. after a server restart
+        if (this.phoneVerification.getToken(phoneNumber)) this.phoneVerification.reset();
+
+        this.toastManager.show({
+            id: AppointmentForm.QUEUED_VERIFY_TOAST,
+            message: t('toast.queuedVerify', { phone: phoneNumber }),
+            type: 'error',
+            duration: 0,
+            actions: [{
+                label: t('toast.queuedVerifyAction'),
+                onClick: () => {
+                    const nameInput = DOMHelper.getElementById<HTMLInputElement>('patientName');
+                    const phoneInput = DOMHelper.getElementById<HTMLInputElement>('phoneNumber');
+                    if (nameInput && !nameInput.value) nameInput.value = patientName;
+                    if (phoneInput) phoneInput.value = phoneNumber;
+                    DOMHelper.getElementById('book')?.scrollIntoView({ behavior: 'smooth' });
+                    this.phoneVerification.requireVerification();
+                }
+            }]
+        });
+    }
+
+    private showValidationErrors(errors: Record<string, string>): void {
+        this.displayErrors(errors);
+        
+        // Focus on first error field
+        const firstErrorField = Object.keys(errors)[0];
+        const firstErrorElement = firstErrorField
+            ? DOMHelper.getElementById<HTMLInputElement>(firstErrorField)
+            : null;
+        if (firstErrorElement) {
+            firstErrorElement.focus();
+        }
+
+        this.toastManager.show({
+            message: t('toast.fixErrors'),
+            type: 'error'
+        });
+    }
+
+    private buildContactLinks(formData: AppointmentFormData, reference?: string): [string, string] {
+        // Generate email and WhatsApp links
+        const emailContent = this.generateEmailContent(formData, reference);
+        const whatsappMessage = this.generateWhatsAppMessage(formData, reference);
+
+        // Create mailto link
+        const mailtoLink = `mailto:?subject=${encodeURIComponent(t('message.emailSubject'))}&body=${emailContent}`;
+        
+        // Create WhatsApp link
+        const whatsappLink = `${ClinicInfoRenderer.whatsappUrl}?text=${whatsappMessage}`;
+
+        return [mailtoLink, whatsappLink];
+    }
+
+    // Only stored bookings get calendar entries, so each carries its reference;
+    // a course gets one entry per session
+    private buildCalendarEvents(formData: AppointmentFormData, receipt: AppointmentReceipt): CalendarEvent[] {
+        const sessions: CourseSession[] = receipt.sessions ?? [{
+            reference: receipt.reference,
+            status: receipt.status,
+            preferredDate: formData.preferredDate,
+            preferredTime: formData.preferredTime
+        }];
+        const service = SlotScheduler.getServiceSchedule(formData.serviceType);
+        const serviceName = ClinicInfoRenderer.serviceName(service.id);
+
+        return sessions
+            .filter(session => session.preferredDate && session.preferredTime)
+            .map((session, index) => ({
+                uid: appointmentUid(session.reference),
+                date: session.preferredDate,
+                startTime: session.preferredTime,
+                durationMinutes: service.durationMinutes,
+                summary: receipt.sessions
+                    ? t('invite.courseSummary', { service: serviceName, session: index + 1, sessions: sessions.length })
+                    : t('invite.summary', { service: serviceName }),
+                description: t('invite.description', { reference: session.reference, phone: ClinicInfoRenderer.phoneDisplay }),
+                reminderMinutes: AppointmentForm.REMINDER_MINUTES
+            }));
+    }
+
+    private async showContactOptions(
+        emailLink: string,
+        whatsappLink: string,
+        calendarEvents: CalendarEvent[] = [],
+        onIntake: (() => void) | null = null
+    ): Promise<void> {
+        const icsUrl = calendarEvents.length > 0
+            ? URL.createObjectURL(new Blob([buildIcs(calendarEvents, clinicConfig.name)], { type: 'text/calendar' }))
+            : null;
+
+        const whatsapp = this.createLink(whatsappLink, t('contactOptions.whatsapp'), 'contact-option contact-option-whatsapp');
+        const email = this.createLink(emailLink, t('contactOptions.email'), 'contact-option contact-option-email');
+        whatsapp.addEventListener('click', () => Analytics.track('contact_choice', 'whatsapp'));
+        email.addEventListener('click', () => Analytics.track('contact_choice', 'email'));
+
+        const links = DOMHelper.createElement('div', 'contact-options');
+        links.append(whatsapp, email);
+        if (icsUrl) {
+            links.appendChild(this.createCalendarLinks(calendarEvents, icsUrl));
+        }
+
+        const dialog = new Dialog<'intake' | 'close'>({
+            title: t('contactOptions.title'),
+            message: t('contactOptions.prompt'),
+            content: links
+        });
+        const choice = await dialog.choose([
+            ...(onIntake ? [{ label: t('intake.offer'), value: 'intake' as const }] : []),
+            { label: t('common.close'), value: 'close', variant: 'secondary' }
+        ]);
+
+        if (icsUrl) URL.revokeObjectURL(icsUrl);
+        if (choice === 'intake') onIntake?.();
+    }
+
+    private createLink(href: string, label: string, className: string): HTMLAnchorElement {
+        const link = DOMHelper.createElement('a', className, label);
+        link.href = href;
+        // WhatsApp opens in a new tab; mailto hands over to the mail app
+        if (href.startsWith('http')) {
+            link.target = '_blank';
+            link.rel = 'noopener';
+        }
+        return link;
+    }
+
+    // Google and Outlook links add one event each, so a course only gets the file
+    private createCalendarLinks(events: CalendarEvent[], icsUrl: string): HTMLElement {
+        const container = DOMHelper.createElement('div', 'calendar-links');
+        container.appendChild(DOMHelper.createElement('p', 'calendar-links-title', t('invite.title')));
+
+        const row = DOMHelper.createElement('div', 'calendar-links-row');
+        const download = DOMHelper.createElement('a', 'calendar-link', t('invite.download'));
+        download.href = icsUrl;
+        download.download = `aayurcure-${events[0]?.date ?? 'booking'}.ics`;
+        row.appendChild(download);
+
+        const [event] = events;
+        if (event && events.length === 1) {
+            row.append(
+                this.createLink(googleCalendarUrl(event), t('invite.google'), 'calendar-link'),
+                this.createLink(outlookCalendarUrl(event), t('invite.outlook'), 'calendar-link')
+            );
+        }
+        container.appendChild(row);
+        return container;
+    }
+}
+
+// Services Catalog
+// Cards and detail pages built from the services in config/clinic.json; the
+// text comes from the locale files. Each service has its own route, e.g.
+// #/services/panchkarma, and "Book this" picks it in the booking form.
+class ServicesCatalog {
+    private grid: HTMLElement | null;
+    private detail: HTMLElement | null;
+    // The service whose detail page is open
+    private openServiceId: string | null = null;
+
+    constructor(private readonly router: Router, private readonly onBook: (serviceId: string) => void) {
+        this.grid = DOMHelper.getElementById('servicesGrid');
+        this.detail = DOMHelper.getElementById('serviceDetail');
+
+        router.add({
+            name: 'service',
+            path: '/services/:serviceId',
+            enter: ({ serviceId }) => this.showDetail(serviceId ?? ''),
+            leave: () => this.showList()
+        });
+        this.renderCards();
+    }
+
+    applyLocale(): void {
+        this.renderCards();
+        if (this.openServiceId) this.renderDetail(this.openServiceId);
+    }
+
+    private renderCards(): void {
+        if (!this.grid) return;
+        this.grid.replaceChildren(...clinicConfig.services.map(service => this.createCard(service)));
+    }
+
+    private createCard(service: ServiceConfig): HTMLElement {
+        const card = DOMHelper.createElement('article', 'service-card');
+        const image = this.createImage(service);
+        if (image) card.appendChild(image);
+
+        const icon = DOMHelper.createElement('div', 'service-icon');
+        icon.appendChild(createServiceIcon(service.icon));
+        card.appendChild(icon);
+
+        card.appendChild(DOMHelper.createElement('h3', '', ClinicInfoRenderer.serviceName(service.id)));
+        card.appendChild(DOMHelper.createElement('p', '', I18n.serviceText(service.id, 'summary')));
+        card.appendChild(DOMHelper.createElement('p', 'service-meta', this.describeMeta(service)));
+
+        const actions = DOMHelper.createElement('div', 'service-actions');
+        const detailsLink = DOMHelper.createElement('a', 'btn btn-secondary', t('services.details'));
+        detailsLink.href = this.router.href('service', { serviceId: service.id });
+        actions.append(detailsLink, this.createBookButton(service.id));
+        card.appendChild(actions);
+        return card;
+    }
+
+    // Unknown services fall back to the list
+    private showDetail(serviceId: string): HTMLElement | null {
+        if (!getService(serviceId) || !this.detail) {
+            this.showList();
+            return DOMHelper.getElementById('services');
+        }
+
+        this.renderDetail(serviceId);
+        if (this.grid) this.grid.hidden = true;
+        this.detail.hidden = false;
+        return this.detail;
+    }
+
+    private showList(): void {
+        this.openServiceId = null;
+        if (this.grid) this.grid.hidden = false;
+        if (this.detail) {
+            this.detail.hidden = true;
+            this.detail.replaceChildren();
+        }
+    }
+
+    private renderDetail(serviceId: string): void {
+        const service = getService(serviceId);
+        if (!this.detail || !service) return;
+        this.openServiceId = serviceId;
+
+        const backButton = DOMHelper.createElement('button', 'link-button service-detail-back', t('services.back'));
+        backButton.type = 'button';
+        backButton.addEventListener('click', () => this.router.navigate('#services'));
+
+        const body = DOMHelper.createElement('div', 'service-detail-body');
+        const image = this.createImage(service);
+        if (image) body.appendChild(image);
+
+        const content = DOMHelper.createElement('div', 'service-detail-content');
+        const title = DOMHelper.createElement('h3', '', ClinicInfoRenderer.serviceName(service.id));
+        title.id = 'serviceDetailTitle';
+        content.append(title, DOMHelper.createElement('p', '', I18n.serviceText(service.id, 'summary')));
+
+        const facts = DOMHelper.createElement('dl', 'service-facts');
+        facts.append(
+            DOMHelper.createElement('dt', '', t('services.duration')),
+            DOMHelper.createElement('dd', '', t('services.minutes', { minutes: service.durationMinutes })),
+            DOMHelper.createElement('dt', '', t('services.price')),
+            DOMHelper.createElement('dd', '', this.describePrice(service))
+        );
+        content.appendChild(facts);
+
+        const sections: [MessageKey, string][] = [
+            ['services.preparation', I18n.serviceText(service.id, 'preparation')],
+            ['services.contraindications', I18n.serviceText(service.id, 'contraindications')]
+        ];
+        sections.filter(([, text]) => text).forEach(([heading, text]) => {
+            content.append(DOMHelper.createElement('h4', '', t(heading)), DOMHelper.createElement('p', '', text));
+        });
+
+        content.appendChild(this.createBookButton(service.id));
+        body.appendChild(content);
+        this.detail.replaceChildren(backButton, body);
+    }
+
+    private createBookButton(serviceId: string): HTMLButtonElement {
+        const button = DOMHelper.createElement('button', 'btn btn-primary', t('services.book'));
+        button.type = 'button';
+        button.addEventListener('click', () => {
+            // Leave the detail page without adding a history entry
+            if (this.openServiceId) {
+                this.router.navigate('#book', { replace: true });
+            }
+            this.onBook(serviceId);
+        });
+        return button;
+    }
+
+    private createImage(service: ServiceConfig): HTMLElement | null {
+        if (!service.image) return null;
+
+        const wrapper = DOMHelper.createElement('div', 'service-image');
+        const image = DOMHelper.createElement('img', 'service-img');
+        image.src = service.image;
+        image.alt = I18n.serviceText(service.id, 'imageAlt');
+        image.loading = 'lazy';
+        wrapper.appendChild(image);
+        return wrapper;
+    }
+
+    private describeMeta(service: ServiceConfig): string {
+        return `${t('services.minutes', { minutes: service.durationMinutes })} · ${this.describePrice(service)}`;
+    }
+
+    private describePrice(service: ServiceConfig): string {
+        if (service.priceInr === null) return t('services.priceOnRequest');
+        return t('services.priceFrom', { price: service.priceInr.toLocaleString(I18n.getLocaleInfo().tag) });
+    }
 }
 
-interface ValidationResult {
-    isValid: boolean;
-    errors: Record<string, string>;
+// Prakriti Self-Assessment
+// Scores the questionnaire, shows the constitution as a chart and hands a
+// suggested service plus a summary for the doctor to the booking form.
+class PrakritiQuiz {
+    private form: HTMLFormElement | null;
+    private result: PrakritiResult | null = null;
+
+    constructor(private readonly onChooseService: (serviceId: string, summary: string) => void) {
+        this.form = DOMHelper.getElementById<HTMLFormElement>('prakritiForm');
+        this.initializeQuiz();
+    }
+
+    private initializeQuiz(): void {
+        if (!this.form) return;
+
+        this.renderQuestions();
+        this.form.addEventListener('submit', (e) => this.handleSubmit(e));
+        this.form.addEventListener('change', () => this.showError(''));
+        DOMHelper.getElementById('prakritiRetake')?.addEventListener('click', () => this.retake());
+    }
+
+    // Re-render the questions (keeping the answers) and any result after a language change
+    applyLocale(): void {
+        this.renderQuestions(this.getAnswers());
+        if (this.result) this.renderResult(this.result);
+    }
+
+    private renderQuestions(answers: PrakritiAnswers = {}): void {
+        const container = DOMHelper.getElementById('prakritiQuestions');
+        if (!container) return;
+
+        container.replaceChildren(...PRAKRITI_QUESTIONS.map((question, index) => {
+            const fieldset = DOMHelper.createElement('fieldset', 'prakriti-question');
+            fieldset.appendChild(DOMHelper.createElement(
+                'legend', '', `${index + 1}. ${t(`prakriti.q.${question}` as MessageKey)}`
+            ));
+
+            DOSHAS.forEach(dosha => {
+                const option = DOMHelper.createElement('label', 'prakriti-option');
+                const input = DOMHelper.createElement('input');
+                input.type = 'radio';
+                input.name = question;
+                input.value = dosha;
+                input.checked = answers[question] === dosha;
+                option.append(input, t(`prakriti.q.${question}.${dosha}` as MessageKey));
+                fieldset.appendChild(option);
+            });
+
+            return fieldset;
+        }));
+    }
+
+    private handleSubmit(e: Event): void {
+        e.preventDefault();
+
+        const answers = this.getAnswers();
+        const unanswered = PRAKRITI_QUESTIONS.filter(question => !answers[question]);
+        if (unanswered.length > 0) {
+            this.showError(t('prakriti.incomplete', { count: unanswered.length }));
+            this.form?.querySelector<HTMLInputElement>(`input[name="${unanswered[0]}"]`)?.focus();
+            return;
+        }
+
+        this.result = scorePrakriti(answers);
+        this.renderResult(this.result);
+
+        const resultPanel = DOMHelper.getElementById('prakritiResult');
+        if (resultPanel) {
+            resultPanel.hidden = false;
+            resultPanel.focus();
+        }
+    }
+
+    private renderResult(result: PrakritiResult): void {
+        const title = DOMHelper.getElementById('prakritiResultTitle');
+        const chart = DOMHelper.getElementById('prakritiChart');
+        const description = DOMHelper.getElementById('prakritiDescription');
+        const suggestions = DOMHelper.getElementById('prakritiSuggestions');
+        const balanced = result.dominant.length === DOSHAS.length;
+
+        if (title) {
+            const type = balanced
+                ? t('prakriti.type.balanced')
+                : result.dominant.map(dosha => this.doshaName(dosha)).join('-');
+            title.textContent = t('prakriti.resultTitle', { type });
+        }
+
+        if (chart) {
+            chart.setAttribute('aria-label', t('prakriti.chartLabel', result.percentages));
+            chart.replaceChildren(...DOSHAS.flatMap(dosha => {
+                const track = DOMHelper.createElement('div', 'prakriti-bar-track');
+                const bar = DOMHelper.createElement('div', `prakriti-bar prakriti-bar-${dosha}`);
+                bar.style.width = `${result.percentages[dosha]}%`;
+                track.appendChild(bar);
+                return [
+                    DOMHelper.createElement('span', '', this.doshaName(dosha)),
+                    track,
+                    DOMHelper.createElement('span', '', `${result.percentages[dosha]}%`)
+                ];
+            }));
+        }
+
+        if (description) {
+            const keys: MessageKey[] = balanced
+                ? ['prakriti.about.balanced']
+                : result.dominant.map(dosha => `prakriti.about.${dosha}` as MessageKey);
+            description.replaceChildren(...keys.map(key => DOMHelper.createElement('p', '', t(key))));
+        }
+
+        if (suggestions) {
+            suggestions.replaceChildren(...result.suggestedServices.map(serviceId => {
+                const button = DOMHelper.createElement(
+                    'button',
+                    'btn btn-secondary',
+                    t('prakriti.book', { service: ClinicInfoRenderer.serviceName(serviceId) })
+                );
+                button.type = 'button';
+                button.addEventListener('click', () => this.onChooseService(serviceId, summarizePrakriti(result)));
+                return button;
+            }));
+        }
+    }
+
+    private retake(): void {
+        this.form?.reset();
+        this.result = null;
+
+        const resultPanel = DOMHelper.getElementById('prakritiResult');
+        if (resultPanel) resultPanel.hidden = true;
+        this.form?.querySelector<HTMLInputElement>('input[type="radio"]')?.focus();
+    }
+
+    private getAnswers(): PrakritiAnswers {
+        const answers: PrakritiAnswers = {};
+        if (!this.form) return answers;
+
+        const formData = new FormData(this.form);
+        PRAKRITI_QUESTIONS.forEach(question => {
+            const value = formData.get(question);
+            if (DOSHAS.includes(value as Dosha)) answers[question] = value as Dosha;
+        });
+        return answers;
+    }
+
+    private doshaName(dosha: Dosha): string {
+        return t(`prakriti.dosha.${dosha}` as MessageKey);
+    }
+
+    private showError(message: string): void {
+        const errorElement = DOMHelper.getElementById('prakritiError');
+        if (errorElement) errorElement.textContent = message;
+    }
 }
 
-interface ToastOptions {
-    message: string;
-    type: 'success' | 'error' | 'info';
-    duration?: number;
+// Manage My Booking
+// Patients look up a booking with its reference and phone number, then move
+// it into another free slot or cancel it, or review it once the visit is
+// over. Each session of a treatment course is its own booking, listed with the
+// others so any one of them can be moved. Checks mirror the booking form.
+class ManageBooking {
+    private static readonly FIELD_ELEMENT_IDS: Record<string, [string, string]> = {
+        reference: ['manageReference', 'manageReferenceError'],
+        phoneNumber: ['managePhone', 'managePhoneError'],
+        preferredDate: ['manageDate', 'manageDateError'],
+        preferredTime: ['manageTime', 'manageTimeError'],
+        reason: ['manageReason', 'manageReasonError'],
+        rating: ['manageRating1', 'manageRatingError'],
+        comment: ['manageComment', 'manageCommentError']
+    };
+
+    private static readonly STATUS_LABELS: Record<AppointmentStatus, MessageKey> = {
+        'pending': 'manage.status.pending',
+        'confirmed': 'manage.status.confirmed',
+        'cancelled': 'manage.status.cancelled',
+        'no-show': 'manage.status.no-show'
+    };
+
+    private lookupForm: HTMLFormElement | null;
+    private rescheduleForm: HTMLFormElement | null;
+    private cancelForm: HTMLFormElement | null;
+    private reviewForm: HTMLFormElement | null;
+    private bookingPanel: HTMLElement | null;
+    private toastManager: ToastManager;
+    private booking: PatientBooking | null = null;
+    private phoneNumber: string = '';
+    private slotRequestId: number = 0;
+
+    constructor(private readonly onOpenIntake: (booking: IntakeBooking, phoneNumber: string) => void) {
+        this.lookupForm = DOMHelper.getElementById<HTMLFormElement>('manageLookupForm');
+        this.rescheduleForm = DOMHelper.getElementById<HTMLFormElement>('manageRescheduleForm');
+        this.cancelForm = DOMHelper.getElementById<HTMLFormElement>('manageCancelForm');
+        this.reviewForm = DOMHelper.getElementById<HTMLFormElement>('manageReviewForm');
+        this.bookingPanel = DOMHelper.getElementById('manageBooking');
+        this.toastManager = ToastManager.getInstance();
+        this.initializeManageBooking();
+    }
+
+    private initializeManageBooking(): void {
+        if (!this.lookupForm) return;
+
+        this.lookupForm.addEventListener('submit', (e) => void this.handleLookup(e));
+        this.rescheduleForm?.addEventListener('submit', (e) => void this.handleReschedule(e));
+        this.cancelForm?.addEventListener('submit', (e) => void this.handleCancel(e));
+        this.reviewForm?.addEventListener('submit', (e) => void this.handleReview(e));
+
+        DOMHelper.getElementById('manageRescheduleToggle')?.addEventListener('click', () => this.showPanel('reschedule'));
+        DOMHelper.getElementById('manageCancelToggle')?.addEventListener('click', () => this.showPanel('cancel'));
+        DOMHelper.getElementById('manageReviewToggle')?.addEventListener('click', () => this.showPanel('review'));
+        this.renderRatingOptions();
+        DOMHelper.getElementById('manageReminders')?.addEventListener('change', () => void this.handleRemindersChange());
+        DOMHelper.getElementById('manageIntake')?.addEventListener('click', () => {
+            if (this.booking) this.onOpenIntake(this.booking, this.phoneNumber);
+        });
+
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('managePhone');
+        phoneInput?.addEventListener('input', () => {
+            phoneInput.value = phoneInput.value.replace(/\D/g, '').substring(0, 10);
+        });
+
+        const dateInput = DOMHelper.getElementById<HTMLInputElement>('manageDate');
+        if (dateInput) {
+            dateInput.setAttribute('min', ClinicCalendar.firstOpenDate(clinicNow().date));
+            dateInput.addEventListener('change', () => void this.refreshTimeSlots());
+        }
+    }
+
+    // From a #/manage/<reference> link: the reference is filled in, so ask for the phone number
+    prefill(reference: string): HTMLElement | null {
+        const referenceInput = DOMHelper.getElementById<HTMLInputElement>('manageReference');
+        if (referenceInput) referenceInput.value = reference.toUpperCase();
+        DOMHelper.getElementById('managePhone')?.focus({ preventScroll: true });
+        return DOMHelper.getElementById('manage');
+    }
+
+    private async handleLookup(e: Event): Promise<void> {
+        e.preventDefault();
+        this.clearErrors();
+
+        const reference = this.getValue('reference').trim().toUpperCase();
+        const phoneNumber = this.getValue('phoneNumber');
+        const errors: Record<string, string> = {};
+        const referenceError = FormValidator.validateReference(reference);
+        const phoneError = FormValidator.validatePhone(phoneNumber);
+        if (referenceError) errors.reference = referenceError;
+        if (phoneError) errors.phoneNumber = phoneError;
+
+        if (Object.keys(errors).length > 0) {
+            this.displayErrors(errors);
+            return;
+        }
+
+        await this.submit(this.lookupForm, async () => {
+            this.phoneNumber = phoneNumber.replace(/\D/g, '');
+            this.showBooking(await AppointmentApi.lookup(reference, this.phoneNumber));
+        });
+    }
+
+    private async handleReschedule(e: Event): Promise<void> {
+        e.preventDefault();
+        if (!this.booking) return;
+        this.clearErrors();
+
+        const preferredDate = this.getValue('preferredDate');
+        const preferredTime = this.getValue('preferredTime');
+        const errors: Record<string, string> = {};
+        const dateError = FormValidator.validateDate(preferredDate) || (preferredDate ? '' : t('validation.dateRequired'));
+        const timeError = FormValidator.validateTime(preferredDate, preferredTime);
+        if (dateError) errors.preferredDate = dateError;
+        if (timeError) errors.preferredTime = timeError;
+
+        if (Object.keys(errors).length > 0) {
+            this.displayErrors(errors);
+            return;
+        }
+
+        const reference = this.booking.reference;
+        await this.submit(this.rescheduleForm, async () => {
+            this.showBooking(await AppointmentApi.reschedule(reference, this.phoneNumber, preferredDate, preferredTime));
+            this.toastManager.show({
+                message: t('manage.moved'),
+                type: 'success',
+                duration: 8000
+            });
+        });
+    }
+
+    private async handleCancel(e: Event): Promise<void> {
+        e.preventDefault();
+        if (!this.booking) return;
+        this.clearErrors();
+
+        const reason = this.getValue('reason');
+        const reasonError = FormValidator.validateCancellationReason(reason);
+        if (reasonError) {
+            this.displayErrors({ reason: reasonError });
+            return;
+        }
+
+        const confirmed = await Dialog.confirm({
+            title: t('manage.cancelTitle'),
+            message: t('manage.confirmCancel', { reference: this.booking.reference }),
+            confirmLabel: t('manage.cancelSubmit'),
+            cancelLabel: t('manage.keepBooking'),
+            danger: true
+        });
+        if (!confirmed || !this.booking) return;
+
+        const reference = this.booking.reference;
+        await this.submit(this.cancelForm, async () => {
+            this.showBooking(await AppointmentApi.cancel(reference, this.phoneNumber, reason.trim()));
+            this.toastManager.show({ message: t('manage.cancelled'), type: 'success' });
+        });
+    }
+
+    private async handleReview(e: Event): Promise<void> {
+        e.preventDefault();
+        if (!this.booking) return;
+        this.clearErrors();
+
+        const rating = this.getRating();
+        const comment = this.getValue('comment');
+        const errors: Record<string, string> = {};
+        const ratingError = FormValidator.validateRating(rating);
+        const commentError = FormValidator.validateReviewComment(comment);
+        if (ratingError) errors.rating = ratingError;
+        if (commentError) errors.comment = commentError;
+
+        if (Object.keys(errors).length > 0) {
+            this.displayErrors(errors);
+            return;
+        }
+
+        const reference = this.booking.reference;
+        const showName = DOMHelper.getElementById<HTMLInputElement>('manageShowName')?.checked ?? false;
+        await this.submit(this.reviewForm, async () => {
+            this.showBooking(await AppointmentApi.submitReview(reference, this.phoneNumber, rating, comment.trim(), showName));
+            this.reviewForm?.reset();
+            this.updateRatingStars();
+            this.toastManager.show({
+                message: t('manage.reviewed'),
+                type: 'success',
+                duration: 8000
+            });
+        });
+    }
+
+    // The setting covers every booking made with this phone number
+    private async handleRemindersChange(): Promise<void> {
+        const checkbox = DOMHelper.getElementById<HTMLInputElement>('manageReminders');
+        if (!checkbox || !this.booking) return;
+
+        const enabled = checkbox.checked;
+        checkbox.disabled = true;
+
+        try {
+            this.booking = await AppointmentApi.setReminders(this.booking.reference, this.phoneNumber, enabled);
+            this.toastManager.show({
+                message: t(enabled ? 'manage.remindersOn' : 'manage.remindersOff'),
+                type: 'success'
+            });
+        } catch (error) {
+            checkbox.checked = !enabled;
+            this.toastManager.show({
+                message: error instanceof ApiError ? error.message : t('manage.unreachable'),
+                type: 'error'
+            });
+        } finally {
+            checkbox.disabled = false;
+        }
+    }
+
+    // Shared request handling: disable the button, show field errors from the API
+    private async submit(form: HTMLFormElement | null, action: () => Promise<void>): Promise<void> {
+        const submitButton = form?.querySelector<HTMLButtonElement>('button[type="submit"]');
+        if (submitButton) submitButton.disabled = true;
+
+        try {
+            await action();
+        } catch (error) {
+            if (error instanceof ApiError && Object.keys(error.errors).length > 0) {
+                this.displayErrors(error.errors);
+            }
+            this.toastManager.show({
+                message: error instanceof ApiError
+                    ? error.message
+                    : t('manage.unreachable'),
+                type: 'error'
+            });
+        } finally {
+            if (submitButton) submitButton.disabled = false;
+        }
+    }
+
+    // Re-render the booking summary and slot list after a language change
+    applyLocale(): void {
+        this.renderRatingOptions();
+        if (!this.booking) return;
+        this.renderSummary(this.booking);
+        this.renderCourse(this.booking);
+        if (this.rescheduleForm && !this.rescheduleForm.hidden) {
+            void this.refreshTimeSlots();
+        }
+    }
+
+    private showBooking(booking: PatientBooking): void {
+        this.booking = booking;
+        if (!this.bookingPanel) return;
+
+        this.renderSummary(booking);
+        this.renderCourse(booking);
+
+        const actions = DOMHelper.getElementById('manageActions');
+        if (actions) actions.hidden = !ManageBooking.canChange(booking);
+        const reviewActions = DOMHelper.getElementById('manageReviewActions');
+        if (reviewActions) reviewActions.hidden = !booking.canReview;
+
+        const remindersCheckbox = DOMHelper.getElementById<HTMLInputElement>('manageReminders');
+        if (remindersCheckbox) remindersCheckbox.checked = booking.remindersEnabled;
+
+        this.bookingPanel.hidden = false;
+        this.showPanel(null);
+        this.bookingPanel.focus();
+    }
+
+    private renderSummary(booking: PatientBooking): void {
+        const summary = DOMHelper.getElementById('manageSummary');
+        if (!summary) return;
+
+        const rows: [string, string][] = [
+            [t('manage.summaryReference'), booking.reference],
+            [t('manage.summaryStatus'), t(ManageBooking.STATUS_LABELS[booking.status])],
+            [t('manage.summaryService'), booking.serviceType
+                ? ClinicInfoRenderer.serviceName(booking.serviceType)
+                : t('manage.notSpecified')],
+            [t('manage.summaryDate'), booking.preferredDate
+                ? ClinicInfoRenderer.formatDate(booking.preferredDate)
+                : t('manage.notChosen')],
+            [t('manage.summaryTime'), booking.preferredTime ? this.describeTime(booking) : t('manage.notChosen')]
+        ];
+
+        summary.replaceChildren(...rows.flatMap(([label, value]) => [
+            DOMHelper.createElement('dt', '', label),
+            DOMHelper.createElement('dd', '', value)
+        ]));
+    }
+
+    // Only upcoming, active bookings can be changed online
+    private static canChange(booking: CourseSession): boolean {
+        return (booking.status === 'pending' || booking.status === 'confirmed')
+            && (!booking.preferredDate || booking.preferredDate >= clinicNow().date);
+    }
+
+    // Every session of the course, the one being viewed marked as current
+    private renderCourse(booking: PatientBooking): void {
+        const container = DOMHelper.getElementById('manageCourse');
+        const title = DOMHelper.getElementById('manageCourseTitle');
+        const list = DOMHelper.getElementById('manageCourseSessions');
+        if (!container || !title || !list) return;
+
+        const course = booking.course;
+        container.hidden = !course;
+        if (!course) {
+            list.replaceChildren();
+            return;
+        }
+
+        title.textContent = t('manage.courseTitle', { session: course.session, sessions: course.sessions });
+        list.replaceChildren(...course.bookings.map((session, index) => {
+            const item = DOMHelper.createElement('li', 'course-session');
+            if (session.reference === booking.reference) item.setAttribute('aria-current', 'true');
+
+            const details = [
+                t('manage.courseSession', { session: index + 1 }),
+                ClinicInfoRenderer.formatDate(session.preferredDate),
+                I18n.formatTime(session.preferredTime),
+                t(ManageBooking.STATUS_LABELS[session.status])
+            ];
+            item.appendChild(DOMHelper.createElement('span', '', details.join(' · ')));
+
+            if (ManageBooking.canChange(session)) {
+                const button = DOMHelper.createElement('button', 'btn btn-secondary course-session-change', t('manage.changeSession'));
+                button.type = 'button';
+                button.setAttribute('aria-label', t('manage.changeSessionLabel', { session: index + 1 }));
+                button.addEventListener('click', () => void this.openSession(session.reference));
+                item.appendChild(button);
+            }
+            return item;
+        }));
+    }
+
+    // Switches to another session of the course (same phone number) and opens its reschedule panel
+    private async openSession(reference: string): Promise<void> {
+        await this.submit(null, async () => {
+            this.showBooking(await AppointmentApi.lookup(reference, this.phoneNumber));
+            const dateInput = DOMHelper.getElementById<HTMLInputElement>('manageDate');
+            if (dateInput) dateInput.value = '';
+            this.showPanel('reschedule');
+        });
+    }
+
+    private showPanel(panel: 'reschedule' | 'cancel' | 'review' | null): void {
+        if (this.rescheduleForm) this.rescheduleForm.hidden = panel !== 'reschedule';
+        if (this.cancelForm) this.cancelForm.hidden = panel !== 'cancel';
+        if (this.reviewForm) this.reviewForm.hidden = panel !== 'review';
+
+        if (panel === 'reschedule') {
+            const dateInput = DOMHelper.getElementById<HTMLInputElement>('manageDate');
+            if (dateInput && !dateInput.value && this.booking?.preferredDate) {
+                dateInput.value = this.booking.preferredDate;
+            }
+            void this.refreshTimeSlots();
+            dateInput?.focus();
+        } else if (panel === 'cancel') {
+            DOMHelper.getElementById('manageReason')?.focus();
+        } else if (panel === 'review') {
+            DOMHelper.getElementById('manageRating1')?.focus();
+        }
+    }
+
+    // Five radio buttons drawn as stars, each with its number for screen readers
+    private renderRatingOptions(): void {
+        const container = DOMHelper.getElementById('manageRating');
+        if (!container) return;
+
+        const selected = this.getRating();
+        container.replaceChildren(...[1, 2, 3, 4, 5].map(value => {
+            const label = DOMHelper.createElement('label', 'rating-option');
+            const input = DOMHelper.createElement('input');
+            input.type = 'radio';
+            input.name = 'rating';
+            input.value = String(value);
+            input.id = `manageRating${value}`;
+            input.checked = value === selected;
+            input.addEventListener('change', () => this.updateRatingStars());
+
+            const star = DOMHelper.createElement('span', 'rating-star', '\u2605');
+            star.setAttribute('aria-hidden', 'true');
+            label.append(input, star, DOMHelper.createElement('span', 'visually-hidden', t('review.stars', { rating: value })));
+            return label;
+        }));
+        this.updateRatingStars();
+    }
+
+    // 0 until a star is chosen
+    private getRating(): number {
+        const checked = DOMHelper.querySelector<HTMLInputElement>('#manageRating input:checked');
+        return checked ? Number(checked.value) : 0;
+    }
+
+    // Lights up the chosen star and every star before it
+    private updateRatingStars(): void {
+        const rating = this.getRating();
+        DOMHelper.querySelectorAll('#manageRating .rating-option').forEach((option, index) => {
+            if (index < rating) {
+                DOMHelper.addClass(option, 'selected');
+            } else {
+                DOMHelper.removeClass(option, 'selected');
+            }
+        });
+    }
+
+    private async refreshTimeSlots(): Promise<void> {
+        const timeSelect = DOMHelper.getElementById<HTMLSelectElement>('manageTime');
+        if (!timeSelect || !this.booking) return;
+
+        const date = this.getValue('preferredDate');
+        const requestId = ++this.slotRequestId;
+
+        const dateError = FormValidator.validateDate(date);
+        const errorElement = DOMHelper.getElementById('manageDateError');
+        if (errorElement) errorElement.textContent = dateError;
+
+        if (!date || dateError) {
+            renderSlotOptions(timeSelect, [], t('slots.selectDateFirst'));
+            return;
+        }
+
+        renderSlotOptions(timeSelect, [], t('slots.loading'));
+        timeSelect.disabled = true;
+
+        try {
+            const availability = await AppointmentApi.getBookingAvailability(this.booking.reference, this.phoneNumber, date);
+            if (requestId !== this.slotRequestId) return;
+
+            renderSlotOptions(
+                timeSelect,
+                availability.slots,
+                availability.slots.length > 0 ? t('slots.select') : t('slots.none')
+            );
+        } catch (error) {
+            if (requestId !== this.slotRequestId) return;
+            console.error('Could not load availability:', error);
+            renderSlotOptions(timeSelect, [], t('slots.loadFailed'));
+        } finally {
+            if (requestId === this.slotRequestId) timeSelect.disabled = false;
+        }
+    }
+
+    private describeTime(booking: PatientBooking): string {
+        const end = fromMinutes(toMinutes(booking.preferredTime) + booking.durationMinutes);
+        return `${I18n.formatTime(booking.preferredTime)} - ${I18n.formatTime(end)}`;
+    }
+
+    private getValue(field: string): string {
+        const [inputId] = ManageBooking.FIELD_ELEMENT_IDS[field] || [];
+        const input = inputId ? DOMHelper.getElementById<HTMLInputElement>(inputId) : null;
+        return input?.value || '';
+    }
+
+    private clearErrors(): void {
+        Object.values(ManageBooking.FIELD_ELEMENT_IDS).forEach(([inputId, errorId]) => {
+            const input = DOMHelper.getElementById(inputId);
+            const errorElement = DOMHelper.getElementById(errorId);
+            if (input) DOMHelper.removeClass(input, 'error');
+            if (errorElement) errorElement.textContent = '';
+        });
+    }
+
+    private displayErrors(errors: Record<string, string>): void {
+        let firstErrorInput: HTMLElement | null = null;
+
+        for (const [field, message] of Object.entries(errors)) {
+            const [inputId, errorId] = ManageBooking.FIELD_ELEMENT_IDS[field] || [];
+            const input = inputId ? DOMHelper.getElementById(inputId) : null;
+            const errorElement = errorId ? DOMHelper.getElementById(errorId) : null;
+
+            if (errorElement) errorElement.textContent = message;
+            if (input) {
+                DOMHelper.addClass(input, 'error');
+                firstErrorInput = firstErrorInput || input;
+            }
+        }
+
+        firstErrorInput?.focus();
+    }
 }
 
-// DOM Helper Functions
-class DOMHelper {
-    static getElementById<T extends HTMLElement>(id: string): T | null {
-        return document.getElementById(id) as T | null;
+// Waitlist Offer
+// The link in an offer message opens #/offer/<token>: the slot held for the
+// patient, with buttons to take it or let it go to the next patient while the
+// offer is open. Declining keeps the patient on the waitlist for other slots.
+class WaitlistOfferPage {
+    private static readonly STATUS_LABELS: Record<WaitlistOfferView['status'], MessageKey> = {
+        'open': 'offer.status.open',
+        'accepted': 'offer.status.accepted',
+        'declined': 'offer.status.declined',
+        'expired': 'offer.status.expired'
+    };
+
+    private section: HTMLElement | null;
+    private toastManager: ToastManager;
+    private token: string = '';
+    private offer: WaitlistOfferView | null = null;
+    private errorKey: MessageKey | null = null;
+
+    constructor(router: Router) {
+        this.section = DOMHelper.getElementById('offer');
+        this.toastManager = ToastManager.getInstance();
+
+        router.add({
+            name: 'offer',
+            path: '/offer/:token',
+            enter: ({ token }) => this.open(token ?? ''),
+            leave: () => this.close()
+        });
+        DOMHelper.getElementById('offerAccept')?.addEventListener('click', () => void this.answer('accept'));
+        DOMHelper.getElementById('offerDecline')?.addEventListener('click', () => void this.answer('decline'));
     }
 
-    static querySelector<T extends HTMLElement>(selector: string): T | null {
-        return document.querySelector(selector) as T | null;
+    applyLocale(): void {
+        this.render();
     }
 
-    static querySelectorAll<T extends HTMLElement>(selector: string): NodeListOf<T> {
-        return document.querySelectorAll(selector) as NodeListOf<T>;
+    private open(token: string): HTMLElement | null {
+        if (!this.section) return null;
+
+        this.token = token;
+        this.offer = null;
+        this.errorKey = null;
+        this.section.hidden = false;
+        this.render();
+        void this.load();
+        return this.section;
     }
 
-    static addClass(element: HTMLElement, className: string): void {
-        element.classList.add(className);
+    private close(): void {
+        if (this.section) this.section.hidden = true;
+        this.token = '';
+        this.offer = null;
     }
 
-    static removeClass(element: HTMLElement, className: string): void {
-        element.classList.remove(className);
+    private async load(): Promise<void> {
+        const token = this.token;
+        let offer: WaitlistOfferView | null = null;
+        let errorKey: MessageKey | null = null;
+
+        try {
+            offer = await AppointmentApi.getOffer(token);
+        } catch (error) {
+            console.error('Could not load the waitlist offer:', error);
+            errorKey = error instanceof ApiError && error.status === 404 ? 'offer.notFound' : 'offer.unreachable';
+        }
+
+        // Another offer link was opened while this one loaded
+        if (token !== this.token) return;
+        this.offer = offer;
+        this.errorKey = errorKey;
+        this.render();
     }
 
-    static toggleClass(element: HTMLElement, className: string): void {
-        element.classList.toggle(className);
+    private render(): void {
+        const status = DOMHelper.getElementById('offerStatus');
+        const summary = DOMHelper.getElementById('offerSummary');
+        const actions = DOMHelper.getElementById('offerActions');
+        if (!status || !summary || !actions) return;
+
+        const offer = this.offer;
+        actions.hidden = offer?.status !== 'open';
+        if (!offer) {
+            status.textContent = t(this.errorKey ?? 'offer.loading');
+            summary.replaceChildren();
+            return;
+        }
+
+        status.textContent = t(WaitlistOfferPage.STATUS_LABELS[offer.status], {
+            time: I18n.formatTime(fromMinutes(clinicNow(new Date(offer.expiresAt)).minutes)),
+            reference: offer.reference ?? ''
+        });
+
+        const rows: [string, string][] = [
+            [t('offer.summaryName'), offer.patientName],
+            [t('manage.summaryService'), ClinicInfoRenderer.serviceName(offer.serviceType)],
+            [t('manage.summaryDate'), ClinicInfoRenderer.formatDate(offer.date)],
+            [t('manage.summaryTime'), describeTimeSlot({
+                serviceType: offer.serviceType,
+                preferredDate: offer.date,
+                preferredTime: offer.time
+            })]
+        ];
+        if (offer.reference) rows.unshift([t('manage.summaryReference'), offer.reference]);
+
+        summary.replaceChildren(...rows.flatMap(([label, value]) => [
+            DOMHelper.createElement('dt', '', label),
+            DOMHelper.createElement('dd', '', value)
+        ]));
     }
 
-    static hasClass(element: HTMLElement, className: string): boolean {
-        return element.classList.contains(className);
+    private async answer(answer: 'accept' | 'decline'): Promise<void> {
+        const buttons = ['offerAccept', 'offerDecline']
+            .map(id => DOMHelper.getElementById<HTMLButtonElement>(id))
+            .filter((button): button is HTMLButtonElement => button !== null);
+        buttons.forEach(button => { button.disabled = true; });
+
+        try {
+            this.offer = await AppointmentApi.answerOffer(this.token, answer);
+            this.render();
+            if (this.offer.reference) {
+                Analytics.track('booking_complete', 'waitlist');
+                this.toastManager.show({
+                    message: t('toast.bookingSaved', { reference: this.offer.reference }),
+                    type: 'success',
+                    duration: 8000
+                });
+            }
+        } catch (error) {
+            console.error('Could not answer the waitlist offer:', error);
+            this.toastManager.show({
+                message: error instanceof ApiError ? error.message : t('offer.unreachable'),
+                type: 'error'
+            });
+            // The offer may have lapsed or been answered elsewhere
+            if (error instanceof ApiError) void this.load();
+        } finally {
+            buttons.forEach(button => { button.disabled = false; });
+        }
     }
 }
 
-// Form Validation
-class FormValidator {
-    private static readonly PHONE_REGEX = /^[6-9]\d{9}$/;
+// Health Questionnaire
+// An optional step-by-step intake, offered after booking and from Manage My
+// Booking. Answers are kept on this device as they are typed and saved to the
+// booking after every step, so a patient can stop and pick up where they left off.
+class IntakeWizard {
+    private static readonly FIELD_ELEMENT_IDS: Record<keyof IntakeAnswers, [string, string]> = {
+        complaints: ['intakeComplaints', 'intakeComplaintsError'],
+        complaintDuration: ['intakeDuration', 'intakeDurationError'],
+        conditions: ['intakeConditions', 'intakeConditionsError'],
+        otherConditions: ['intakeOtherConditions', 'intakeOtherConditionsError'],
+        medications: ['intakeMedications', 'intakeMedicationsError'],
+        allergies: ['intakeAllergies', 'intakeAllergiesError'],
+        pregnancyStatus: ['intakePregnancy', 'intakePregnancyError'],
+        priorTreatment: ['intakePriorTreatment', 'intakePriorError'],
+        priorTreatmentDetails: ['intakePriorDetails', 'intakePriorDetailsError']
+    };
+
+    private section: HTMLElement | null;
+    private form: HTMLFormElement | null;
+    private toastManager: ToastManager;
+    private booking: IntakeBooking | null = null;
+    private phoneNumber: string = '';
+    // INTAKE_STEPS.length is the review step
+    private stepIndex: number = 0;
+    private submittedAt: string = '';
+
+    constructor() {
+        this.section = DOMHelper.getElementById('intake');
+        this.form = DOMHelper.getElementById<HTMLFormElement>('intakeForm');
+        this.toastManager = ToastManager.getInstance();
+        this.initializeWizard();
+    }
+
+    private initializeWizard(): void {
+        if (!this.form) return;
+
+        this.renderOptions();
+        this.form.addEventListener('submit', (e) => void this.handleNext(e));
+        this.form.addEventListener('input', () => this.saveDraft());
+        this.form.addEventListener('change', (e) => {
+            this.saveDraft();
+            const field = (e.target as HTMLInputElement).name as keyof IntakeAnswers;
+            if (field in IntakeWizard.FIELD_ELEMENT_IDS) this.clearError(field);
+            if (field === 'priorTreatment') this.togglePriorDetails();
+        });
+
+        DOMHelper.getElementById('intakeBack')?.addEventListener('click', () => this.showStep(this.stepIndex - 1));
+        DOMHelper.getElementById('intakePrint')?.addEventListener('click', () => this.print());
+        DOMHelper.getElementById('intakeLater')?.addEventListener('click', () => this.close());
+    }
+
+    // Loads saved answers for the booking and resumes at the first unfinished step
+    async open(booking: IntakeBooking, phoneNumber: string): Promise<void> {
+        if (!this.section || !this.form) return;
+
+        this.booking = booking;
+        this.phoneNumber = phoneNumber;
+
+        let intake: PatientIntake | null = null;
+        try {
+            intake = await AppointmentApi.getIntake(booking.reference, phoneNumber);
+        } catch (error) {
+            console.error('Could not load the health questionnaire:', error);
+        }
+
+        // Answers typed on this device since the last save win
+        const draft = IntakeDraftStore.get(booking.reference);
+        const answers = draft && (!intake || draft.savedAt > intake.updatedAt)
+            ? draft.answers
+            : intake?.answers ?? emptyIntakeAnswers();
+
+        this.form.reset();
+        this.fill(answers);
+        this.submittedAt = intake?.submittedAt ?? '';
+        this.renderBooking();
+
+        const nextStep = INTAKE_STEPS.findIndex(step => !intake?.completedSteps.includes(step));
+        this.section.hidden = false;
+        this.showStep(nextStep === -1 ? INTAKE_STEPS.length : nextStep);
+    }
+
+    // Re-render option labels, progress and summary after a language change
+    applyLocale(): void {
+        if (!this.form) return;
+
+        const answers = this.getAnswers();
+        this.renderOptions();
+        this.fill(answers);
+        if (this.booking) {
+            this.renderBooking();
+            this.renderStep();
+        }
+    }
+
+    private renderOptions(): void {
+        const durationSelect = DOMHelper.getElementById<HTMLSelectElement>('intakeDuration');
+        if (durationSelect) {
+            durationSelect.replaceChildren(
+                new Option(t('intake.choose'), ''),
+                ...COMPLAINT_DURATIONS.map(id => new Option(intakeOptionLabel('complaintDuration', id), id))
+            );
+        }
+
+        this.renderChoices('intakeConditions', 'conditions', INTAKE_CONDITIONS, 'checkbox');
+        this.renderChoices('intakePregnancy', 'pregnancyStatus', PREGNANCY_STATUSES, 'radio');
+        this.renderChoices('intakePriorTreatment', 'priorTreatment', PRIOR_TREATMENT_OPTIONS, 'radio');
+    }
+
+    private renderChoices(containerId: string, field: keyof IntakeAnswers, options: string[], type: 'checkbox' | 'radio'): void {
+        const container = DOMHelper.getElementById(containerId);
+        if (!container) return;
+
+        container.replaceChildren(...options.map(id => {
+            const option = DOMHelper.createElement('label', 'form-check intake-option');
+            const input = DOMHelper.createElement('input');
+            input.type = type;
+            input.name = field;
+            input.value = id;
+            option.append(input, intakeOptionLabel(field, id));
+            return option;
+        }));
+    }
+
+    private showStep(index: number): void {
+        this.stepIndex = Math.max(0, Math.min(index, INTAKE_STEPS.length));
+        this.renderStep();
+
+        const step = this.form?.querySelector<HTMLElement>('.intake-step:not([hidden])');
+        const firstField = step?.querySelector<HTMLElement>('input, select, textarea');
+        (firstField ?? DOMHelper.getElementById('intakeTitle'))?.focus({ preventScroll: true });
+        this.section?.scrollIntoView({ behavior: 'smooth' });
+    }
+
+    private renderStep(): void {
+        const reviewing = this.stepIndex === INTAKE_STEPS.length;
+        const currentStep = reviewing ? 'review' : INTAKE_STEPS[this.stepIndex];
 
-    static validateName(name: string): string {
-        const trimmedName = name.trim();
-        if (trimmedName.length === 0) {
-            return 'Name is required';
+        this.form?.querySelectorAll<HTMLElement>('.intake-step').forEach(step => {
+            step.hidden = step.dataset.step !== currentStep;
+        });
+        this.togglePriorDetails();
+
+        const progress = DOMHelper.getElementById('intakeProgress');
+        if (progress) {
+            const labels = [...INTAKE_STEPS.map(step => t(`intake.step.${step}` as MessageKey)), t('intake.step.review')];
+            progress.replaceChildren(...labels.map((label, index) => {
+                const item = DOMHelper.createElement('li', index < this.stepIndex ? 'done' : '', label);
+                if (index === this.stepIndex) item.setAttribute('aria-current', 'step');
+                return item;
+            }));
         }
-        if (trimmedName.length < 2) {
-            return 'Name must be at least 2 characters';
+
+        const backButton = DOMHelper.getElementById<HTMLButtonElement>('intakeBack');
+        const nextButton = DOMHelper.getElementById<HTMLButtonElement>('intakeNext');
+        const printButton = DOMHelper.getElementById<HTMLButtonElement>('intakePrint');
+        if (backButton) backButton.hidden = this.stepIndex === 0;
+        if (printButton) printButton.hidden = !reviewing;
+        if (nextButton) {
+            nextButton.textContent = !reviewing
+                ? t('intake.next')
+                : this.submittedAt ? t('intake.resubmit') : t('intake.submit');
         }
-        if (!/^[a-zA-Z\s.]+$/.test(trimmedName)) {
-            return 'Name can only contain letters, spaces, and periods';
+
+        if (reviewing) this.renderSummary();
+    }
+
+    private renderSummary(): void {
+        const container = DOMHelper.getElementById('intakeSummary');
+        const hint = DOMHelper.getElementById('intakeReviewHint');
+        if (!container || !this.booking) return;
+
+        container.replaceChildren(renderIntakeSummary(this.booking, this.getAnswers(), this.submittedAt || undefined));
+        if (hint) hint.textContent = this.submittedAt ? t('intake.submittedHint') : t('intake.reviewHint');
+    }
+
+    private renderBooking(): void {
+        const bookingLine = DOMHelper.getElementById('intakeBooking');
+        if (bookingLine && this.booking) {
+            bookingLine.textContent = t('intake.forBooking', {
+                name: this.booking.patientName,
+                reference: this.booking.reference
+            });
         }
-        return '';
     }
 
-    static validatePhone(phone: string): string {
-        const cleanPhone = phone.replace(/\D/g, '');
-        if (cleanPhone.length === 0) {
-            return 'Phone number is required';
+    private async handleNext(e: Event): Promise<void> {
+        e.preventDefault();
+        if (!this.booking) return;
+
+        const answers = this.getAnswers();
+        const reviewing = this.stepIndex === INTAKE_STEPS.length;
+        const step: IntakeStep | '' = reviewing ? '' : INTAKE_STEPS[this.stepIndex] ?? '';
+        const validation = step ? IntakeValidator.validateStep(step, answers) : IntakeValidator.validateAll(answers);
+
+        if (!validation.isValid) {
+            this.showErrors(validation.errors);
+            return;
+        }
+
+        const nextButton = DOMHelper.getElementById<HTMLButtonElement>('intakeNext');
+        if (nextButton) nextButton.disabled = true;
+
+        try {
+            const intake = await AppointmentApi.saveIntake(
+                this.booking.reference, this.phoneNumber, answers, step, reviewing
+            );
+
+            if (reviewing) {
+                this.submittedAt = intake.submittedAt ?? '';
+                IntakeDraftStore.clear(this.booking.reference);
+                this.toastManager.show({ message: t('intake.submitted'), type: 'success', duration: 8000 });
+                this.renderStep();
+                return;
+            }
+            this.showStep(this.stepIndex + 1);
+        } catch (error) {
+            if (error instanceof ApiError && Object.keys(error.errors).length > 0) {
+                this.showErrors(error.errors);
+                return;
+            }
+
+            // Unreachable - the answers stay on this device; only sending needs the connection
+            if (!(error instanceof ApiError) && !reviewing) {
+                this.toastManager.show({ message: t('intake.savedOnDevice'), type: 'info' });
+                this.showStep(this.stepIndex + 1);
+                return;
+            }
+
+            this.toastManager.show({
+                message: error instanceof ApiError ? error.message : t('intake.unreachable'),
+                type: 'error'
+            });
+        } finally {
+            if (nextButton) nextButton.disabled = false;
         }
-        if (!this.PHONE_REGEX.test(cleanPhone)) {
-            return 'Please enter a valid 10-digit Indian mobile number';
+    }
+
+    private print(): void {
+        const summary = DOMHelper.getElementById('intakeSummary')?.firstElementChild;
+        if (summary instanceof HTMLElement) printIntakeSummary(summary);
+    }
+
+    private close(): void {
+        if (this.section) this.section.hidden = true;
+        DOMHelper.getElementById('book')?.scrollIntoView({ behavior: 'smooth' });
+        if (!this.submittedAt) {
+            this.toastManager.show({ message: t('intake.finishLater'), type: 'info', duration: 8000 });
         }
-        return '';
     }
 
-    static validateDate(dateString: string): string {
-        if (!dateString) {
-            return ''; // Date is optional
-        }
+    private saveDraft(): void {
+        if (this.booking) IntakeDraftStore.save(this.booking.reference, this.getAnswers());
+    }
+
+    private getAnswers(): IntakeAnswers {
+        const answers = emptyIntakeAnswers();
+        if (!this.form) return answers;
+
+        const formData = new FormData(this.form);
+        (Object.keys(answers) as (keyof IntakeAnswers)[]).forEach(field => {
+            if (field === 'conditions') {
+                answers.conditions = formData.getAll(field).map(String);
+            } else {
+                answers[field] = String(formData.get(field) ?? '');
+            }
+        });
+        return answers;
+    }
+
+    private fill(answers: IntakeAnswers): void {
+        if (!this.form) return;
+
+        (Object.keys(answers) as (keyof IntakeAnswers)[]).forEach(field => {
+            const value = answers[field];
+            this.form?.querySelectorAll<HTMLInputElement>(`[name="${field}"]`).forEach(input => {
+                if (input.type === 'checkbox' || input.type === 'radio') {
+                    input.checked = Array.isArray(value) ? value.includes(input.value) : value === input.value;
+                } else {
+                    input.value = Array.isArray(value) ? value.join(', ') : value;
+                }
+            });
+        });
+        this.togglePriorDetails();
+    }
+
+    // Details are only asked for after a "yes"
+    private togglePriorDetails(): void {
+        const detailsGroup = DOMHelper.getElementById('intakePriorDetailsGroup');
+        const answered = this.form?.querySelector<HTMLInputElement>('input[name="priorTreatment"]:checked');
+        if (detailsGroup) detailsGroup.hidden = answered?.value !== 'yes';
+    }
 
-        const selectedDate = new Date(dateString);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+    private clearError(field: keyof IntakeAnswers): void {
+        const [inputId, errorId] = IntakeWizard.FIELD_ELEMENT_IDS[field];
+        const input = DOMHelper.getElementById(inputId);
+        const errorElement = DOMHelper.getElementById(errorId);
+        if (input) DOMHelper.removeClass(input, 'error');
+        if (errorElement) errorElement.textContent = '';
+    }
 
-        if (selectedDate < today) {
-            return 'Please select a future date';
-        }
+    private showErrors(errors: Record<string, string>): void {
+        (Object.keys(IntakeWizard.FIELD_ELEMENT_IDS) as (keyof IntakeAnswers)[]).forEach(field => this.clearError(field));
 
-        // Check if it's Sunday and no time is selected for "by appointment"
-        const dayOfWeek = selectedDate.getDay();
-        if (dayOfWeek === 0) {
-            return 'Sundays are by appointment only - please call to schedule';
+        // Server errors can point at an earlier step - go back to it
+        const firstField = Object.keys(errors)[0] as keyof IntakeAnswers | undefined;
+        const errorStep = INTAKE_STEPS.findIndex(step => firstField && INTAKE_STEP_FIELDS[step].includes(firstField));
+        if (errorStep !== -1 && errorStep !== this.stepIndex) {
+            this.stepIndex = errorStep;
+            this.renderStep();
         }
 
-        return '';
-    }
-
-    static validateForm(formData: AppointmentFormData): ValidationResult {
-        const errors: Record<string, string> = {};
-
-        errors.patientName = this.validateName(formData.patientName);
-        errors.phoneNumber = this.validatePhone(formData.phoneNumber);
-        errors.preferredDate = this.validateDate(formData.preferredDate);
+        let firstErrorInput: HTMLElement | null = null;
+        for (const [field, message] of Object.entries(errors)) {
+            const [inputId, errorId] = IntakeWizard.FIELD_ELEMENT_IDS[field as keyof IntakeAnswers] || [];
+            const input = inputId ? DOMHelper.getElementById(inputId) : null;
+            const errorElement = errorId ? DOMHelper.getElementById(errorId) : null;
 
-        // Clean up empty error messages
-        Object.keys(errors).forEach(key => {
-            if (!errors[key]) {
-                delete errors[key];
+            if (errorElement) errorElement.textContent = message;
+            if (input) {
+                DOMHelper.addClass(input, 'error');
+                firstErrorInput = firstErrorInput || input;
             }
-        });
+        }
 
-        return {
-            isValid: Object.keys(errors).length === 0,
-            errors
-        };
+        // Option groups focus their first choice
+        const focusTarget = firstErrorInput?.matches('input, select, textarea')
+            ? firstErrorInput
+            : firstErrorInput?.querySelector<HTMLElement>('input');
+        focusTarget?.focus();
     }
 }
 
-// Toast Notification System
-class ToastManager {
-    private static instance: ToastManager;
-    private toastElement: HTMLElement | null = null;
-    private messageElement: HTMLElement | null = null;
-    private closeButton: HTMLElement | null = null;
+// Privacy Notice and Data Requests
+// Renders the retention period from config and lets a patient who verifies
+// their phone number download or erase everything held against it.
+class PrivacyCenter {
+    private toastManager: ToastManager;
+    private phoneVerification: PhoneVerification;
 
     constructor() {
-        this.initializeToast();
+        this.toastManager = ToastManager.getInstance();
+        this.phoneVerification = new PhoneVerification('privacyPhone', 'privacyOtp');
+        this.initialize();
     }
 
-    static getInstance(): ToastManager {
-        if (!ToastManager.instance) {
-            ToastManager.instance = new ToastManager();
-        }
-        return ToastManager.instance;
-    }
+    private initialize(): void {
+        this.renderNotice();
 
-    private initializeToast(): void {
-        this.toastElement = DOMHelper.getElementById('toast');
-        this.messageElement = DOMHelper.getElementById('toastMessage');
-        this.closeButton = DOMHelper.getElementById('toastClose');
+        DOMHelper.getElementById('privacyForm')?.addEventListener('submit', (e) => e.preventDefault());
+        DOMHelper.getElementById('privacyExport')?.addEventListener('click', () => void this.exportData());
+        DOMHelper.getElementById('privacyErase')?.addEventListener('click', () => void this.eraseData());
 
-        if (this.closeButton) {
-            this.closeButton.addEventListener('click', () => this.hide());
-        }
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('privacyPhone');
+        phoneInput?.addEventListener('input', () => {
+            phoneInput.value = phoneInput.value.replace(/\D/g, '').slice(0, 10);
+        });
     }
 
-    show(options: ToastOptions): void {
-        if (!this.toastElement || !this.messageElement) return;
-
-        this.messageElement.textContent = options.message;
-        
-        // Set toast color based on type
-        this.toastElement.style.background = options.type === 'error' 
-            ? 'var(--color-error)' 
-            : 'var(--color-success)';
-
-        DOMHelper.addClass(this.toastElement, 'show');
-
-        // Auto-hide after duration
-        const duration = options.duration || 5000;
-        setTimeout(() => this.hide(), duration);
+    applyLocale(): void {
+        this.renderNotice();
+        this.phoneVerification.render();
     }
 
-    hide(): void {
-        if (this.toastElement) {
-            DOMHelper.removeClass(this.toastElement, 'show');
+    private renderNotice(): void {
+        const days = clinicConfig.privacy.retentionDays;
+        const retention = DOMHelper.getElementById('privacyRetention');
+        const version = DOMHelper.getElementById('privacyVersion');
+        if (retention) {
+            retention.textContent = days % 365 === 0
+                ? t('privacy.retentionYears', { years: days / 365 })
+                : t('privacy.retentionDays', { days });
         }
+        if (version) version.textContent = t('privacy.version', { version: PRIVACY_NOTICE_VERSION });
     }
-}
 
-// Smooth Scroll Router
-class Router {
-    private navLinks: NodeListOf<HTMLAnchorElement>;
+    private async exportData(): Promise<void> {
+        const owner = this.verifiedOwner();
+        if (!owner) return;
 
-    constructor() {
-        this.navLinks = DOMHelper.querySelectorAll<HTMLAnchorElement>('.nav-link');
-        this.initializeRouter();
+        await this.run('privacyExport', async () => {
+            const data = await AppointmentApi.exportData(owner.phoneNumber, owner.token);
+            const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+            const link = DOMHelper.createElement('a');
+            link.href = url;
+            link.download = `aayurcure-my-data-${clinicNow().date}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+
+            this.toastManager.show({
+                message: t('privacy.exported', { count: data.appointments.length }),
+                type: 'success'
+            });
+        });
     }
 
-    private initializeRouter(): void {
-        this.navLinks.forEach(link => {
-            link.addEventListener('click', (e) => this.handleNavClick(e));
+    private async eraseData(): Promise<void> {
+        const owner = this.verifiedOwner();
+        if (!owner) return;
+
+        const confirmed = await Dialog.confirm({
+            title: t('privacy.eraseTitle'),
+            message: t('privacy.eraseConfirm', { phone: owner.phoneNumber }),
+            confirmLabel: t('privacy.eraseSubmit'),
+            cancelLabel: t('privacy.keepData'),
+            danger: true
         });
+        if (!confirmed) return;
 
-        // Handle hash changes (back/forward navigation)
-        window.addEventListener('hashchange', () => this.handleHashChange());
-        
-        // Handle initial load with hash
-        if (window.location.hash) {
-            this.handleHashChange();
-        }
+        await this.run('privacyErase', async () => {
+            const result = await AppointmentApi.eraseData(owner.phoneNumber, owner.token);
+            this.toastManager.show({
+                message: t('privacy.erased', { count: result.erasedBookings }),
+                type: 'success',
+                duration: 8000
+            });
+        });
     }
 
-    private handleNavClick(e: Event): void {
-        e.preventDefault();
-        const link = e.currentTarget as HTMLAnchorElement;
-        const targetId = link.getAttribute('href');
-        
-        if (targetId && targetId.startsWith('#')) {
-            this.navigateToSection(targetId.substring(1));
+    // Null after asking the patient to verify the number first
+    private verifiedOwner(): { phoneNumber: string; token: string } | null {
+        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('privacyPhone');
+        const phoneNumber = (phoneInput?.value || '').replace(/\D/g, '');
+        const token = this.phoneVerification.getToken(phoneNumber);
+        if (!token) {
+            this.phoneVerification.requireVerification();
+            return null;
         }
+        return { phoneNumber, token };
     }
 
-    private handleHashChange(): void {
-        const hash = window.location.hash.substring(1);
-        if (hash) {
-            this.scrollToSection(hash);
+    private async run(buttonId: string, request: () => Promise<void>): Promise<void> {
+        const button = DOMHelper.getElementById<HTMLButtonElement>(buttonId);
+        if (button) button.disabled = true;
+
+        try {
+            await request();
+        } catch (error) {
+            console.error('Privacy request failed:', error);
+
+            // The verification has lapsed on the server - ask for a new code
+            if (error instanceof ApiError && error.status === 403) {
+                this.phoneVerification.reset();
+                this.phoneVerification.requireVerification();
+                return;
+            }
+            this.toastManager.show({
+                message: error instanceof ApiError ? error.message : t('privacy.requestFailed'),
+                type: 'error'
+            });
+        } finally {
+            if (button) button.disabled = false;
         }
     }
+}
+
+// Analytics Consent Banner
+// Shown until the visitor answers under the current privacy notice; the
+// privacy section can bring it back to change the answer.
+class ConsentBanner {
+    private banner: HTMLElement | null;
 
-    private navigateToSection(sectionId: string): void {
-        // Update URL hash
-        history.pushState(null, '', `#${sectionId}`);
-        this.scrollToSection(sectionId);
+    constructor() {
+        this.banner = DOMHelper.getElementById('consentBanner');
+        this.initialize();
     }
 
-    private scrollToSection(sectionId: string): void {
-        const targetElement = DOMHelper.getElementById(sectionId);
-        if (targetElement) {
-            const headerHeight = 80; // Account for sticky header
-            const elementPosition = targetElement.offsetTop - headerHeight;
-            
-            window.scrollTo({
-                top: elementPosition,
-                behavior: 'smooth'
-            });
+    private initialize(): void {
+        if (!this.banner) return;
 
-            // Update active nav link
-            this.updateActiveNavLink(sectionId);
-        }
+        DOMHelper.getElementById('consentAllow')?.addEventListener('click', () => this.decide(true));
+        DOMHelper.getElementById('consentDecline')?.addEventListener('click', () => this.decide(false));
+        DOMHelper.getElementById('consentReopen')?.addEventListener('click', () => this.show());
+        this.banner.hidden = AnalyticsConsent.get() !== null;
     }
 
-    private updateActiveNavLink(activeId: string): void {
-        this.navLinks.forEach(link => {
-            const href = link.getAttribute('href');
-            if (href === `#${activeId}`) {
-                DOMHelper.addClass(link, 'active');
-            } else {
-                DOMHelper.removeClass(link, 'active');
-            }
+    private show(): void {
+        if (!this.banner) return;
+        this.banner.hidden = false;
+        DOMHelper.getElementById(AnalyticsConsent.isGranted() ? 'consentDecline' : 'consentAllow')?.focus();
+    }
+
+    private decide(granted: boolean): void {
+        AnalyticsConsent.set(granted);
+        if (this.banner) this.banner.hidden = true;
+        ToastManager.getInstance().show({
+            message: granted ? t('consent.allowed') : t('consent.declined'),
+            type: 'info'
         });
     }
 }
 
-// Appointment Form Handler
-class AppointmentForm {
-    private form: HTMLFormElement | null;
-    private toastManager: ToastManager;
+// Patient Reviews
+// Approved reviews from the API, one at a time with previous/next buttons and
+// arrow keys (never on a timer), under the overall and per-service averages.
+// The section stays hidden until the clinic has approved a review.
+class ReviewsCarousel {
+    private section: HTMLElement | null;
+    private slide: HTMLElement | null;
+    private position: HTMLElement | null;
+    private reviews: PublicReviews | null = null;
+    private index: number = 0;
 
     constructor() {
-        this.form = DOMHelper.getElementById<HTMLFormElement>('appointmentForm');
-        this.toastManager = ToastManager.getInstance();
-        this.initializeForm();
+        this.section = DOMHelper.getElementById('reviews');
+        this.slide = DOMHelper.getElementById('reviewsSlide');
+        this.position = DOMHelper.getElementById('reviewsPosition');
+
+        DOMHelper.getElementById('reviewsPrev')?.addEventListener('click', () => this.show(this.index - 1));
+        DOMHelper.getElementById('reviewsNext')?.addEventListener('click', () => this.show(this.index + 1));
+        DOMHelper.getElementById('reviewsCarousel')?.addEventListener('keydown', (e) => {
+            if (e.key === 'ArrowLeft') this.show(this.index - 1);
+            if (e.key === 'ArrowRight') this.show(this.index + 1);
+        });
+        void this.load();
     }
 
-    private initializeForm(): void {
-        if (!this.form) return;
-
-        this.form.addEventListener('submit', (e) => this.handleSubmit(e));
-        
-        // Set minimum date to today
-        const dateInput = DOMHelper.getElementById<HTMLInputElement>('preferredDate');
-        if (dateInput) {
-            const today = new Date().toISOString().split('T')[0];
-            dateInput.setAttribute('min', today);
-        }
-
-        // Add real-time validation
-        this.addRealTimeValidation();
+    applyLocale(): void {
+        this.render();
     }
 
-    private addRealTimeValidation(): void {
-        const nameInput = DOMHelper.getElementById<HTMLInputElement>('patientName');
-        const phoneInput = DOMHelper.getElementById<HTMLInputElement>('phoneNumber');
-        const dateInput = DOMHelper.getElementById<HTMLInputElement>('preferredDate');
-
-        if (nameInput) {
-            nameInput.addEventListener('blur', () => this.validateField('patientName'));
-        }
+    private async load(): Promise<void> {
+        if (!this.section) return;
 
-        if (phoneInput) {
-            phoneInput.addEventListener('blur', () => this.validateField('phoneNumber'));
-            phoneInput.addEventListener('input', (e) => this.formatPhoneInput(e));
+        try {
+            this.reviews = await AppointmentApi.getReviews();
+        } catch (error) {
+            // The page reads fine without reviews
+            console.error('Could not load reviews:', error);
+            return;
         }
 
-        if (dateInput) {
-            dateInput.addEventListener('change', () => this.validateField('preferredDate'));
-        }
+        ClinicInfoRenderer.setRating(this.reviews.overall);
+        this.section.hidden = this.reviews.reviews.length === 0;
+        this.render();
     }
 
-    private formatPhoneInput(e: Event): void {
-        const input = e.target as HTMLInputElement;
-        let value = input.value.replace(/\D/g, '');
-        
-        // Limit to 10 digits
-        if (value.length > 10) {
-            value = value.substring(0, 10);
-        }
-        
-        input.value = value;
+    private render(): void {
+        this.renderSummary();
+        this.show(this.index);
     }
 
-    private validateField(fieldName: keyof AppointmentFormData): void {
-        const formData = this.getFormData();
-        const validation = FormValidator.validateForm(formData);
-        
-        const errorElement = DOMHelper.getElementById(`${fieldName.replace(/([A-Z])/g, '$1').toLowerCase()}Error`);
-        const inputElement = DOMHelper.getElementById<HTMLInputElement>(fieldName);
-        
-        if (errorElement && inputElement) {
-            const error = validation.errors[fieldName] || '';
-            errorElement.textContent = error;
-            
-            if (error) {
-                DOMHelper.addClass(inputElement, 'error');
-            } else {
-                DOMHelper.removeClass(inputElement, 'error');
-            }
-        }
-    }
+    private renderSummary(): void {
+        const summary = DOMHelper.getElementById('reviewsSummary');
+        if (!summary || !this.reviews) return;
+
+        const { overall, services } = this.reviews;
+        const overallLine = DOMHelper.createElement('p', 'reviews-overall');
+        overallLine.append(
+            ReviewsCarousel.createStars(overall.average),
+            DOMHelper.createElement('span', '', t('reviews.average', {
+                average: ReviewsCarousel.formatAverage(overall.average),
+                count: overall.count
+            }))
+        );
 
-    private getFormData(): AppointmentFormData {
-        if (!this.form) throw new Error('Form not found');
+        const list = DOMHelper.createElement('ul', 'reviews-services');
+        list.setAttribute('aria-label', t('reviews.byService'));
+        clinicConfig.services.forEach(service => {
+            const rating = services[service.id];
+            if (!rating) return;
+
+            const item = DOMHelper.createElement('li', 'reviews-service');
+            item.append(
+                DOMHelper.createElement('span', 'reviews-service-name', ClinicInfoRenderer.serviceName(service.id)),
+                ReviewsCarousel.createStars(rating.average),
+                DOMHelper.createElement('span', '', t('reviews.serviceAverage', {
+                    average: ReviewsCarousel.formatAverage(rating.average),
+                    count: rating.count
+                }))
+            );
+            list.appendChild(item);
+        });
 
-        const formData = new FormData(this.form);
-        
-        return {
-            patientName: (formData.get('patientName') as string) || '',
-            phoneNumber: (formData.get('phoneNumber') as string) || '',
-            serviceType: (formData.get('serviceType') as string) || '',
-            preferredDate: (formData.get('preferredDate') as string) || '',
-            preferredTime: (formData.get('preferredTime') as string) || '',
-            message: (formData.get('message') as string) || ''
-        };
+        summary.replaceChildren(overallLine, list);
     }
 
-    private clearFormErrors(): void {
-        const errorElements = DOMHelper.querySelectorAll('.error-message');
-        errorElements.forEach(element => {
-            element.textContent = '';
-        });
+    // Wraps around at either end
+    private show(index: number): void {
+        const reviews = this.reviews?.reviews ?? [];
+        if (!this.slide || reviews.length === 0) return;
 
-        const inputElements = DOMHelper.querySelectorAll('.form-input');
-        inputElements.forEach(element => {
-            DOMHelper.removeClass(element, 'error');
-        });
-    }
+        this.index = (index + reviews.length) % reviews.length;
+        const review = reviews[this.index];
+        if (!review) return;
 
-    private displayErrors(errors: Record<string, string>): void {
-        Object.entries(errors).forEach(([field, message]) => {
-            const errorElement = DOMHelper.getElementById(`${field.replace(/([A-Z])/g, '$1').toLowerCase()}Error`);
-            const inputElement = DOMHelper.getElementById<HTMLInputElement>(field);
-            
-            if (errorElement) {
-                errorElement.textContent = message;
-            }
-            
-            if (inputElement) {
-                DOMHelper.addClass(inputElement, 'error');
-            }
+        const label = t('reviews.position', { current: this.index + 1, total: reviews.length });
+        this.slide.replaceChildren(this.createCard(review, label));
+        if (this.position) this.position.textContent = label;
+
+        ['reviewsPrev', 'reviewsNext'].forEach(id => {
+            const button = DOMHelper.getElementById<HTMLButtonElement>(id);
+            if (button) button.hidden = reviews.length < 2;
         });
     }
 
-    private generateEmailContent(formData: AppointmentFormData): string {
-        const serviceNames: Record<string, string> = {
-            'consultation': 'General Consultation',
-            'kansya-thali': 'Kansya Thali Massage',
-            'panchkarma': 'Pain Management & Panchkarma',
-            'hair-skin': 'Hair and Skin Care',
-            'viddhkarma': 'Viddhkarma (Needle Therapy)',
-            'cupping': 'Cupping Therapy',
-            'weight-management': 'Weight Management',
-            'swarnaprash': 'Swarnaprash for Kids'
-        };
-
-        const timeSlots: Record<string, string> = {
-            'morning': 'Morning (9:30 AM - 1:00 PM)',
-            'evening': 'Evening (4:30 PM - 7:30 PM)'
-        };
+    private createCard(review: PublicReview, label: string): HTMLElement {
+        const card = DOMHelper.createElement('figure', 'review-card');
+        card.setAttribute('role', 'group');
+        card.setAttribute('aria-roledescription', t('reviews.slide'));
+        card.setAttribute('aria-label', label);
 
-        let content = `Appointment Request from AAYURCURE Website\n\n`;
-        content += `Patient Name: ${formData.patientName}\n`;
-        content += `Phone Number: ${formData.phoneNumber}\n`;
-        
-        if (formData.serviceType) {
-            content += `Service Required: ${serviceNames[formData.serviceType] || formData.serviceType}\n`;
-        }
-        
-        if (formData.preferredDate) {
-            const date = new Date(formData.preferredDate);
-            content += `Preferred Date: ${date.toLocaleDateString('en-IN', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-            })}\n`;
-        }
-        
-        if (formData.preferredTime) {
-            content += `Preferred Time: ${timeSlots[formData.preferredTime] || formData.preferredTime}\n`;
-        }
-        
-        if (formData.message.trim()) {
-            content += `\nAdditional Information:\n${formData.message}\n`;
-        }
+        const rating = DOMHelper.createElement('p', 'review-rating');
+        rating.append(
+            ReviewsCarousel.createStars(review.rating),
+            DOMHelper.createElement('span', 'visually-hidden', t('review.stars', { rating: review.rating }))
+        );
 
-        content += `\n---\nSubmitted from: AAYURCURE Website`;
-        
-        return encodeURIComponent(content);
-    }
+        const quote = DOMHelper.createElement('blockquote', 'review-comment');
+        quote.appendChild(DOMHelper.createElement('p', '', review.comment));
 
-    private generateWhatsAppMessage(formData: AppointmentFormData): string {
-        let message = `Hello AAYURCURE, I'd like to book an appointment.\n\n`;
-        message += `Name: ${formData.patientName}\n`;
-        message += `Phone: ${formData.phoneNumber}\n`;
-        
-        if (formData.serviceType) {
-            message += `Service: ${formData.serviceType}\n`;
-        }
-        
-        if (formData.preferredDate) {
-            message += `Date: ${formData.preferredDate}\n`;
-        }
-        
-        if (formData.preferredTime) {
-            message += `Time: ${formData.preferredTime}\n`;
-        }
+        const details = [
+            review.displayName || t('reviews.anonymous'),
+            review.serviceType ? ClinicInfoRenderer.serviceName(review.serviceType) : '',
+            ClinicInfoRenderer.formatDate(clinicNow(new Date(review.createdAt)).date)
+        ].filter(Boolean);
+        const caption = DOMHelper.createElement('figcaption', 'review-author', details.join(' · '));
 
-        return encodeURIComponent(message);
+        card.append(rating, quote, caption);
+        return card;
     }
 
-    private handleSubmit(e: Event): void {
-        e.preventDefault();
-        
-        if (!this.form) return;
+    // Rounded to whole stars; the number is always written out next to them
+    private static createStars(rating: number): HTMLElement {
+        const filled = Math.round(rating);
+        const stars = DOMHelper.createElement('span', 'rating-stars', '★'.repeat(filled) + '☆'.repeat(5 - filled));
+        stars.setAttribute('aria-hidden', 'true');
+        return stars;
+    }
 
-        // Clear previous errors
-        this.clearFormErrors();
+    private static formatAverage(average: number): string {
+        return average.toLocaleString(I18n.getLocaleInfo().tag, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+    }
+}
 
-        // Get and validate form data
-        const formData = this.getFormData();
-        const validation = FormValidator.validateForm(formData);
+// FAQ Accordion
+// Questions come from shared/faq.ts. A search box and topic buttons filter
+// them, highlighting what matched, and each question has its own route
+// (#/faq/panchkarma) that opens it. The same list feeds the FAQPage JSON-LD.
+class FAQAccordion {
+    private static readonly STRUCTURED_DATA_ID = 'faqStructuredData';
+    private static readonly SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+    private list: HTMLElement | null;
+    private searchInput: HTMLInputElement | null;
+    private categoryGroup: HTMLElement | null;
+    private status: HTMLElement | null;
+    private category: FaqCategory | 'all' = 'all';
+    // Open outside of a search, where every match is open
+    private openId: string | null = null;
+
+    constructor(private readonly router: Router) {
+        this.list = DOMHelper.getElementById('faqList');
+        this.searchInput = DOMHelper.getElementById<HTMLInputElement>('faqSearch');
+        this.categoryGroup = DOMHelper.getElementById('faqCategories');
+        this.status = DOMHelper.getElementById('faqStatus');
+
+        this.searchInput?.addEventListener('input', () => this.render());
+        router.add({
+            name: 'faq',
+            path: '/faq/:questionId',
+            enter: ({ questionId }) => this.showQuestion(questionId ?? '')
+        });
+        this.applyLocale();
+    }
 
-        if (!validation.isValid) {
-            this.displayErrors(validation.errors);
-            
-            // Focus on first error field
-            const firstErrorField = Object.keys(validation.errors)[0];
-            const firstErrorElement = DOMHelper.getElementById<HTMLInputElement>(firstErrorField);
-            if (firstErrorElement) {
-                firstErrorElement.focus();
-            }
+    applyLocale(): void {
+        this.renderCategories();
+        this.render();
+        this.renderStructuredData();
+    }
 
-            this.toastManager.show({
-                message: 'Please fix the errors below',
-                type: 'error'
-            });
-            return;
+    // Clears the filters so the question is on the list, then opens it
+    private showQuestion(questionId: string): HTMLElement | null {
+        if (!FAQ_ENTRIES.some(entry => entry.id === questionId)) {
+            return DOMHelper.getElementById('faq');
         }
 
-        // Generate email and WhatsApp links
-        const emailContent = this.generateEmailContent(formData);
-        const whatsappMessage = this.generateWhatsAppMessage(formData);
+        if (this.searchInput) this.searchInput.value = '';
+        this.category = 'all';
+        this.openId = questionId;
+        this.renderCategories();
+        this.render();
 
-        // Create mailto link
-        const mailtoLink = `mailto:?subject=Appointment Request - AAYURCURE&body=${emailContent}`;
-        
-        // Create WhatsApp link
-        const whatsappLink = `https://wa.me/917359171081?text=${whatsappMessage}`;
+        const item = DOMHelper.getElementById(`faq-${questionId}`);
+        item?.querySelector<HTMLButtonElement>('.faq-question')?.focus({ preventScroll: true });
+        return item;
+    }
 
-        // Show success message
-        this.toastManager.show({
-            message: 'Appointment request prepared! Choose your preferred contact method.',
-            type: 'success'
-        });
+    private renderCategories(): void {
+        if (!this.categoryGroup) return;
+
+        const categories: (FaqCategory | 'all')[] = ['all', ...FAQ_CATEGORIES];
+        this.categoryGroup.replaceChildren(...categories.map(category => {
+            const button = DOMHelper.createElement('button', 'faq-category', t(`faq.category.${category}` as MessageKey));
+            button.type = 'button';
+            button.setAttribute('aria-pressed', String(category === this.category));
+            button.addEventListener('click', () => {
+                this.category = category;
+                this.renderCategories();
+                this.render();
+            });
+            return button;
+        }));
+    }
 
-        // Create action buttons for user to choose
-        this.showContactOptions(mailtoLink, whatsappLink);
+    private render(): void {
+        if (!this.list) return;
 
-        // Reset form
-        this.form.reset();
-    }
+        const words = (this.searchInput?.value ?? '').trim().toLocaleLowerCase().split(/\s+/).filter(Boolean);
+        const entries = FAQ_ENTRIES.filter(entry =>
+            (this.category === 'all' || entry.category === this.category) && this.matches(entry, words));
 
-    private showContactOptions(emailLink: string, whatsappLink: string): void {
-        // Create a temporary modal-like overlay
-        const overlay = document.createElement('div');
-        overlay.style.cssText = `
-            position: fixed;
-            top: 0;
-            left: 0;
-            right: 0;
-            bottom: 0;
-            background: rgba(0, 0, 0, 0.5);
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            z-index: 1001;
-            padding: 1rem;
-        `;
-
-        const modal = document.createElement('div');
-        modal.style.cssText = `
-            background: white;
-            padding: 2rem;
-            border-radius: 12px;
-            max-width: 400px;
-            width: 100%;
-            box-shadow: 0 4px 16px rgba(45, 80, 22, 0.15);
-            text-align: center;
-        `;
-
-        modal.innerHTML = `
-            <h3 style="color: var(--color-primary-dark); margin-bottom: 1rem;">Choose Contact Method</h3>
-            <p style="color: var(--color-text-light); margin-bottom: 1.5rem;">How would you like to send your appointment request?</p>
-            <div style="display: flex; flex-direction: column; gap: 0.75rem;">
-                <a href="${whatsappLink}" target="_blank" rel="noopener" style="
-                    background: #25D366;
-                    color: white;
-                    padding: 0.75rem 1.5rem;
-                    border-radius: 8px;
-                    text-decoration: none;
-                    font-weight: 600;
-                    transition: all 0.3s ease;
-                ">📱 Send via WhatsApp</a>
-                <a href="${emailLink}" style="
-                    background: var(--color-primary);
-                    color: white;
-                    padding: 0.75rem 1.5rem;
-                    border-radius: 8px;
-                    text-decoration: none;
-                    font-weight: 600;
-                    transition: all 0.3s ease;
-                ">📧 Send via Email</a>
-                <button id="modalClose" style="
-                    background: transparent;
-                    border: 2px solid var(--color-accent);
-                    color: var(--color-text);
-                    padding: 0.5rem 1rem;
-                    border-radius: 8px;
-                    cursor: pointer;
-                    font-weight: 500;
-                ">Close</button>
-            </div>
-        `;
-
-        overlay.appendChild(modal);
-        document.body.appendChild(overlay);
-
-        // Close modal functionality
-        const closeModal = () => document.body.removeChild(overlay);
-        
-        const closeButton = modal.querySelector('#modalClose');
-        if (closeButton) {
-            closeButton.addEventListener('click', closeModal);
-        }
+        this.list.replaceChildren(...entries.map(entry => this.createItem(entry, words)));
+        entries.forEach(entry => this.setExpanded(entry.id, words.length > 0 || entry.id === this.openId));
 
-        overlay.addEventListener('click', (e) => {
-            if (e.target === overlay) closeModal();
-        });
+        if (this.status) {
+            const filtered = words.length > 0 || this.category !== 'all';
+            this.status.textContent = entries.length === 0
+                ? t('faq.noResults')
+                : filtered ? t('faq.results', { count: entries.length, total: FAQ_ENTRIES.length }) : '';
+        }
+    }
 
-        // Close on escape key
-        const handleEscape = (e: KeyboardEvent) => {
-            if (e.key === 'Escape') {
-                closeModal();
-                document.removeEventListener('keydown', handleEscape);
-            }
-        };
-        document.addEventListener('keydown', handleEscape);
+    // Every word has to appear in the question or the answer
+    private matches(entry: FaqEntry, words: string[]): boolean {
+        const text = `${faqQuestion(entry)} ${faqAnswer(entry)}`.toLocaleLowerCase();
+        return words.every(word => text.includes(word));
     }
-}
 
-// FAQ Accordion
-class FAQAccordion {
-    private faqQuestions: NodeListOf<HTMLButtonElement>;
+    private createItem(entry: FaqEntry, words: string[]): HTMLElement {
+        const item = DOMHelper.createElement('div', 'faq-item');
+        item.id = `faq-${entry.id}`;
+
+        const button = DOMHelper.createElement('button', 'faq-question');
+        button.type = 'button';
+        button.id = `faqQuestion-${entry.id}`;
+        button.setAttribute('aria-controls', `faqAnswer-${entry.id}`);
+        const question = DOMHelper.createElement('span');
+        question.append(...this.highlight(faqQuestion(entry), words));
+        button.append(question, this.createChevron());
+        button.addEventListener('click', () => this.toggle(entry.id));
+
+        const answer = DOMHelper.createElement('div', 'faq-answer');
+        answer.id = `faqAnswer-${entry.id}`;
+        answer.setAttribute('role', 'region');
+        answer.setAttribute('aria-labelledby', button.id);
+        const text = DOMHelper.createElement('p');
+        text.append(...this.highlight(faqAnswer(entry), words));
+        const link = DOMHelper.createElement('a', 'faq-link', t('faq.link'));
+        link.href = this.router.href('faq', { questionId: entry.id });
+        answer.append(text, link);
+
+        item.append(button, answer);
+        return item;
+    }
 
-    constructor() {
-        this.faqQuestions = DOMHelper.querySelectorAll<HTMLButtonElement>('.faq-question');
-        this.initializeAccordion();
+    // One question open at a time
+    private toggle(questionId: string): void {
+        const expanded = DOMHelper.getElementById(`faqQuestion-${questionId}`)?.getAttribute('aria-expanded') === 'true';
+        this.openId = expanded ? null : questionId;
+        FAQ_ENTRIES.forEach(entry => this.setExpanded(entry.id, entry.id === this.openId));
     }
 
-    private initializeAccordion(): void {
-        this.faqQuestions.forEach(question => {
-            question.addEventListener('click', (e) => this.toggleFAQ(e));
-        });
+    private setExpanded(questionId: string, expanded: boolean): void {
+        const button = DOMHelper.getElementById(`faqQuestion-${questionId}`);
+        const answer = DOMHelper.getElementById(`faqAnswer-${questionId}`);
+        if (!button || !answer) return;
+
+        button.setAttribute('aria-expanded', String(expanded));
+        answer.style.maxHeight = expanded ? `${answer.scrollHeight}px` : '0';
     }
 
-    private toggleFAQ(e: Event): void {
-        const button = e.currentTarget as HTMLButtonElement;
-        const faqItem = button.parentElement;
-        const answer = faqItem?.querySelector('.faq-answer') as HTMLElement;
-        const isExpanded = button.getAttribute('aria-expanded') === 'true';
+    // Wraps each searched word in <mark>
+    private highlight(text: string, words: string[]): Node[] {
+        if (words.length === 0) return [document.createTextNode(text)];
 
-        if (!answer) return;
+        const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        // split() with a capture group puts the matches at the odd positions
+        return text.split(new RegExp(`(${escaped.join('|')})`, 'giu'))
+            .map((part, index) => index % 2 === 1
+                ? DOMHelper.createElement('mark', 'faq-match', part)
+                : document.createTextNode(part));
+    }
 
-        // Close all other FAQs
-        this.faqQuestions.forEach(otherButton => {
-            if (otherButton !== button) {
-                otherButton.setAttribute('aria-expanded', 'false');
-                const otherAnswer = otherButton.parentElement?.querySelector('.faq-answer') as HTMLElement;
-                if (otherAnswer) {
-                    otherAnswer.style.maxHeight = '0';
-                }
-            }
-        });
+    private createChevron(): SVGSVGElement {
+        const svg = document.createElementNS(FAQAccordion.SVG_NAMESPACE, 'svg');
+        svg.setAttribute('class', 'faq-icon');
+        svg.setAttribute('viewBox', '0 0 24 24');
+        svg.setAttribute('fill', 'none');
+        svg.setAttribute('stroke', 'currentColor');
+        svg.setAttribute('stroke-width', '2');
+        svg.setAttribute('aria-hidden', 'true');
+
+        const polyline = document.createElementNS(FAQAccordion.SVG_NAMESPACE, 'polyline');
+        polyline.setAttribute('points', '6,9 12,15 18,9');
+        svg.appendChild(polyline);
+        return svg;
+    }
 
-        // Toggle current FAQ
-        if (isExpanded) {
-            button.setAttribute('aria-expanded', 'false');
-            answer.style.maxHeight = '0';
-        } else {
-            button.setAttribute('aria-expanded', 'true');
-            answer.style.maxHeight = answer.scrollHeight + 'px';
+    // In the current language, next to the clinic's own JSON-LD
+    private renderStructuredData(): void {
+        let script = DOMHelper.getElementById<HTMLScriptElement>(FAQAccordion.STRUCTURED_DATA_ID);
+        if (!script) {
+            script = DOMHelper.createElement('script');
+            script.type = 'application/ld+json';
+            script.id = FAQAccordion.STRUCTURED_DATA_ID;
+            document.head.appendChild(script);
         }
+        script.textContent = JSON.stringify(buildFaqSchema(), null, 4);
     }
 }
 
@@ -773,17 +3569,30 @@ class PerformanceMonitor {
         // Preload phone number for quick dialing
         const phoneLink = document.createElement('link');
         phoneLink.rel = 'prefetch';
-        phoneLink.href = 'tel:+917359171081';
+        phoneLink.href = `tel:${clinicConfig.contact.phone}`;
         document.head.appendChild(phoneLink);
 
         // Preload WhatsApp link
         const whatsappLink = document.createElement('link');
         whatsappLink.rel = 'prefetch';
-        whatsappLink.href = 'https://wa.me/917359171081';
+        whatsappLink.href = ClinicInfoRenderer.whatsappUrl;
         document.head.appendChild(whatsappLink);
     }
 }
 
+// Offline Support
+class OfflineSupport {
+    static registerServiceWorker(): void {
+        if (!('serviceWorker' in navigator)) return;
+
+        // The compiled worker sits next to this script in dist/ but looks after the whole site
+        window.addEventListener('load', () => {
+            navigator.serviceWorker.register(new URL('./sw.js', import.meta.url), { type: 'module', scope: './' })
+                .catch(error => console.error('Service worker registration failed:', error));
+        });
+    }
+}
+
 // Accessibility Enhancements
 class AccessibilityController {
     static initializeKeyboardNavigation(): void {
@@ -805,6 +3614,13 @@ class AccessibilityController {
         const observer = new IntersectionObserver(
             (entries) => {
                 entries.forEach(entry => {
+                    // Sections much taller than the screen never reach half visible
+                    const fillsView = entry.rootBounds !== null
+                        && entry.intersectionRect.height >= entry.rootBounds.height / 2;
+                    if (entry.isIntersecting && (entry.intersectionRatio > 0.5 || fillsView)) {
+                        Analytics.trackOnce('section_view', entry.target.id);
+                    }
+
                     if (entry.isIntersecting && entry.intersectionRatio > 0.5) {
                         const sectionTitle = entry.target.querySelector('h2, h1');
                         if (sectionTitle) {
@@ -814,7 +3630,7 @@ class AccessibilityController {
                             announcement.setAttribute('aria-atomic', 'true');
                             announcement.style.position = 'absolute';
                             announcement.style.left = '-10000px';
-                            announcement.textContent = `Viewing ${sectionTitle.textContent} section`;
+                            announcement.textContent = t('a11y.viewingSection', { section: sectionTitle.textContent || '' });
                             document.body.appendChild(announcement);
                             
                             setTimeout(() => document.body.removeChild(announcement), 1000);
@@ -822,17 +3638,68 @@ class AccessibilityController {
                     }
                 });
             },
-            { threshold: 0.5 }
+            { threshold: [0.25, 0.5] }
         );
 
         sections.forEach(section => observer.observe(section));
     }
 }
 
+// Language Switcher
+// The choice is remembered in this browser; first visits follow the
+// browser's preferred languages and fall back to English.
+class LanguageSwitcher {
+    private static readonly STORAGE_KEY = 'aayurcure-locale';
+
+    private select: HTMLSelectElement | null;
+
+    constructor() {
+        this.select = DOMHelper.getElementById<HTMLSelectElement>('languageSelect');
+        this.initializeSwitcher();
+    }
+
+    static getPreferredLocale(): Locale {
+        const stored = localStorage.getItem(this.STORAGE_KEY);
+        if (I18n.isLocale(stored)) return stored;
+
+        const browserLocale = navigator.languages
+            .map(language => language.split('-')[0])
+            .find(language => I18n.isLocale(language));
+        return I18n.isLocale(browserLocale) ? browserLocale : DEFAULT_LOCALE;
+    }
+
+    private initializeSwitcher(): void {
+        if (!this.select) return;
+
+        const select = this.select;
+        select.replaceChildren(...LOCALES.map(({ code, nativeName }) => {
+            const option = new Option(nativeName, code);
+            option.lang = code;
+            return option;
+        }));
+        select.value = I18n.getLocale();
+
+        select.addEventListener('change', () => {
+            if (!I18n.isLocale(select.value)) return;
+            localStorage.setItem(LanguageSwitcher.STORAGE_KEY, select.value);
+            I18n.setLocale(select.value);
+        });
+    }
+}
+
 // Main Application Class
 class AayurcureApp {
     private router: Router;
     private appointmentForm: AppointmentForm;
+    private manageBooking: ManageBooking | null = null;
+    private waitlistOfferPage: WaitlistOfferPage | null = null;
+    private prakritiQuiz: PrakritiQuiz | null = null;
+    private servicesCatalog: ServicesCatalog | null = null;
+    private reviewsCarousel: ReviewsCarousel | null = null;
+    private intakeWizard: IntakeWizard | null = null;
+    private privacyCenter: PrivacyCenter | null = null;
+    private consentBanner: ConsentBanner | null = null;
+    private languageSwitcher: LanguageSwitcher | null = null;
     private faqAccordion: FAQAccordion;
     private mobileNavigation: MobileNavigation;
     private mobileCTAController: MobileCTAController;
@@ -852,50 +3719,68 @@ class AayurcureApp {
     }
 
     private setup(): void {
+        // Translate the page before anything reads its text
+        I18n.setLocale(LanguageSwitcher.getPreferredLocale());
+        PageTranslator.apply();
+
+        // Render clinic details from config before components look them up
+        ClinicInfoRenderer.render();
+
         // Initialize all components
+        this.languageSwitcher = new LanguageSwitcher();
         this.router = new Router();
-        this.appointmentForm = new AppointmentForm();
-        this.faqAccordion = new FAQAccordion();
+        this.intakeWizard = new IntakeWizard();
+        const openIntake = (booking: IntakeBooking, phoneNumber: string) => void this.intakeWizard?.open(booking, phoneNumber);
+        this.appointmentForm = new AppointmentForm(openIntake);
+        this.manageBooking = new ManageBooking(openIntake);
+        this.prakritiQuiz = new PrakritiQuiz((serviceId, summary) => this.appointmentForm.applyPrakriti(serviceId, summary));
+        this.servicesCatalog = new ServicesCatalog(this.router, serviceId => this.appointmentForm.selectService(serviceId));
+        this.reviewsCarousel = new ReviewsCarousel();
+        this.router.add({
+            name: 'manage',
+            path: '/manage/:reference',
+            enter: ({ reference }) => this.manageBooking?.prefill(reference ?? '') ?? null
+        });
+        this.waitlistOfferPage = new WaitlistOfferPage(this.router);
+        this.privacyCenter = new PrivacyCenter();
+        this.consentBanner = new ConsentBanner();
+        this.faqAccordion = new FAQAccordion(this.router);
         this.mobileNavigation = new MobileNavigation();
         this.mobileCTAController = new MobileCTAController();
         this.animationController = new AnimationController();
 
         // Initialize performance monitoring
         PerformanceMonitor.logPageLoad();
+        Analytics.track('page_view');
         PerformanceMonitor.preloadCriticalResources();
 
+        // Cache the site for offline visits
+        OfflineSupport.registerServiceWorker();
+
         // Initialize accessibility features
         AccessibilityController.initializeKeyboardNavigation();
         AccessibilityController.announcePageChanges();
 
-        // Add smooth scroll behavior for all internal links
-        this.initializeSmoothScroll();
+        // Routes are registered and the page is rendered, so the current address can be shown
+        this.router.start();
+
+        I18n.onChange(() => this.applyLocale());
 
         console.log('AAYURCURE website initialized successfully');
     }
 
-    private initializeSmoothScroll(): void {
-        const internalLinks = DOMHelper.querySelectorAll<HTMLAnchorElement>('a[href^="#"]');
-        internalLinks.forEach(link => {
-            link.addEventListener('click', (e) => {
-                const href = link.getAttribute('href');
-                if (href && href.startsWith('#') && href.length > 1) {
-                    e.preventDefault();
-                    const targetId = href.substring(1);
-                    const targetElement = DOMHelper.getElementById(targetId);
-                    
-                    if (targetElement) {
-                        const headerHeight = 80;
-                        const elementPosition = targetElement.offsetTop - headerHeight;
-                        
-                        window.scrollTo({
-                            top: elementPosition,
-                            behavior: 'smooth'
-                        });
-                    }
-                }
-            });
-        });
+    private applyLocale(): void {
+        PageTranslator.apply();
+        ClinicInfoRenderer.render();
+        this.appointmentForm.applyLocale();
+        this.manageBooking?.applyLocale();
+        this.waitlistOfferPage?.applyLocale();
+        this.prakritiQuiz?.applyLocale();
+        this.servicesCatalog?.applyLocale();
+        this.reviewsCarousel?.applyLocale();
+        this.faqAccordion.applyLocale();
+        this.intakeWizard?.applyLocale();
+        this.privacyCenter?.applyLocale();
     }
 }
 
@@ -0,0 +1,182 @@
+// AAYURCURE - Search and social metadata generator
+// Builds the <head> metadata in index.html (title, description, canonical
+// link, Open Graph and Twitter tags, JSON-LD), sitemap.xml and robots.txt
+// from config/clinic.json and the English locale, so none of it is edited by
+// hand. Run from the project root:
+//   node dist/scripts/seo.js          writes the files
+//   node dist/scripts/seo.js --check  changes nothing; fails when a required
+//                                     field is missing or a file is out of date
+import { access, readFile, writeFile } from 'node:fs/promises';
+import { clinicConfig, ConfigChecker } from '../shared/clinic-config.js';
+import { buildFaqSchema } from '../shared/faq.js';
+import { DEFAULT_LOCALE, I18n, LOCALES, t } from '../shared/i18n.js';
+import { buildClinicSchema, type StructuredData } from '../shared/structured-data.js';
+
+const INDEX_FILE = 'index.html';
+const SITEMAP_FILE = 'sitemap.xml';
+const ROBOTS_FILE = 'robots.txt';
+const HEAD_START = '<!-- seo:start -->';
+const HEAD_END = '<!-- seo:end -->';
+// Staff pages and the API stay out of search results
+const DISALLOWED_PATHS = ['/admin.html', '/api/'];
+
+async function requiredFieldProblems(): Promise<string[]> {
+    const check = new ConfigChecker();
+    check.string(clinicConfig.site.url, 'site.url in config/clinic.json');
+    check.string(t('meta.title'), 'meta.title in locales/en.json');
+    check.string(t('meta.description'), 'meta.description in locales/en.json');
+
+    try {
+        await access(clinicConfig.site.image);
+    } catch {
+        check.problems.push(`site.image "${clinicConfig.site.image}" in config/clinic.json does not exist`);
+    }
+
+    clinicConfig.services.forEach(service => {
+        if (!I18n.serviceText(service.id, 'summary')) {
+            check.problems.push(`service.${service.id}.summary is missing from locales/en.json`);
+        }
+    });
+    return check.problems;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// 'en-IN' -> 'en_IN'
+function ogLocale(tag: string): string {
+    return tag.replace('-', '_');
+}
+
+function jsonLdScript(id: string, data: StructuredData): string {
+    // "</" would end the script element early
+    const json = JSON.stringify(data, null, 4).replace(/<\//g, '<\\/');
+    return [
+        `<script type="application/ld+json" id="${id}">`,
+        ...json.split('\n'),
+        '</script>'
+    ].join('\n');
+}
+
+function buildHead(): string {
+    const siteUrl = clinicConfig.site.url;
+    const pageUrl = `${siteUrl}/`;
+    const imageUrl = `${siteUrl}/${clinicConfig.site.image}`;
+    const title = escapeHtml(t('meta.title'));
+    const description = escapeHtml(t('meta.description'));
+    const defaultLocale = LOCALES.find(locale => locale.code === DEFAULT_LOCALE);
+
+    const lines = [
+        HEAD_START,
+        '<!-- Generated by `npm run seo` from config/clinic.json and locales/en.json; edit those instead -->',
+        `<title>${title}</title>`,
+        `<meta name="description" content="${description}">`,
+        `<link rel="canonical" href="${escapeHtml(pageUrl)}">`,
+        '',
+        '<!-- Open Graph -->',
+        '<meta property="og:type" content="website">',
+        `<meta property="og:site_name" content="${escapeHtml(clinicConfig.shortName)}">`,
+        `<meta property="og:title" content="${title}">`,
+        `<meta property="og:description" content="${description}">`,
+        `<meta property="og:url" content="${escapeHtml(pageUrl)}">`,
+        `<meta property="og:image" content="${escapeHtml(imageUrl)}">`,
+        `<meta property="og:locale" content="${ogLocale(defaultLocale?.tag ?? 'en-IN')}">`,
+        ...LOCALES
+            .filter(locale => locale.code !== DEFAULT_LOCALE)
+            .map(locale => `<meta property="og:locale:alternate" content="${ogLocale(locale.tag)}">`),
+        '',
+        '<!-- Twitter -->',
+        '<meta name="twitter:card" content="summary_large_image">',
+        `<meta name="twitter:title" content="${title}">`,
+        `<meta name="twitter:description" content="${description}">`,
+        `<meta name="twitter:image" content="${escapeHtml(imageUrl)}">`,
+        '',
+        '<!-- JSON-LD (main.ts keeps it in the visitor\'s language) -->',
+        jsonLdScript('clinicStructuredData', buildClinicSchema(siteUrl)),
+        jsonLdScript('faqStructuredData', buildFaqSchema()),
+        HEAD_END
+    ];
+    return lines.join('\n').split('\n').map(line => line ? `    ${line}` : '').join('\n');
+}
+
+function buildSitemap(): string {
+    // Services and FAQ answers live on the one page (their #/ routes are not separate URLs)
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        '    <url>',
+        `        <loc>${escapeHtml(`${clinicConfig.site.url}/`)}</loc>`,
+        '    </url>',
+        '</urlset>',
+        ''
+    ].join('\n');
+}
+
+function buildRobots(): string {
+    return [
+        'User-agent: *',
+        ...DISALLOWED_PATHS.map(path => `Disallow: ${path}`),
+        '',
+        `Sitemap: ${clinicConfig.site.url}/${SITEMAP_FILE}`,
+        ''
+    ].join('\n');
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+    try {
+        return await readFile(path, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+// Swaps the block between the seo markers, markers included
+function replaceHead(html: string, head: string): string {
+    const start = html.indexOf(HEAD_START);
+    const end = html.indexOf(HEAD_END);
+    if (start === -1 || end < start) {
+        throw new Error(`${INDEX_FILE} must contain ${HEAD_START} and ${HEAD_END} inside <head>`);
+    }
+
+    const lineStart = html.lastIndexOf('\n', start) + 1;
+    return `${html.slice(0, lineStart)}${head}${html.slice(end + HEAD_END.length)}`;
+}
+
+async function run(checkOnly: boolean): Promise<void> {
+    const problems = await requiredFieldProblems();
+    if (problems.length > 0) {
+        throw new Error(`Cannot generate SEO files:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    const html = await readFile(INDEX_FILE, 'utf8');
+    const outputs: [string, string, string | null][] = [
+        [INDEX_FILE, replaceHead(html, buildHead()), html],
+        [SITEMAP_FILE, buildSitemap(), await readIfExists(SITEMAP_FILE)],
+        [ROBOTS_FILE, buildRobots(), await readIfExists(ROBOTS_FILE)]
+    ];
+    const outdated = outputs.filter(([, generated, current]) => generated !== current);
+
+    if (checkOnly) {
+        if (outdated.length > 0) {
+            throw new Error(`Out of date, run \`npm run seo\`: ${outdated.map(([path]) => path).join(', ')}`);
+        }
+        console.log('SEO files are up to date');
+        return;
+    }
+
+    for (const [path, generated] of outdated) {
+        await writeFile(path, generated, 'utf8');
+        console.log(`Wrote ${path}`);
+    }
+    if (outdated.length === 0) console.log('SEO files are up to date');
+}
+
+run(process.argv.includes('--check')).catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,70 @@
+// AAYURCURE API - Staff sign-in for the admin dashboard
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { AdminSession } from '../shared/types.js';
+import { AttemptLimiter } from './attempt-limiter.js';
+import { HttpError } from './http.js';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Sessions live in memory; a restart simply asks staff to sign in again
+export class AdminAuth {
+    private readonly passwordHash: Buffer;
+    private sessions = new Map<string, number>();
+    private limiter = new AttemptLimiter(MAX_FAILED_ATTEMPTS, LOCKOUT_MS);
+
+    constructor(password: string) {
+        this.passwordHash = this.hash(password);
+    }
+
+    login(password: string, request: IncomingMessage): AdminSession {
+        this.limiter.assertAllowed(request);
+
+        if (!timingSafeEqual(this.hash(password), this.passwordHash)) {
+            this.limiter.recordFailure(request);
+            throw new HttpError(401, 'Incorrect password');
+        }
+
+        const now = Date.now();
+        this.limiter.reset(request);
+        this.pruneExpired(now);
+
+        const token = randomBytes(32).toString('hex');
+        const expiresAt = now + SESSION_TTL_MS;
+        this.sessions.set(token, expiresAt);
+
+        return { token, expiresAt: new Date(expiresAt).toISOString() };
+    }
+
+    logout(request: IncomingMessage): void {
+        const token = this.readToken(request);
+        if (token) this.sessions.delete(token);
+    }
+
+    requireSession(request: IncomingMessage): void {
+        const token = this.readToken(request);
+        const expiresAt = token ? this.sessions.get(token) : undefined;
+
+        if (!token || !expiresAt || expiresAt <= Date.now()) {
+            if (token) this.sessions.delete(token);
+            throw new HttpError(401, 'Please sign in again');
+        }
+    }
+
+    private readToken(request: IncomingMessage): string {
+        const header = request.headers.authorization || '';
+        return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    }
+
+    private hash(value: string): Buffer {
+        return createHash('sha256').update(value, 'utf8').digest();
+    }
+
+    private pruneExpired(now: number): void {
+        this.sessions.forEach((expiresAt, token) => {
+            if (expiresAt <= now) this.sessions.delete(token);
+        });
+    }
+}
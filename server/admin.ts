@@ -0,0 +1,162 @@
+// AAYURCURE API - Admin dashboard routes (staff only)
+import { appointmentUid, buildIcs, type CalendarEvent } from '../shared/calendar-invite.js';
+import { getServiceName } from '../shared/clinic-config.js';
+import { isValidDate } from '../shared/dates.js';
+import type { AdminAppointmentList, Appointment } from '../shared/types.js';
+import type { AdminAuth } from './admin-auth.js';
+import type { AnalyticsService } from './analytics.js';
+import type { AppointmentService } from './appointments.js';
+import type { AuditLog } from './audit-log.js';
+import type { IntakeService } from './intake.js';
+import { HttpError, json, requireObject, stringField, type ApiRouter, type RouteHandler } from './http.js';
+import type { ReviewService } from './reviews.js';
+
+function toScheduleEvent(appointment: Appointment): CalendarEvent {
+    const service = getServiceName(appointment.serviceType) || 'Service not specified';
+    const lines = [
+        `Reference: ${appointment.reference}`,
+        `Phone: +91 ${appointment.phoneNumber}`,
+        `Service: ${service}`
+    ];
+    if (appointment.course) {
+        lines.push(`Session ${appointment.course.session} of ${appointment.course.sessions}`);
+    }
+    if (appointment.message.trim()) {
+        lines.push('', appointment.message.trim());
+    }
+
+    return {
+        uid: appointmentUid(appointment.reference),
+        date: appointment.preferredDate,
+        startTime: appointment.preferredTime,
+        durationMinutes: appointment.durationMinutes,
+        summary: `${appointment.patientName} - ${service}`,
+        description: lines.join('\n')
+    };
+}
+
+export function registerAdminRoutes(
+    router: ApiRouter,
+    auth: AdminAuth,
+    service: AppointmentService,
+    intakes: IntakeService,
+    analytics: AnalyticsService,
+    reviews: ReviewService,
+    audit: AuditLog
+): void {
+    // Every admin route except login needs a signed-in session
+    const staffOnly = (handler: RouteHandler): RouteHandler => context => {
+        auth.requireSession(context.request);
+        return handler(context);
+    };
+
+    router.post('/api/admin/login', async ({ request, readJson }) => {
+        const body = requireObject(await readJson());
+        const session = auth.login(stringField(body, 'password'), request);
+        await audit.record('staff', 'login');
+        return json(session);
+    });
+
+    router.post('/api/admin/logout', staffOnly(({ request }) => {
+        auth.logout(request);
+        return { status: 204 };
+    }));
+
+    router.get('/api/admin/appointments', staffOnly(async ({ query }) => {
+        const date = query.get('date') || '';
+        const list: AdminAppointmentList = {
+            date,
+            appointments: service.listByDate(date, query.get('service') || '')
+        };
+        await audit.record('staff', 'appointments.list', { detail: date || 'no date' });
+        return json(list);
+    }));
+
+    // Confirmed bookings for one day, for staff calendars
+    router.get('/api/admin/schedule.ics', staffOnly(async ({ query }) => {
+        const date = query.get('date') || '';
+        if (!isValidDate(date)) {
+            throw new HttpError(400, 'date must be in YYYY-MM-DD format');
+        }
+
+        const events = service.listByDate(date)
+            .filter(appointment => appointment.status === 'confirmed' && appointment.preferredTime)
+            .map(toScheduleEvent);
+        await audit.record('staff', 'schedule.export', { detail: date });
+
+        return {
+            status: 200,
+            body: buildIcs(events, `AAYURCURE schedule ${date}`),
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': `attachment; filename="aayurcure-schedule-${date}.ics"`
+            }
+        };
+    }));
+
+    // Booking funnel for a range of days; from and to default to the last 30 days
+    router.get('/api/admin/analytics', staffOnly(({ query }) => {
+        return json(analytics.report(query.get('from') || '', query.get('to') || ''));
+    }));
+
+    // Treatment courses with a session still to come, for the progress table
+    router.get('/api/admin/courses', staffOnly(async () => {
+        const courses = service.listCourses();
+        await audit.record('staff', 'courses.list');
+        return json(courses);
+    }));
+
+    router.get('/api/admin/appointments/:reference/availability', staffOnly(({ params, query }) => {
+        return json(service.getAvailability(
+            query.get('date') || '',
+            query.get('service') || '',
+            params.reference
+        ));
+    }));
+
+    router.get('/api/admin/appointments/:reference/intake', staffOnly(async ({ params }) => {
+        const intake = intakes.getForStaff(params.reference || '');
+        await audit.record('staff', 'intake.view', { reference: params.reference || '' });
+        return json(intake);
+    }));
+
+    router.post('/api/admin/appointments/:reference/status', staffOnly(async ({ params, readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await service.updateStatus(params.reference || '', stringField(body, 'status'));
+        await audit.record('staff', 'booking.status', { reference: appointment.reference, detail: appointment.status });
+        return json(appointment);
+    }));
+
+    router.post('/api/admin/appointments/:reference/reschedule', staffOnly(async ({ params, readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await service.reschedule(
+            params.reference || '',
+            stringField(body, 'preferredDate'),
+            stringField(body, 'preferredTime')
+        );
+        await audit.record('staff', 'booking.reschedule', { reference: appointment.reference });
+        return json(appointment);
+    }));
+
+    router.post('/api/admin/appointments/:reference/notes', staffOnly(async ({ params, readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await service.addNote(params.reference || '', stringField(body, 'text'));
+        await audit.record('staff', 'booking.note', { reference: appointment.reference });
+        return json(appointment, 201);
+    }));
+
+    // The moderation queue; status defaults to pending
+    router.get('/api/admin/reviews', staffOnly(async ({ query }) => {
+        const status = query.get('status') || 'pending';
+        const list = reviews.listForStaff(status);
+        await audit.record('staff', 'reviews.list', { detail: status });
+        return json(list);
+    }));
+
+    router.post('/api/admin/reviews/:reference/status', staffOnly(async ({ params, readJson }) => {
+        const body = requireObject(await readJson());
+        const review = await reviews.moderate(params.reference || '', stringField(body, 'status'));
+        await audit.record('staff', 'review.moderate', { reference: review.reference, detail: review.status });
+        return json(review);
+    }));
+}
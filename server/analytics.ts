@@ -0,0 +1,163 @@
+// AAYURCURE API - First-party booking funnel analytics
+// The website reports what visitors do on the way to a booking. Nothing here
+// identifies a patient: sessions are random per browser tab, events carry a
+// section, field or channel name but never what was typed, and the sender's
+// address is anonymised before anything is stored.
+import type { IncomingMessage } from 'node:http';
+import { isIPv4 } from 'node:net';
+import { addDays, clinicNow, isValidDate } from '../shared/dates.js';
+import type { AnalyticsEvent, AnalyticsEventName, AnalyticsReport, StoredAnalyticsEvent } from '../shared/types.js';
+import { AttemptLimiter } from './attempt-limiter.js';
+import type { Database } from './database.js';
+import { HttpError, requireObject, type ApiRouter } from './http.js';
+
+const EVENT_NAMES: AnalyticsEventName[] = [
+    'page_view',
+    'section_view',
+    'booking_start',
+    'validation_error',
+    'booking_submit',
+    'booking_complete',
+    'contact_choice'
+];
+const MAX_EVENTS_PER_REQUEST = 50;
+// A page sends a beacon every few events; an address past this is ignored for a while
+const MAX_BEACONS_PER_ADDRESS = 120;
+const BEACON_LOCKOUT_MS = 10 * 60 * 1000;
+// Events are saved together, so a beacon never rewrites the database by itself
+const SAVE_INTERVAL_MS = 60 * 1000;
+const MAX_UNSAVED_EVENTS = 5000;
+const DETAIL_PATTERN = /^[a-zA-Z0-9_-]{0,40}$/;
+const SESSION_PATTERN = /^[a-f0-9]{16,64}$/;
+const RETENTION_DAYS = 180;
+const DEFAULT_REPORT_DAYS = 30;
+
+// Each step counts the visits that got at least that far
+const FUNNEL_STEPS: { step: string; reached: (event: AnalyticsEvent) => boolean }[] = [
+    { step: 'Visited the website', reached: event => event.name === 'page_view' },
+    { step: 'Saw the booking form', reached: event => event.name === 'section_view' && event.detail === 'book' },
+    { step: 'Started filling it in', reached: event => event.name === 'booking_start' },
+    { step: 'Submitted it', reached: event => event.name === 'booking_submit' },
+    { step: 'Booking made', reached: event => event.name === 'booking_complete' }
+];
+
+// IPv4 keeps the first three octets, IPv6 the first three groups (/48)
+export function anonymizeIp(address: string): string {
+    const ipv4 = address.replace(/^::ffff:/, '');
+    if (isIPv4(ipv4)) {
+        return ipv4.replace(/\.\d+$/, '.0');
+    }
+
+    const groups = address.split(':');
+    if (groups.length < 3) return '';
+    return `${groups.slice(0, 3).join(':')}::`;
+}
+
+// Events wait in memory until the next save; a crash loses at most a minute of them
+export class AnalyticsService {
+    private unsaved: StoredAnalyticsEvent[] = [];
+    private limiter = new AttemptLimiter(MAX_BEACONS_PER_ADDRESS, BEACON_LOCKOUT_MS);
+
+    constructor(private readonly db: Database) {}
+
+    start(): void {
+        setInterval(() => void this.save(), SAVE_INTERVAL_MS);
+    }
+
+    // Events that don't look like the website's own are dropped rather than rejected
+    record(input: unknown, request: IncomingMessage): number {
+        this.limiter.assertAllowed(request);
+        this.limiter.recordFailure(request);
+        if (!Array.isArray(input)) {
+            throw new HttpError(400, 'events must be an array');
+        }
+
+        const receivedAt = new Date().toISOString();
+        const ip = anonymizeIp(request.socket.remoteAddress || '');
+        const events: StoredAnalyticsEvent[] = input
+            .slice(0, MAX_EVENTS_PER_REQUEST)
+            .filter(isAnalyticsEvent)
+            .map(event => ({ name: event.name, detail: event.detail, sessionId: event.sessionId, receivedAt, ip }))
+            .slice(0, MAX_UNSAVED_EVENTS - this.unsaved.length);
+
+        this.unsaved.push(...events);
+        return events.length;
+    }
+
+    // One database write for everything received since the last save
+    async save(): Promise<number> {
+        if (this.unsaved.length === 0) return 0;
+
+        const events = this.unsaved.splice(0);
+        const oldest = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        await this.db.update(data => {
+            data.analyticsEvents = data.analyticsEvents.filter(event => event.receivedAt >= oldest);
+            data.analyticsEvents.push(...events);
+        });
+        return events.length;
+    }
+
+    // Both dates are clinic days and included; the default is the last 30 days
+    report(from: string, to: string): AnalyticsReport {
+        const today = clinicNow().date;
+        const end = to || today;
+        const start = from || addDays(end, -(DEFAULT_REPORT_DAYS - 1));
+        if (!isValidDate(start) || !isValidDate(end)) {
+            throw new HttpError(400, 'from and to must be in YYYY-MM-DD format');
+        }
+        if (start > end) {
+            throw new HttpError(400, 'from must not be after to');
+        }
+
+        const events = [...this.db.query(data => data.analyticsEvents), ...this.unsaved].filter(event => {
+            const day = clinicNow(new Date(event.receivedAt)).date;
+            return day >= start && day <= end;
+        });
+
+        return {
+            from: start,
+            to: end,
+            funnel: FUNNEL_STEPS.map(({ step, reached }) => ({
+                step,
+                sessions: new Set(events.filter(reached).map(event => event.sessionId)).size
+            })),
+            sections: countDetails(events, 'section_view', true),
+            validationErrors: countDetails(events, 'validation_error', false),
+            contactChoices: countDetails(events, 'contact_choice', true)
+        };
+    }
+}
+
+function isAnalyticsEvent(value: unknown): value is AnalyticsEvent {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const event = value as Record<string, unknown>;
+    return EVENT_NAMES.includes(event.name as AnalyticsEventName)
+        && typeof event.detail === 'string' && DETAIL_PATTERN.test(event.detail)
+        && typeof event.sessionId === 'string' && SESSION_PATTERN.test(event.sessionId);
+}
+
+// Per detail, either distinct visits or every event
+function countDetails(events: StoredAnalyticsEvent[], name: AnalyticsEventName, perSession: boolean): Record<string, number> {
+    const seen = new Map<string, Set<string>>();
+    const counts: Record<string, number> = {};
+
+    events.filter(event => event.name === name).forEach(event => {
+        const sessions = seen.get(event.detail) ?? new Set<string>();
+        seen.set(event.detail, sessions);
+        if (perSession && sessions.has(event.sessionId)) return;
+
+        sessions.add(event.sessionId);
+        counts[event.detail] = (counts[event.detail] || 0) + 1;
+    });
+    return counts;
+}
+
+export function registerAnalyticsRoutes(router: ApiRouter, analytics: AnalyticsService): void {
+    // Sent with navigator.sendBeacon, which ignores the response
+    router.post('/api/analytics/events', async ({ request, readJson }) => {
+        const body = requireObject(await readJson());
+        analytics.record(body.events, request);
+        return { status: 204 };
+    });
+}
@@ -0,0 +1,616 @@
+// AAYURCURE API - Appointment bookings
+import { randomInt } from 'node:crypto';
+import { CoursePlanner } from '../shared/courses.js';
+import { clinicNow, isValidDate } from '../shared/dates.js';
+import { t } from '../shared/i18n.js';
+import { BOOKING_CONSENT_PURPOSES } from '../shared/privacy.js';
+import { SlotScheduler, toMinutes, type ScheduledBooking } from '../shared/scheduling.js';
+import { FormValidator } from '../shared/validation.js';
+import type {
+    Appointment,
+    AppointmentFormData,
+    AppointmentReceipt,
+    AppointmentStatus,
+    AvailabilityResponse,
+    CoursePlan,
+    CourseProgress,
+    CourseSession,
+    PatientBooking,
+    PlannedSession
+} from '../shared/types.js';
+import type { AuditLog } from './audit-log.js';
+import type { Database, DatabaseSchema } from './database.js';
+import { HttpError, json, localeField, requireObject, stringField, type ApiRouter } from './http.js';
+import type { PhoneVerification } from './phone-verification.js';
+import { heldSlots, isOpen } from './waitlist.js';
+
+const FORM_FIELDS: (keyof AppointmentFormData)[] = [
+    'patientName',
+    'phoneNumber',
+    'serviceType',
+    'preferredDate',
+    'preferredTime',
+    'message',
+    'courseSessions'
+];
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = ['pending', 'confirmed', 'cancelled', 'no-show'];
+
+// Statuses that hold a slot in the schedule
+const ACTIVE_STATUSES: AppointmentStatus[] = ['pending', 'confirmed'];
+
+const MAX_NOTE_LENGTH = 2000;
+
+// Unambiguous characters only - references get read out over the phone
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export type AppointmentListener = (appointment: Appointment) => void;
+
+export class AppointmentService {
+    private listeners: AppointmentListener[] = [];
+
+    constructor(
+        private readonly db: Database,
+        private readonly verification: PhoneVerification
+    ) {}
+
+    // One booking per session when a treatment course is chosen, in session order
+    async create(input: unknown): Promise<Appointment[]> {
+        const formData = this.parseFormData(input);
+        const validation = FormValidator.validateForm(formData);
+
+        // Explicit agreement to the current privacy notice (DPDP Act)
+        const consentNoticeVersion = stringField(requireObject(input), 'consentNoticeVersion');
+        const consentError = FormValidator.validateConsent(consentNoticeVersion);
+
+        if (!validation.isValid || consentError) {
+            const errors = consentError ? { ...validation.errors, consent: consentError } : validation.errors;
+            throw new HttpError(422, 'Please fix the errors in your request', errors);
+        }
+
+        // Only numbers the patient proved they can receive messages on
+        const verificationToken = stringField(requireObject(input), 'verificationToken');
+        this.verification.assertVerified(verificationToken, formData.phoneNumber);
+        const locale = localeField(requireObject(input));
+
+        const { courseSessions, ...details } = formData;
+        return this.changeAll(data => {
+            // Checked inside the update so two requests can never take the same slot
+            const sessions = courseSessions
+                ? this.planCourseOrThrow(details, Number(courseSessions), this.scheduledSlots(data))
+                : [{ date: details.preferredDate, time: details.preferredTime }];
+            // Therapy slots take more than one patient, but not the same one twice
+            if (sessions.some(session => session.date && data.appointments.some(appointment =>
+                appointment.phoneNumber === details.phoneNumber && ACTIVE_STATUSES.includes(appointment.status)
+                && appointment.preferredDate === session.date && appointment.preferredTime === session.time))) {
+                throw new HttpError(409, 'You already have a booking at this time', {
+                    preferredTime: 'You already have a booking at this time - please choose another time'
+                });
+            }
+            if (!courseSessions && details.preferredDate && !SlotScheduler.isSlotAvailable(
+                details.preferredDate, details.preferredTime, details.serviceType, this.scheduledSlots(data)
+            )) {
+                throw new HttpError(409, 'That time slot is no longer available', {
+                    preferredTime: 'This slot was just booked - please choose another time'
+                });
+            }
+
+            const now = new Date().toISOString();
+            const created: Appointment[] = [];
+            sessions.forEach((session, index) => {
+                const appointment: Appointment = {
+                    ...details,
+                    preferredDate: session.date,
+                    preferredTime: session.time,
+                    reference: this.generateReference(data.appointments),
+                    status: 'pending',
+                    durationMinutes: SlotScheduler.getServiceSchedule(details.serviceType).durationMinutes,
+                    internalNotes: [],
+                    phoneVerified: true,
+                    consent: {
+                        purposes: [...BOOKING_CONSENT_PURPOSES],
+                        noticeVersion: consentNoticeVersion,
+                        givenAt: now
+                    },
+                    locale,
+                    createdAt: now,
+                    updatedAt: now
+                };
+                if (courseSessions) {
+                    appointment.course = {
+                        reference: created[0]?.reference ?? appointment.reference,
+                        session: index + 1,
+                        sessions: sessions.length
+                    };
+                }
+
+                data.appointments.push(appointment);
+                created.push(appointment);
+            });
+            return created;
+        });
+    }
+
+    // The sessions a course would get if booked now; empty when it does not fit
+    planCourse(serviceType: string, sessions: string, date: string, time: string): CoursePlan {
+        const errors: Record<string, string> = {};
+        const courseError = FormValidator.validateCourse(serviceType, sessions, date)
+            || (sessions ? '' : t('validation.courseInvalid'));
+        const dateError = FormValidator.validateDate(date);
+        const timeError = FormValidator.validateTime(date, time, serviceType);
+        if (courseError) errors.courseSessions = courseError;
+        if (dateError) errors.preferredDate = dateError;
+        if (timeError) errors.preferredTime = timeError;
+
+        if (Object.keys(errors).length > 0) {
+            throw new HttpError(400, 'Please choose a course, a start date and a time', errors);
+        }
+
+        const planned = this.db.query(data =>
+            CoursePlanner.plan(serviceType, Number(sessions), date, time, this.scheduledSlots(data)));
+        return { serviceType, sessions: planned ?? [] };
+    }
+
+    // Every session of the course this booking belongs to, in order ([] for a single visit)
+    findCourse(appointment: Appointment): Appointment[] {
+        const course = appointment.course;
+        if (!course) return [];
+
+        return this.db.query(data => data.appointments
+            .filter(candidate => candidate.course?.reference === course.reference)
+            .sort((a, b) => (a.course?.session ?? 0) - (b.course?.session ?? 0)));
+    }
+
+    // Courses with a session still to come, the soonest first
+    listCourses(): CourseProgress[] {
+        const courses = new Map<string, Appointment[]>();
+        this.db.query(data => data.appointments).forEach(appointment => {
+            if (!appointment.course) return;
+            const sessions = courses.get(appointment.course.reference) ?? [];
+            sessions.push(appointment);
+            courses.set(appointment.course.reference, sessions);
+        });
+
+        const progress: CourseProgress[] = [];
+        courses.forEach((sessions, reference) => {
+            const ordered = sessions.sort((a, b) => (a.course?.session ?? 0) - (b.course?.session ?? 0));
+            const next = ordered.find(session => ACTIVE_STATUSES.includes(session.status) && !isVisitOver(session)) ?? null;
+            const first = ordered[0];
+            if (!next || !first) return;
+
+            progress.push({
+                reference,
+                patientName: first.patientName,
+                phoneNumber: first.phoneNumber,
+                serviceType: first.serviceType,
+                sessions: first.course?.sessions ?? ordered.length,
+                completed: ordered.filter(isVisitOver).length,
+                missed: ordered.filter(session => session.status === 'no-show').length,
+                cancelled: ordered.filter(session => session.status === 'cancelled').length,
+                next: toCourseSession(next)
+            });
+        });
+
+        return progress.sort((a, b) => (a.next?.preferredDate ?? '').localeCompare(b.next?.preferredDate ?? '')
+            || (a.next?.preferredTime ?? '').localeCompare(b.next?.preferredTime ?? ''));
+    }
+
+    // Called after a booking is created, moved or changes status
+    onChange(listener: AppointmentListener): void {
+        this.listeners.push(listener);
+    }
+
+    // excludeReference lets an existing booking see the slots it could move into
+    getAvailability(date: string, serviceType: string, excludeReference: string = ''): AvailabilityResponse {
+        if (!isValidDate(date)) {
+            throw new HttpError(400, 'date must be in YYYY-MM-DD format');
+        }
+
+        const slots = this.db.query(data => SlotScheduler.getAvailableSlots(
+            date,
+            serviceType,
+            this.scheduledSlots(data, excludeReference)
+        ));
+
+        return { date, serviceType, slots };
+    }
+
+    // All requests for one day ('' lists requests without a preferred date)
+    listByDate(date: string, serviceType: string = ''): Appointment[] {
+        if (date && !isValidDate(date)) {
+            throw new HttpError(400, 'date must be in YYYY-MM-DD format');
+        }
+
+        return this.db.query(data => data.appointments
+            .filter(appointment => appointment.preferredDate === date)
+            .filter(appointment => !serviceType || appointment.serviceType === serviceType)
+            .sort((a, b) => a.preferredTime.localeCompare(b.preferredTime)
+                || a.createdAt.localeCompare(b.createdAt)));
+    }
+
+    async updateStatus(reference: string, status: string): Promise<Appointment> {
+        if (!APPOINTMENT_STATUSES.includes(status as AppointmentStatus)) {
+            throw new HttpError(400, `status must be one of: ${APPOINTMENT_STATUSES.join(', ')}`);
+        }
+
+        return this.change(data => {
+            const appointment = this.findOrThrow(data, reference);
+            const nextStatus = status as AppointmentStatus;
+
+            // Reviving a cancelled or no-show booking takes its slot back
+            const reactivating = !ACTIVE_STATUSES.includes(appointment.status) && ACTIVE_STATUSES.includes(nextStatus);
+            if (reactivating && appointment.preferredDate && !this.isSlotFree(data, appointment)) {
+                throw new HttpError(409, 'That slot has been taken by another booking - reschedule instead');
+            }
+
+            appointment.status = nextStatus;
+            appointment.updatedAt = new Date().toISOString();
+            return appointment;
+        });
+    }
+
+    async reschedule(reference: string, preferredDate: string, preferredTime: string): Promise<Appointment> {
+        this.validateNewSlot(preferredDate, preferredTime);
+
+        return this.change(data => {
+            const appointment = this.findOrThrow(data, reference);
+            this.moveAppointment(data, appointment, preferredDate, preferredTime);
+            return appointment;
+        });
+    }
+
+    async addNote(reference: string, text: string): Promise<Appointment> {
+        if (!text) {
+            throw new HttpError(422, 'Note cannot be empty', { text: 'Please write a note' });
+        }
+        if (text.length > MAX_NOTE_LENGTH) {
+            throw new HttpError(422, `Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+        }
+
+        return this.db.update(data => {
+            const appointment = this.findOrThrow(data, reference);
+            const now = new Date().toISOString();
+
+            appointment.internalNotes.push({ text, createdAt: now });
+            appointment.updatedAt = now;
+            return appointment;
+        });
+    }
+
+    // Patient self-service: the reference plus the phone number used to book it
+    findForPatient(reference: string, phoneNumber: string): Appointment {
+        const key = this.parsePatientKey(reference, phoneNumber);
+        return this.db.query(data => this.findForPatientOrThrow(data, key.reference, key.phoneNumber));
+    }
+
+    getPatientAvailability(reference: string, phoneNumber: string, date: string): AvailabilityResponse {
+        const appointment = this.findForPatient(reference, phoneNumber);
+        return this.getAvailability(date, appointment.serviceType, appointment.reference);
+    }
+
+    // A patient's move goes back to pending so the clinic can confirm the new time
+    async rescheduleForPatient(
+        reference: string,
+        phoneNumber: string,
+        preferredDate: string,
+        preferredTime: string
+    ): Promise<Appointment> {
+        const key = this.parsePatientKey(reference, phoneNumber);
+        this.validateNewSlot(preferredDate, preferredTime);
+
+        return this.change(data => {
+            const appointment = this.findForPatientOrThrow(data, key.reference, key.phoneNumber);
+            this.assertNotPast(appointment);
+
+            const previous = this.describeSlot(appointment);
+            this.moveAppointment(data, appointment, preferredDate, preferredTime);
+            appointment.status = 'pending';
+            appointment.internalNotes.push({
+                text: `Patient rescheduled from ${previous} to ${this.describeSlot(appointment)}`,
+                createdAt: appointment.updatedAt
+            });
+            return appointment;
+        });
+    }
+
+    async cancelForPatient(reference: string, phoneNumber: string, reason: string): Promise<Appointment> {
+        const key = this.parsePatientKey(reference, phoneNumber);
+        const reasonError = FormValidator.validateCancellationReason(reason);
+        if (reasonError) {
+            throw new HttpError(422, 'Please tell us why you are cancelling', { reason: reasonError });
+        }
+
+        return this.change(data => {
+            const appointment = this.findForPatientOrThrow(data, key.reference, key.phoneNumber);
+
+            if (!ACTIVE_STATUSES.includes(appointment.status)) {
+                throw new HttpError(409, `This booking is already ${appointment.status}`);
+            }
+            this.assertNotPast(appointment);
+
+            appointment.status = 'cancelled';
+            appointment.cancellationReason = reason.trim();
+            appointment.updatedAt = new Date().toISOString();
+            return appointment;
+        });
+    }
+
+    // The waitlisted patient takes the slot held for them; details and consent come from their entry
+    async bookWaitlistOffer(token: string): Promise<Appointment> {
+        return this.change(data => {
+            const entry = data.waitlist.find(candidate => candidate.offer?.token === token);
+            if (!entry?.offer) {
+                throw new HttpError(404, 'This offer was not found - it may have been replaced by a newer one');
+            }
+            if (!isOpen(entry)) {
+                throw new HttpError(409, 'This offer is no longer open');
+            }
+
+            const { date, time } = entry.offer;
+            const others = [
+                ...data.appointments,
+                ...heldSlots(data.waitlist.filter(other => other !== entry))
+            ];
+            if (!SlotScheduler.isSlotAvailable(date, time, entry.serviceType, others)) {
+                throw new HttpError(409, 'That time slot is no longer available');
+            }
+
+            const now = new Date().toISOString();
+            const appointment: Appointment = {
+                patientName: entry.patientName,
+                phoneNumber: entry.phoneNumber,
+                serviceType: entry.serviceType,
+                preferredDate: date,
+                preferredTime: time,
+                message: '',
+                reference: this.generateReference(data.appointments),
+                status: 'pending',
+                durationMinutes: SlotScheduler.getServiceSchedule(entry.serviceType).durationMinutes,
+                internalNotes: [{ text: 'Booked from a waitlist offer', createdAt: now }],
+                phoneVerified: true,
+                consent: entry.consent,
+                createdAt: now,
+                updatedAt: now
+            };
+            if (entry.locale) appointment.locale = entry.locale;
+            data.appointments.push(appointment);
+
+            entry.status = 'booked';
+            entry.reference = appointment.reference;
+            entry.updatedAt = now;
+            return appointment;
+        });
+    }
+
+    private async change(writer: (data: DatabaseSchema) => Appointment): Promise<Appointment> {
+        const appointment = await this.db.update(writer);
+        this.listeners.forEach(listener => listener(appointment));
+        return appointment;
+    }
+
+    private async changeAll(writer: (data: DatabaseSchema) => Appointment[]): Promise<Appointment[]> {
+        const appointments = await this.db.update(writer);
+        appointments.forEach(appointment => this.listeners.forEach(listener => listener(appointment)));
+        return appointments;
+    }
+
+    private planCourseOrThrow(
+        details: Omit<AppointmentFormData, 'courseSessions'>,
+        sessions: number,
+        appointments: readonly ScheduledBooking[]
+    ): PlannedSession[] {
+        const planned = CoursePlanner.plan(
+            details.serviceType, sessions, details.preferredDate, details.preferredTime, appointments
+        );
+        if (!planned) {
+            throw new HttpError(409, 'The clinic cannot fit every session of this course', {
+                preferredDate: 'Not enough free days from this date - please choose another start date'
+            });
+        }
+        return planned;
+    }
+
+    private findOrThrow(data: DatabaseSchema, reference: string): Appointment {
+        const appointment = data.appointments.find(candidate => candidate.reference === reference);
+        if (!appointment) {
+            throw new HttpError(404, 'Booking not found');
+        }
+        return appointment;
+    }
+
+    // Same wording for a wrong reference and a wrong phone so neither can be probed
+    private findForPatientOrThrow(data: DatabaseSchema, reference: string, phoneNumber: string): Appointment {
+        const appointment = data.appointments.find(candidate =>
+            candidate.reference === reference && candidate.phoneNumber === phoneNumber);
+        if (!appointment) {
+            throw new HttpError(404, 'We could not find a booking with that reference and phone number');
+        }
+        return appointment;
+    }
+
+    private parsePatientKey(reference: string, phoneNumber: string): { reference: string; phoneNumber: string } {
+        const errors: Record<string, string> = {};
+        const referenceError = FormValidator.validateReference(reference);
+        const phoneError = FormValidator.validatePhone(phoneNumber);
+        if (referenceError) errors.reference = referenceError;
+        if (phoneError) errors.phoneNumber = phoneError;
+
+        if (Object.keys(errors).length > 0) {
+            throw new HttpError(422, 'Please check your booking reference and phone number', errors);
+        }
+
+        return {
+            reference: reference.trim().toUpperCase(),
+            phoneNumber: phoneNumber.replace(/\D/g, '')
+        };
+    }
+
+    private validateNewSlot(preferredDate: string, preferredTime: string): void {
+        const errors: Record<string, string> = {};
+        const dateError = FormValidator.validateDate(preferredDate) || (preferredDate ? '' : t('validation.dateRequired'));
+        const timeError = FormValidator.validateTime(preferredDate, preferredTime);
+        if (dateError) errors.preferredDate = dateError;
+        if (timeError) errors.preferredTime = timeError;
+
+        if (Object.keys(errors).length > 0) {
+            throw new HttpError(422, 'Please choose a valid new date and time', errors);
+        }
+    }
+
+    private moveAppointment(data: DatabaseSchema, appointment: Appointment, preferredDate: string, preferredTime: string): void {
+        if (!ACTIVE_STATUSES.includes(appointment.status)) {
+            throw new HttpError(409, `A ${appointment.status} booking cannot be rescheduled`);
+        }
+
+        const moved = { ...appointment, preferredDate, preferredTime };
+        if (!this.isSlotFree(data, moved)) {
+            throw new HttpError(409, 'That time slot is no longer available', {
+                preferredTime: 'This slot is already booked - please choose another time'
+            });
+        }
+
+        appointment.preferredDate = preferredDate;
+        appointment.preferredTime = preferredTime;
+        appointment.updatedAt = new Date().toISOString();
+    }
+
+    private assertNotPast(appointment: Appointment): void {
+        if (appointment.preferredDate && appointment.preferredDate < clinicNow().date) {
+            throw new HttpError(409, 'This appointment date has passed - please call the clinic');
+        }
+    }
+
+    private describeSlot(appointment: Appointment): string {
+        return appointment.preferredDate
+            ? `${appointment.preferredDate} ${appointment.preferredTime}`
+            : 'no date';
+    }
+
+    private isSlotFree(data: DatabaseSchema, appointment: Appointment): boolean {
+        return SlotScheduler.isSlotAvailable(
+            appointment.preferredDate,
+            appointment.preferredTime,
+            appointment.serviceType,
+            this.scheduledSlots(data, appointment.reference)
+        );
+    }
+
+    // Bookings plus the slots held for open waitlist offers
+    private scheduledSlots(data: Readonly<DatabaseSchema>, excludeReference: string = ''): ScheduledBooking[] {
+        return [
+            ...data.appointments.filter(appointment => appointment.reference !== excludeReference),
+            ...heldSlots(data.waitlist)
+        ];
+    }
+
+    private parseFormData(input: unknown): AppointmentFormData {
+        const source = requireObject(input, 'Appointment details are required');
+        const formData = {} as AppointmentFormData;
+
+        FORM_FIELDS.forEach(field => {
+            formData[field] = stringField(source, field);
+        });
+
+        formData.phoneNumber = formData.phoneNumber.replace(/\D/g, '');
+        return formData;
+    }
+
+    // e.g. AYR-20261019-K7QF
+    private generateReference(existing: readonly Appointment[]): string {
+        const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        let reference: string;
+
+        do {
+            let suffix = '';
+            for (let i = 0; i < 4; i++) {
+                suffix += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)];
+            }
+            reference = `AYR-${datePart}-${suffix}`;
+        } while (existing.some(appointment => appointment.reference === reference));
+
+        return reference;
+    }
+}
+
+// Only confirmed bookings are visits; a booking without a time counts once its day is over
+export function isVisitOver(appointment: Appointment): boolean {
+    if (appointment.status !== 'confirmed' || !appointment.preferredDate) return false;
+
+    const now = clinicNow();
+    if (appointment.preferredDate !== now.date) return appointment.preferredDate < now.date;
+    return Boolean(appointment.preferredTime)
+        && toMinutes(appointment.preferredTime) + appointment.durationMinutes <= now.minutes;
+}
+
+function toCourseSession(appointment: Appointment): CourseSession {
+    return {
+        reference: appointment.reference,
+        status: appointment.status,
+        preferredDate: appointment.preferredDate,
+        preferredTime: appointment.preferredTime
+    };
+}
+
+// appointments holds every session of a course; the first is the one to quote
+function toReceipt(appointments: Appointment[]): AppointmentReceipt {
+    // create() always stores at least one booking
+    const first = appointments[0]!;
+    const receipt: AppointmentReceipt = {
+        reference: first.reference,
+        status: first.status
+    };
+    if (first.course) receipt.sessions = appointments.map(toCourseSession);
+    return receipt;
+}
+
+// course lists every session when the booking is part of a treatment course
+export function toPatientBooking(
+    appointment: Appointment,
+    remindersEnabled: boolean,
+    canReview: boolean,
+    course: Appointment[] = []
+): PatientBooking {
+    const booking: PatientBooking = {
+        reference: appointment.reference,
+        status: appointment.status,
+        patientName: appointment.patientName,
+        serviceType: appointment.serviceType,
+        preferredDate: appointment.preferredDate,
+        preferredTime: appointment.preferredTime,
+        durationMinutes: appointment.durationMinutes,
+        remindersEnabled,
+        canReview
+    };
+    if (appointment.course) {
+        booking.course = { ...appointment.course, bookings: course.map(toCourseSession) };
+    }
+    return booking;
+}
+
+export function registerAppointmentRoutes(router: ApiRouter, service: AppointmentService, audit: AuditLog): void {
+    router.post('/api/appointments', async ({ readJson }) => {
+        const appointments = await service.create(await readJson());
+        for (const appointment of appointments) {
+            const course = appointment.course;
+            await audit.record('patient', 'booking.create', {
+                reference: appointment.reference,
+                phoneNumber: appointment.phoneNumber,
+                detail: course ? `Session ${course.session} of ${course.sessions} in course ${course.reference}` : ''
+            });
+        }
+        return json(toReceipt(appointments), 201);
+    });
+
+    router.get('/api/courses/plan', ({ query }) => {
+        return json(service.planCourse(
+            query.get('service') || '',
+            query.get('sessions') || '',
+            query.get('date') || '',
+            query.get('time') || ''
+        ));
+    });
+
+    router.get('/api/availability', ({ query }) => {
+        return json(service.getAvailability(query.get('date') || '', query.get('service') || ''));
+    });
+}
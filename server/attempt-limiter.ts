@@ -0,0 +1,44 @@
+// AAYURCURE API - Lockout after repeated failed attempts from one address
+import type { IncomingMessage } from 'node:http';
+import { HttpError } from './http.js';
+
+interface FailedAttempts {
+    count: number;
+    lockedUntil: number;
+}
+
+// Counts live in memory; a restart clears every lockout
+export class AttemptLimiter {
+    private failures = new Map<string, FailedAttempts>();
+
+    constructor(
+        private readonly maxAttempts: number,
+        private readonly lockoutMs: number
+    ) {}
+
+    assertAllowed(request: IncomingMessage): void {
+        const attempts = this.failures.get(this.clientKey(request));
+        if (attempts && attempts.lockedUntil > Date.now()) {
+            throw new HttpError(429, 'Too many failed attempts - please try again later');
+        }
+    }
+
+    recordFailure(request: IncomingMessage): void {
+        const client = this.clientKey(request);
+        const count = (this.failures.get(client)?.count || 0) + 1;
+        const locked = count >= this.maxAttempts;
+
+        this.failures.set(client, {
+            count: locked ? 0 : count,
+            lockedUntil: locked ? Date.now() + this.lockoutMs : 0
+        });
+    }
+
+    reset(request: IncomingMessage): void {
+        this.failures.delete(this.clientKey(request));
+    }
+
+    private clientKey(request: IncomingMessage): string {
+        return request.socket.remoteAddress || 'unknown';
+    }
+}
@@ -0,0 +1,54 @@
+// AAYURCURE API - Audit log of every access to patient data
+// One JSON line per access, appended to its own file rather than the database
+// so that erasing a patient's data still leaves a record that it happened.
+// Entries carry the booking reference and a masked phone number, never names
+// or health details.
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// Staff share one dashboard password, so they are not told apart
+export type AuditActor = 'patient' | 'staff' | 'system';
+
+export interface AuditDetails {
+    reference?: string;
+    phoneNumber?: string;
+    // e.g. the day a staff list covered
+    detail?: string;
+}
+
+interface AuditEntry extends Omit<AuditDetails, 'phoneNumber'> {
+    at: string;
+    actor: AuditActor;
+    action: string;
+    phone?: string;
+}
+
+// "9876543210" -> "******3210"
+export function maskPhone(phoneNumber: string): string {
+    const digits = phoneNumber.replace(/\D/g, '');
+    return `${'*'.repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+}
+
+export class AuditLog {
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {}
+
+    // Resolves once the entry is on disk; a failed write fails the request that caused it
+    record(actor: AuditActor, action: string, details: AuditDetails = {}): Promise<void> {
+        const entry: AuditEntry = { at: new Date().toISOString(), actor, action };
+        if (details.reference) entry.reference = details.reference;
+        if (details.phoneNumber) entry.phone = maskPhone(details.phoneNumber);
+        if (details.detail) entry.detail = details.detail;
+
+        const line = `${JSON.stringify(entry)}\n`;
+        const write = this.writeQueue
+            .catch(() => undefined)
+            .then(async () => {
+                await mkdir(dirname(this.filePath), { recursive: true });
+                await appendFile(this.filePath, line, 'utf8');
+            });
+        this.writeQueue = write;
+        return write;
+    }
+}
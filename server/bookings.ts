@@ -0,0 +1,127 @@
+// AAYURCURE API - "Manage my booking" routes for patients
+// Every request carries the booking reference and the phone number used to
+// book it; phone numbers stay in the body so they never reach access logs.
+import type { Appointment } from '../shared/types.js';
+import { toPatientBooking, type AppointmentService } from './appointments.js';
+import { AttemptLimiter } from './attempt-limiter.js';
+import type { AuditLog } from './audit-log.js';
+import { HttpError, json, requireObject, stringField, type ApiRouter, type RouteHandler } from './http.js';
+import type { IntakeService } from './intake.js';
+import type { ReminderScheduler } from './reminders.js';
+import type { ReviewService } from './reviews.js';
+
+const MAX_FAILED_LOOKUPS = 10;
+const LOOKUP_LOCKOUT_MS = 15 * 60 * 1000;
+
+export function registerBookingRoutes(
+    router: ApiRouter,
+    service: AppointmentService,
+    reminders: ReminderScheduler,
+    intakes: IntakeService,
+    reviews: ReviewService,
+    audit: AuditLog
+): void {
+    const limiter = new AttemptLimiter(MAX_FAILED_LOOKUPS, LOOKUP_LOCKOUT_MS);
+    const record = (action: string, reference: string, phoneNumber: string) =>
+        audit.record('patient', action, { reference: reference.toUpperCase(), phoneNumber });
+    const reply = async (action: string, appointment: Appointment) => {
+        await record(action, appointment.reference, appointment.phoneNumber);
+        return json(toPatientBooking(
+            appointment,
+            reminders.isEnabled(appointment.phoneNumber),
+            reviews.canReview(appointment),
+            service.findCourse(appointment)
+        ));
+    };
+
+    // Repeated misses from one address look like guessing references
+    const limited = (handler: RouteHandler): RouteHandler => async context => {
+        limiter.assertAllowed(context.request);
+        try {
+            return await handler(context);
+        } catch (error) {
+            if (error instanceof HttpError && error.status === 404) {
+                limiter.recordFailure(context.request);
+            }
+            throw error;
+        }
+    };
+
+    router.post('/api/bookings/lookup', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = service.findForPatient(stringField(body, 'reference'), stringField(body, 'phoneNumber'));
+        return reply('booking.view', appointment);
+    }));
+
+    router.post('/api/bookings/availability', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const availability = service.getPatientAvailability(
+            stringField(body, 'reference'),
+            stringField(body, 'phoneNumber'),
+            stringField(body, 'date')
+        );
+        await record('booking.availability', stringField(body, 'reference'), stringField(body, 'phoneNumber'));
+        return json(availability);
+    }));
+
+    router.post('/api/bookings/reschedule', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await service.rescheduleForPatient(
+            stringField(body, 'reference'),
+            stringField(body, 'phoneNumber'),
+            stringField(body, 'preferredDate'),
+            stringField(body, 'preferredTime')
+        );
+        return reply('booking.reschedule', appointment);
+    }));
+
+    router.post('/api/bookings/cancel', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await service.cancelForPatient(
+            stringField(body, 'reference'),
+            stringField(body, 'phoneNumber'),
+            stringField(body, 'reason')
+        );
+        return reply('booking.cancel', appointment);
+    }));
+
+    // Turns confirmations, reminders and follow-ups on or off for the booking's phone number
+    router.post('/api/bookings/reminders', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        if (typeof body.enabled !== 'boolean') {
+            throw new HttpError(400, 'enabled must be true or false');
+        }
+
+        const appointment = service.findForPatient(stringField(body, 'reference'), stringField(body, 'phoneNumber'));
+        await reminders.setEnabled(appointment.phoneNumber, body.enabled);
+        return reply('booking.reminders', appointment);
+    }));
+
+    // The health questionnaire; null until the first step is saved
+    router.post('/api/bookings/intake', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const intake = intakes.getForPatient(stringField(body, 'reference'), stringField(body, 'phoneNumber'));
+        await record('intake.view', stringField(body, 'reference'), stringField(body, 'phoneNumber'));
+        return json(intake);
+    }));
+
+    router.post('/api/bookings/intake/save', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const intake = await intakes.save(
+            stringField(body, 'reference'),
+            stringField(body, 'phoneNumber'),
+            body.answers,
+            stringField(body, 'step'),
+            body.submit === true
+        );
+        await record(body.submit === true ? 'intake.submit' : 'intake.save', intake.reference, stringField(body, 'phoneNumber'));
+        return json(intake);
+    }));
+
+    // One review per visit; it waits for staff approval before it is published
+    router.post('/api/bookings/review', limited(async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        const appointment = await reviews.submit(stringField(body, 'reference'), stringField(body, 'phoneNumber'), body);
+        return reply('review.submit', appointment);
+    }));
+}
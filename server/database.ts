@@ -0,0 +1,91 @@
+// AAYURCURE API - Local JSON file database
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+    Appointment,
+    PatientIntake,
+    PatientMessage,
+    Review,
+    StoredAnalyticsEvent,
+    WaitlistEntry
+} from '../shared/types.js';
+
+export interface DatabaseSchema {
+    appointments: Appointment[];
+    messages: PatientMessage[];
+    // Phone numbers that turned off reminders and follow-ups
+    messageOptOuts: string[];
+    intakes: PatientIntake[];
+    analyticsEvents: StoredAnalyticsEvent[];
+    reviews: Review[];
+    waitlist: WaitlistEntry[];
+}
+
+function emptySchema(): DatabaseSchema {
+    return {
+        appointments: [],
+        messages: [],
+        messageOptOuts: [],
+        intakes: [],
+        analyticsEvents: [],
+        reviews: [],
+        waitlist: []
+    };
+}
+
+// The whole clinic dataset is small enough to keep in memory. Every update is
+// written to a temporary file and renamed over the old one so a crash never
+// leaves a half-written database behind.
+export class Database {
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    private constructor(
+        private readonly filePath: string,
+        private data: DatabaseSchema
+    ) {}
+
+    static async open(filePath: string): Promise<Database> {
+        let stored: Partial<DatabaseSchema> = {};
+
+        try {
+            stored = JSON.parse(await readFile(filePath, 'utf8')) as Partial<DatabaseSchema>;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        // Collections added in later versions start out empty
+        const data = { ...emptySchema(), ...stored };
+        // Bookings stored before staff notes existed have none
+        data.appointments.forEach(appointment => {
+            appointment.internalNotes ??= [];
+        });
+        return new Database(filePath, data);
+    }
+
+    query<T>(reader: (data: Readonly<DatabaseSchema>) => T): T {
+        return reader(this.data);
+    }
+
+    async update<T>(writer: (data: DatabaseSchema) => T): Promise<T> {
+        const result = writer(this.data);
+        await this.persist();
+        return result;
+    }
+
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify(this.data, null, 2);
+
+        this.writeQueue = this.writeQueue
+            .catch(() => undefined)
+            .then(async () => {
+                const tempPath = `${this.filePath}.tmp`;
+                await mkdir(dirname(this.filePath), { recursive: true });
+                await writeFile(tempPath, snapshot, 'utf8');
+                await rename(tempPath, this.filePath);
+            });
+
+        return this.writeQueue;
+    }
+}
@@ -0,0 +1,197 @@
+// AAYURCURE API - HTTP plumbing (routing, JSON bodies, error responses)
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { DEFAULT_LOCALE, I18n, type Locale } from '../shared/i18n.js';
+import type { ApiErrorBody } from '../shared/types.js';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class HttpError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+        readonly errors?: Record<string, string>
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface ApiResponse {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+export interface RequestContext {
+    request: IncomingMessage;
+    params: Record<string, string>;
+    query: URLSearchParams;
+    readJson(): Promise<unknown>;
+}
+
+export type RouteHandler = (context: RequestContext) => Promise<ApiResponse> | ApiResponse;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    paramNames: string[];
+    handler: RouteHandler;
+}
+
+export function json(body: unknown, status: number = 200): ApiResponse {
+    return { status, body };
+}
+
+// Minimal method + path router; path segments like ":reference" become params
+export class ApiRouter {
+    private routes: Route[] = [];
+
+    constructor(private readonly allowedOrigin: string = '') {}
+
+    get(path: string, handler: RouteHandler): this {
+        return this.add('GET', path, handler);
+    }
+
+    post(path: string, handler: RouteHandler): this {
+        return this.add('POST', path, handler);
+    }
+
+    patch(path: string, handler: RouteHandler): this {
+        return this.add('PATCH', path, handler);
+    }
+
+    delete(path: string, handler: RouteHandler): this {
+        return this.add('DELETE', path, handler);
+    }
+
+    private add(method: string, path: string, handler: RouteHandler): this {
+        const paramNames: string[] = [];
+        const source = path.replace(/:([a-zA-Z]+)/g, (_match, name: string) => {
+            paramNames.push(name);
+            return '([^/]+)';
+        });
+
+        this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), paramNames, handler });
+        return this;
+    }
+
+    async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        if (this.allowedOrigin) {
+            response.setHeader('Access-Control-Allow-Origin', this.allowedOrigin);
+            response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+            response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+        }
+
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204).end();
+            return;
+        }
+
+        const url = new URL(request.url || '/', 'http://localhost');
+
+        try {
+            const result = await this.dispatch(request, url);
+            this.send(response, result);
+        } catch (error) {
+            if (error instanceof HttpError) {
+                const body: ApiErrorBody = { error: error.message };
+                if (error.errors) body.errors = error.errors;
+                this.send(response, json(body, error.status));
+                return;
+            }
+
+            console.error(`${request.method} ${url.pathname} failed:`, error);
+            this.send(response, json({ error: 'Internal server error' }, 500));
+        }
+    }
+
+    private async dispatch(request: IncomingMessage, url: URL): Promise<ApiResponse> {
+        let pathMatched = false;
+
+        for (const route of this.routes) {
+            const match = route.pattern.exec(url.pathname);
+            if (!match) continue;
+
+            pathMatched = true;
+            if (route.method !== request.method) continue;
+
+            const params: Record<string, string> = {};
+            route.paramNames.forEach((name, index) => {
+                params[name] = decodeURIComponent(match[index + 1] || '');
+            });
+
+            return route.handler({
+                request,
+                params,
+                query: url.searchParams,
+                readJson: () => readJsonBody(request)
+            });
+        }
+
+        throw pathMatched
+            ? new HttpError(405, 'Method not allowed')
+            : new HttpError(404, 'Not found');
+    }
+
+    private send(response: ServerResponse, result: ApiResponse): void {
+        const headers: Record<string, string> = { ...result.headers };
+
+        if (result.body === undefined) {
+            response.writeHead(result.status, headers).end();
+            return;
+        }
+
+        if (typeof result.body === 'string' && headers['Content-Type']) {
+            response.writeHead(result.status, headers).end(result.body);
+            return;
+        }
+
+        headers['Content-Type'] = 'application/json; charset=utf-8';
+        response.writeHead(result.status, headers).end(JSON.stringify(result.body));
+    }
+}
+
+export function requireObject(input: unknown, message: string = 'Request body must be a JSON object'): Record<string, unknown> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new HttpError(400, message);
+    }
+    return input as Record<string, unknown>;
+}
+
+// Trimmed string field from a parsed body; missing fields read as ''
+export function stringField(source: Record<string, unknown>, field: string): string {
+    const value = source[field] ?? '';
+    if (typeof value !== 'string') {
+        throw new HttpError(400, `${field} must be a string`);
+    }
+    return value.trim();
+}
+
+// The website's language when the request was made; English when missing or unknown
+export function localeField(source: Record<string, unknown>): Locale {
+    const locale = stringField(source, 'locale');
+    return I18n.isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, 'Request body too large');
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    if (size === 0) {
+        throw new HttpError(400, 'Request body is required');
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON');
+    }
+}
@@ -0,0 +1,79 @@
+// AAYURCURE API - Server entry point
+import { createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { clinicConfig } from '../shared/clinic-config.js';
+import { registerAdminRoutes } from './admin.js';
+import { AdminAuth } from './admin-auth.js';
+import { AnalyticsService, registerAnalyticsRoutes } from './analytics.js';
+import { AppointmentService, registerAppointmentRoutes } from './appointments.js';
+import { AuditLog } from './audit-log.js';
+import { registerBookingRoutes } from './bookings.js';
+import { Database } from './database.js';
+import { ApiRouter } from './http.js';
+import { IntakeService } from './intake.js';
+import { LogFileSender } from './message-sender.js';
+import { PhoneVerification, registerVerificationRoutes } from './phone-verification.js';
+import { DataRetention, PrivacyService, registerPrivacyRoutes } from './privacy.js';
+import { ReminderScheduler } from './reminders.js';
+import { registerReviewRoutes, ReviewService } from './reviews.js';
+import { registerWaitlistRoutes, WaitlistService } from './waitlist.js';
+
+const PORT = Number(process.env.PORT) || 3000;
+const DATABASE_FILE = resolve(process.env.DATABASE_FILE || 'data/aayurcure.json');
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || '';
+const MESSAGE_LOG_FILE = resolve(process.env.MESSAGE_LOG_FILE || 'data/messages.log');
+const AUDIT_LOG_FILE = resolve(process.env.AUDIT_LOG_FILE || 'data/audit.log');
+
+async function main(): Promise<void> {
+    const db = await Database.open(DATABASE_FILE);
+    const router = new ApiRouter(ALLOWED_ORIGIN);
+    const audit = new AuditLog(AUDIT_LOG_FILE);
+
+    // No SMS or WhatsApp provider is wired up yet - messages for patients go to a log file
+    const sender = new LogFileSender(MESSAGE_LOG_FILE);
+    console.warn(`Patient messages are written to ${MESSAGE_LOG_FILE} instead of being sent`);
+
+    const verification = new PhoneVerification(sender);
+    registerVerificationRoutes(router, verification);
+
+    const appointments = new AppointmentService(db, verification);
+    const reminders = new ReminderScheduler(db, sender);
+    const intakes = new IntakeService(db, appointments);
+    const reviews = new ReviewService(db, appointments);
+    const waitlist = new WaitlistService(db, verification, sender, appointments);
+    if (!clinicConfig.site.url) {
+        console.warn('site.url in config/clinic.json is not set - patients can join the waitlist but no offers are sent');
+    }
+    await reminders.start(appointments);
+    waitlist.start();
+    registerAppointmentRoutes(router, appointments, audit);
+    registerBookingRoutes(router, appointments, reminders, intakes, reviews, audit);
+    registerReviewRoutes(router, reviews);
+    registerWaitlistRoutes(router, waitlist, appointments, audit);
+    registerPrivacyRoutes(router, new PrivacyService(db, verification, audit));
+    new DataRetention(db, audit).start();
+
+    const analytics = new AnalyticsService(db);
+    analytics.start();
+    registerAnalyticsRoutes(router, analytics);
+
+    if (ADMIN_PASSWORD) {
+        registerAdminRoutes(router, new AdminAuth(ADMIN_PASSWORD), appointments, intakes, analytics, reviews, audit);
+    } else {
+        console.warn('ADMIN_PASSWORD is not set - the admin dashboard is disabled');
+    }
+
+    const server = createServer((request, response) => {
+        void router.handle(request, response);
+    });
+
+    server.listen(PORT, () => {
+        console.log(`AAYURCURE API listening on http://localhost:${PORT} (data: ${DATABASE_FILE})`);
+    });
+}
+
+main().catch(error => {
+    console.error('Failed to start AAYURCURE API:', error);
+    process.exit(1);
+});
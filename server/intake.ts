@@ -0,0 +1,109 @@
+// AAYURCURE API - Health questionnaires filled in before a visit
+// Answers live in their own collection, keyed by booking reference, so
+// medical details never travel with booking lists or reminders. Every saved
+// step is re-checked, so a step marked complete always holds valid answers.
+import { INTAKE_STEPS, IntakeValidator } from '../shared/intake.js';
+import type { IntakeAnswers, IntakeStep, PatientIntake } from '../shared/types.js';
+import type { AppointmentService } from './appointments.js';
+import type { Database } from './database.js';
+import { HttpError, requireObject, stringField } from './http.js';
+
+const TEXT_FIELDS = [
+    'complaints',
+    'complaintDuration',
+    'otherConditions',
+    'medications',
+    'allergies',
+    'pregnancyStatus',
+    'priorTreatment',
+    'priorTreatmentDetails'
+] as const;
+
+export class IntakeService {
+    constructor(
+        private readonly db: Database,
+        private readonly appointments: AppointmentService
+    ) {}
+
+    // null until the patient saves the first step
+    getForPatient(reference: string, phoneNumber: string): PatientIntake | null {
+        const appointment = this.appointments.findForPatient(reference, phoneNumber);
+        return this.find(appointment.reference);
+    }
+
+    getForStaff(reference: string): PatientIntake {
+        const intake = this.find(reference);
+        if (!intake) {
+            throw new HttpError(404, 'No health questionnaire for this booking');
+        }
+        return intake;
+    }
+
+    // step is the one just finished; submit sends the whole questionnaire to the doctor
+    async save(reference: string, phoneNumber: string, input: unknown, step: string, submit: boolean): Promise<PatientIntake> {
+        const appointment = this.appointments.findForPatient(reference, phoneNumber);
+        if (appointment.status !== 'pending' && appointment.status !== 'confirmed') {
+            throw new HttpError(409, `This booking is ${appointment.status}`);
+        }
+        if (step && !INTAKE_STEPS.includes(step as IntakeStep)) {
+            throw new HttpError(400, `step must be one of: ${INTAKE_STEPS.join(', ')}`);
+        }
+
+        const answers = this.parseAnswers(input);
+        const previous = this.find(appointment.reference);
+        const completedSteps = submit
+            ? [...INTAKE_STEPS]
+            : INTAKE_STEPS.filter(candidate => candidate === step || previous?.completedSteps.includes(candidate));
+
+        const errors = Object.assign({}, ...completedSteps
+            .map(candidate => IntakeValidator.validateStep(candidate, answers).errors)) as Record<string, string>;
+        if (Object.keys(errors).length > 0) {
+            throw new HttpError(422, 'Please fix the errors in your answers', errors);
+        }
+
+        return this.db.update(data => {
+            const now = new Date().toISOString();
+            const intake: PatientIntake = {
+                reference: appointment.reference,
+                answers,
+                completedSteps,
+                updatedAt: now
+            };
+
+            // Later edits keep the questionnaire with the doctor
+            const submittedAt = submit ? now : previous?.submittedAt;
+            if (submittedAt) intake.submittedAt = submittedAt;
+
+            data.intakes = data.intakes.filter(candidate => candidate.reference !== appointment.reference);
+            data.intakes.push(intake);
+
+            const stored = data.appointments.find(candidate => candidate.reference === appointment.reference);
+            if (stored && submit) {
+                stored.intakeSubmittedAt = now;
+                stored.updatedAt = now;
+            }
+            return intake;
+        });
+    }
+
+    private find(reference: string): PatientIntake | null {
+        return this.db.query(data => data.intakes.find(intake => intake.reference === reference) ?? null);
+    }
+
+    private parseAnswers(input: unknown): IntakeAnswers {
+        const source = requireObject(input, 'answers are required');
+        const answers = {} as IntakeAnswers;
+
+        TEXT_FIELDS.forEach(field => {
+            answers[field] = stringField(source, field);
+        });
+
+        const conditions = source.conditions ?? [];
+        if (!Array.isArray(conditions) || conditions.some(condition => typeof condition !== 'string')) {
+            throw new HttpError(400, 'conditions must be a list of strings');
+        }
+        answers.conditions = [...new Set(conditions as string[])];
+
+        return answers;
+    }
+}
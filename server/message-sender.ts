@@ -0,0 +1,20 @@
+// AAYURCURE API - Outgoing SMS/WhatsApp messages to patients
+// Anything that can deliver a short text to an Indian mobile number can be
+// plugged in here; the API only ever talks to the MessageSender interface.
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface MessageSender {
+    // phoneNumber is the 10-digit mobile number without +91
+    send(phoneNumber: string, text: string): Promise<void>;
+}
+
+// Development stand-in: writes every message to a log file instead of sending it
+export class LogFileSender implements MessageSender {
+    constructor(private readonly filePath: string) {}
+
+    async send(phoneNumber: string, text: string): Promise<void> {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await appendFile(this.filePath, `${new Date().toISOString()} +91${phoneNumber} ${text}\n`, 'utf8');
+    }
+}
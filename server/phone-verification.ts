@@ -0,0 +1,153 @@
+// AAYURCURE API - One-time codes proving a patient can receive messages on the
+// phone number they book with. A correct code returns a short-lived token that
+// POST /api/appointments requires for that same number.
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { DEFAULT_LOCALE, I18n, t, type Locale } from '../shared/i18n.js';
+import { FormValidator } from '../shared/validation.js';
+import type { PhoneVerificationResult, VerificationCodeSent } from '../shared/types.js';
+import { AttemptLimiter } from './attempt-limiter.js';
+import { HttpError, json, localeField, requireObject, stringField, type ApiRouter } from './http.js';
+import type { MessageSender } from './message-sender.js';
+
+const CODE_TTL_MINUTES = 10;
+const CODE_TTL_MS = CODE_TTL_MINUTES * 60 * 1000;
+const RESEND_AFTER_MS = 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const VERIFIED_TTL_MS = 30 * 60 * 1000;
+// Every code costs an SMS, so one address gets a handful per hour
+const MAX_CODES_PER_ADDRESS = 10;
+const CODE_LOCKOUT_MS = 60 * 60 * 1000;
+
+interface PendingCode {
+    codeHash: Buffer;
+    sentAt: number;
+    expiresAt: number;
+    attemptsLeft: number;
+}
+
+interface VerifiedPhone {
+    phoneNumber: string;
+    expiresAt: number;
+}
+
+// Codes and tokens live in memory; a restart simply asks for a new code
+export class PhoneVerification {
+    private pending = new Map<string, PendingCode>();
+    private verified = new Map<string, VerifiedPhone>();
+
+    constructor(private readonly sender: MessageSender) {}
+
+    // locale is the website's language, so the text arrives in the language the patient is reading
+    async sendCode(phoneNumber: string, locale: Locale = DEFAULT_LOCALE): Promise<VerificationCodeSent> {
+        const phone = this.parsePhone(phoneNumber);
+        const now = Date.now();
+        this.pruneExpired(now);
+
+        const existing = this.pending.get(phone);
+        if (existing && now - existing.sentAt < RESEND_AFTER_MS) {
+            throw new HttpError(429, 'Please wait a minute before asking for another code');
+        }
+
+        const code = String(randomInt(1_000_000)).padStart(6, '0');
+        const text = I18n.inLocale(locale, () => t('message.verificationCode', { code, minutes: CODE_TTL_MINUTES }));
+        await this.sender.send(phone, text);
+
+        const expiresAt = now + CODE_TTL_MS;
+        this.pending.set(phone, {
+            codeHash: this.hash(code),
+            sentAt: now,
+            expiresAt,
+            attemptsLeft: MAX_CODE_ATTEMPTS
+        });
+
+        return {
+            expiresAt: new Date(expiresAt).toISOString(),
+            resendAfter: new Date(now + RESEND_AFTER_MS).toISOString()
+        };
+    }
+
+    verifyCode(phoneNumber: string, code: string): PhoneVerificationResult {
+        const phone = this.parsePhone(phoneNumber);
+        const codeError = FormValidator.validateOtpCode(code);
+        if (codeError) {
+            throw new HttpError(422, 'Please enter the code we sent', { otpCode: codeError });
+        }
+
+        const entry = this.pending.get(phone);
+        if (!entry || entry.expiresAt <= Date.now()) {
+            this.pending.delete(phone);
+            throw new HttpError(410, 'This code has expired', {
+                otpCode: 'This code has expired - please ask for a new one'
+            });
+        }
+
+        if (!timingSafeEqual(this.hash(code.trim()), entry.codeHash)) {
+            entry.attemptsLeft -= 1;
+            if (entry.attemptsLeft <= 0) {
+                this.pending.delete(phone);
+                throw new HttpError(429, 'Too many incorrect codes', {
+                    otpCode: 'Too many incorrect codes - please ask for a new one'
+                });
+            }
+            throw new HttpError(422, 'Incorrect code', {
+                otpCode: `That code is not right - ${entry.attemptsLeft} attempts left`
+            });
+        }
+
+        this.pending.delete(phone);
+        const verificationToken = randomBytes(24).toString('hex');
+        const expiresAt = Date.now() + VERIFIED_TTL_MS;
+        this.verified.set(verificationToken, { phoneNumber: phone, expiresAt });
+
+        return { verificationToken, expiresAt: new Date(expiresAt).toISOString() };
+    }
+
+    // The token stays valid until it expires so one code covers several bookings
+    assertVerified(verificationToken: string, phoneNumber: string): void {
+        const entry = this.verified.get(verificationToken);
+        if (!entry || entry.expiresAt <= Date.now() || entry.phoneNumber !== phoneNumber) {
+            throw new HttpError(403, 'Please verify your phone number', {
+                otpCode: 'Please verify your phone number with the code we send you'
+            });
+        }
+    }
+
+    private parsePhone(phoneNumber: string): string {
+        const phoneError = FormValidator.validatePhone(phoneNumber);
+        if (phoneError) {
+            throw new HttpError(422, 'Please check your phone number', { phoneNumber: phoneError });
+        }
+        return phoneNumber.replace(/\D/g, '');
+    }
+
+    private hash(value: string): Buffer {
+        return createHash('sha256').update(value, 'utf8').digest();
+    }
+
+    private pruneExpired(now: number): void {
+        this.pending.forEach((entry, phone) => {
+            if (entry.expiresAt <= now) this.pending.delete(phone);
+        });
+        this.verified.forEach((entry, token) => {
+            if (entry.expiresAt <= now) this.verified.delete(token);
+        });
+    }
+}
+
+export function registerVerificationRoutes(router: ApiRouter, verification: PhoneVerification): void {
+    const sendLimiter = new AttemptLimiter(MAX_CODES_PER_ADDRESS, CODE_LOCKOUT_MS);
+
+    router.post('/api/verification/send', async ({ readJson, request }) => {
+        sendLimiter.assertAllowed(request);
+        const body = requireObject(await readJson());
+        const sent = await verification.sendCode(stringField(body, 'phoneNumber'), localeField(body));
+        // Counted only once a code is really sent
+        sendLimiter.recordFailure(request);
+        return json(sent);
+    });
+
+    router.post('/api/verification/verify', async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        return json(verification.verifyCode(stringField(body, 'phoneNumber'), stringField(body, 'code')));
+    });
+}
@@ -0,0 +1,144 @@
+// AAYURCURE API - Patient data rights and retention (DPDP Act, 2023)
+// Patients prove they own a phone number with the usual one-time code, then
+// download everything held against it or have it erased. Separately, a daily
+// pass deletes bookings once the configured retention period has passed,
+// along with their questionnaires, messages and reviews, and waitlist entries
+// whose last day is as old.
+import { clinicConfig } from '../shared/clinic-config.js';
+import { addDays, clinicNow } from '../shared/dates.js';
+import { FormValidator } from '../shared/validation.js';
+import type { Appointment, PatientDataErasure, PatientDataExport, WaitlistEntry } from '../shared/types.js';
+import type { AuditLog } from './audit-log.js';
+import type { Database, DatabaseSchema } from './database.js';
+import { HttpError, json, requireObject, stringField, type ApiRouter } from './http.js';
+import type { PhoneVerification } from './phone-verification.js';
+
+const RETENTION_CHECK_MS = 24 * 60 * 60 * 1000;
+
+export class PrivacyService {
+    constructor(
+        private readonly db: Database,
+        private readonly verification: PhoneVerification,
+        private readonly audit: AuditLog
+    ) {}
+
+    async exportData(phoneNumber: string, verificationToken: string): Promise<PatientDataExport> {
+        const phone = this.assertOwner(phoneNumber, verificationToken);
+
+        const exported = this.db.query(data => {
+            const appointments = data.appointments.filter(appointment => appointment.phoneNumber === phone);
+            const references = new Set(appointments.map(appointment => appointment.reference));
+            return {
+                exportedAt: new Date().toISOString(),
+                phoneNumber: phone,
+                appointments: appointments.map(({ internalNotes: _internalNotes, ...appointment }) => appointment),
+                intakes: data.intakes.filter(intake => references.has(intake.reference)),
+                messages: data.messages.filter(message => references.has(message.reference)),
+                reviews: data.reviews.filter(review => references.has(review.reference)),
+                waitlist: data.waitlist.filter(entry => entry.phoneNumber === phone),
+                remindersEnabled: !data.messageOptOuts.includes(phone)
+            };
+        });
+
+        await this.audit.record('patient', 'data.export', {
+            phoneNumber: phone,
+            detail: `${exported.appointments.length} bookings`
+        });
+        return exported;
+    }
+
+    // Upcoming bookings go too; the website warns the patient first
+    async eraseData(phoneNumber: string, verificationToken: string): Promise<PatientDataErasure> {
+        const phone = this.assertOwner(phoneNumber, verificationToken);
+        const erased = await this.db.update(data => {
+            data.waitlist = data.waitlist.filter(entry => entry.phoneNumber !== phone);
+            return removeAppointments(data, appointment => appointment.phoneNumber === phone);
+        });
+
+        await this.audit.record('patient', 'data.erase', { phoneNumber: phone, detail: `${erased.length} bookings` });
+        return { erasedBookings: erased.length };
+    }
+
+    private assertOwner(phoneNumber: string, verificationToken: string): string {
+        const phoneError = FormValidator.validatePhone(phoneNumber);
+        if (phoneError) {
+            throw new HttpError(422, 'Please check your phone number', { phoneNumber: phoneError });
+        }
+
+        const phone = phoneNumber.replace(/\D/g, '');
+        this.verification.assertVerified(verificationToken, phone);
+        return phone;
+    }
+}
+
+// Deletes bookings whose last visit or change is older than privacy.retentionDays
+export class DataRetention {
+    constructor(
+        private readonly db: Database,
+        private readonly audit: AuditLog,
+        private readonly retentionDays: number = clinicConfig.privacy.retentionDays
+    ) {}
+
+    start(): void {
+        setInterval(() => void this.purge(), RETENTION_CHECK_MS);
+        void this.purge();
+    }
+
+    async purge(): Promise<number> {
+        const cutoff = addDays(clinicNow().date, -this.retentionDays);
+        const expired = (appointment: Appointment) => retentionDate(appointment) < cutoff;
+        const staleEntry = (entry: WaitlistEntry) => entry.untilDate < cutoff;
+
+        try {
+            if (!this.db.query(data => data.appointments.some(expired) || data.waitlist.some(staleEntry))) return 0;
+
+            const erased = await this.db.update(data => {
+                data.waitlist = data.waitlist.filter(entry => !staleEntry(entry));
+                return removeAppointments(data, expired);
+            });
+            await this.audit.record('system', 'retention.purge', {
+                detail: `${erased.length} bookings last active before ${cutoff}`
+            });
+            return erased.length;
+        } catch (error) {
+            console.error('Retention purge failed:', error);
+            return 0;
+        }
+    }
+}
+
+// The later of the visit date and the last change, as a clinic day
+function retentionDate(appointment: Appointment): string {
+    const updated = clinicNow(new Date(appointment.updatedAt)).date;
+    return appointment.preferredDate > updated ? appointment.preferredDate : updated;
+}
+
+// Removes the bookings and everything filed under their references; returns the references
+function removeAppointments(data: DatabaseSchema, matches: (appointment: Appointment) => boolean): string[] {
+    const references = new Set(data.appointments.filter(matches).map(appointment => appointment.reference));
+
+    data.appointments = data.appointments.filter(appointment => !references.has(appointment.reference));
+    data.intakes = data.intakes.filter(intake => !references.has(intake.reference));
+    data.messages = data.messages.filter(message => !references.has(message.reference));
+    data.reviews = data.reviews.filter(review => !references.has(review.reference));
+    // A reminder opt-out is personal data too once no booking is left for the number
+    data.messageOptOuts = data.messageOptOuts.filter(phone =>
+        data.appointments.some(appointment => appointment.phoneNumber === phone));
+
+    return [...references];
+}
+
+export function registerPrivacyRoutes(router: ApiRouter, privacy: PrivacyService): void {
+    router.post('/api/privacy/export', async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        return json(await privacy.exportData(stringField(body, 'phoneNumber'), stringField(body, 'verificationToken')));
+    });
+
+    router.post('/api/privacy/erase', async ({ readJson }) => {
+        const body = requireObject(await readJson());
+        if (body.confirm !== true) {
+            throw new HttpError(400, 'confirm must be true to erase your data');
+        }
+        return json(await privacy.eraseData(stringField(body, 'phoneNumber'), stringField(body, 'verificationToken')));
+    });
+}
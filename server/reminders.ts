@@ -0,0 +1,272 @@
+// AAYURCURE API - Booking confirmations, visit reminders and follow-ups
+// Every message is planned as a row in the database when a booking changes,
+// so the plan survives restarts. A row is saved as "sending" before the
+// sender is called; a crash mid-send leaves it there and it is never retried,
+// so a patient can miss a message but never gets the same one twice.
+import { bookingDetailLines } from '../shared/booking-message.js';
+import { clinicLocation } from '../shared/calendar-invite.js';
+import { clinicConfig } from '../shared/clinic-config.js';
+import { addDays, clinicTimestamp } from '../shared/dates.js';
+import { DEFAULT_LOCALE, I18n, t, type MessageKey } from '../shared/i18n.js';
+import type { Appointment, PatientMessage, PatientMessageKind } from '../shared/types.js';
+import type { AppointmentService } from './appointments.js';
+import type { Database, DatabaseSchema } from './database.js';
+import type { MessageSender } from './message-sender.js';
+
+const TICK_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+// Follow-ups go out the morning after the visit, not late at night
+const FOLLOW_UP_TIME = '10:00';
+
+interface PlannedMessage {
+    kind: PatientMessageKind;
+    sendAt: number;
+    expiresAt: number;
+}
+
+export class ReminderScheduler {
+    private queue: Promise<void> = Promise.resolve();
+    private passQueued = false;
+
+    constructor(
+        private readonly db: Database,
+        private readonly sender: MessageSender
+    ) {}
+
+    async start(appointments: AppointmentService): Promise<void> {
+        // Rows a crash left "sending" may or may not have gone out
+        await this.db.update(data => {
+            data.messages
+                .filter(message => message.status === 'sending')
+                .forEach(message => {
+                    message.status = 'failed';
+                    message.note = 'Interrupted by a restart - not retried in case it was delivered';
+                });
+        });
+
+        appointments.onChange(appointment => void this.plan(appointment));
+        setInterval(() => void this.run(), TICK_MS);
+        void this.run();
+    }
+
+    isEnabled(phoneNumber: string): boolean {
+        return !this.db.query(data => data.messageOptOuts.includes(phoneNumber));
+    }
+
+    // Applies to every booking made with the number, including later ones
+    async setEnabled(phoneNumber: string, enabled: boolean): Promise<void> {
+        await this.db.update(data => {
+            data.messageOptOuts = data.messageOptOuts.filter(phone => phone !== phoneNumber);
+            if (!enabled) data.messageOptOuts.push(phoneNumber);
+        });
+    }
+
+    // Brings the booking's planned messages in line with its status and slot
+    private async plan(appointment: Appointment): Promise<void> {
+        const now = Date.now();
+        const slotKey = appointment.preferredDate
+            ? `${appointment.preferredDate}T${appointment.preferredTime}`
+            : 'no-date';
+        const planned = new Map(this.desiredMessages(appointment, now)
+            .map(message => [`${appointment.reference}:${message.kind}:${slotKey}`, message]));
+
+        try {
+            await this.db.update(data => {
+                // Messages for an old slot or a cancelled booking are dropped
+                data.messages
+                    .filter(message => message.reference === appointment.reference
+                        && message.status === 'scheduled' && !planned.has(message.id))
+                    .forEach(message => {
+                        message.status = 'skipped';
+                        message.note = 'Booking changed';
+                    });
+
+                planned.forEach((message, id) => {
+                    const existing = data.messages.find(candidate => candidate.id === id);
+
+                    // Moved away from this slot and back again - plan the skipped rows anew
+                    if (existing?.status === 'skipped') {
+                        existing.status = 'scheduled';
+                        existing.sendAt = new Date(message.sendAt).toISOString();
+                        existing.expiresAt = new Date(message.expiresAt).toISOString();
+                        delete existing.note;
+                    }
+                    if (existing) return;
+
+                    data.messages.push({
+                        id,
+                        reference: appointment.reference,
+                        kind: message.kind,
+                        status: 'scheduled',
+                        sendAt: new Date(message.sendAt).toISOString(),
+                        expiresAt: new Date(message.expiresAt).toISOString(),
+                        attempts: 0
+                    });
+                });
+            });
+        } catch (error) {
+            console.error(`Could not plan messages for ${appointment.reference}:`, error);
+        }
+
+        // The confirmation is due straight away
+        void this.run();
+    }
+
+    private desiredMessages(appointment: Appointment, now: number): PlannedMessage[] {
+        if (appointment.status !== 'pending' && appointment.status !== 'confirmed') return [];
+
+        if (!appointment.preferredDate || !appointment.preferredTime) {
+            return [{ kind: 'confirmation', sendAt: now, expiresAt: now + 24 * HOUR_MS }];
+        }
+
+        const start = clinicTimestamp(appointment.preferredDate, appointment.preferredTime);
+        const followUp = clinicTimestamp(addDays(appointment.preferredDate, 1), FOLLOW_UP_TIME);
+        const messages: PlannedMessage[] = [
+            { kind: 'confirmation', sendAt: now, expiresAt: start },
+            { kind: 'reminder-24h', sendAt: start - 24 * HOUR_MS, expiresAt: start - 2 * HOUR_MS },
+            { kind: 'reminder-2h', sendAt: start - 2 * HOUR_MS, expiresAt: start },
+            { kind: 'follow-up', sendAt: followUp, expiresAt: followUp + 48 * HOUR_MS }
+        ];
+
+        // A booking made for this afternoon gets no "tomorrow" reminder
+        return messages
+            .filter(message => message.kind === 'confirmation' || message.sendAt > now)
+            .filter(message => isCourseMessage(appointment, message.kind));
+    }
+
+    // Passes run one at a time; calls made while one is waiting share it
+    private run(): Promise<void> {
+        if (this.passQueued) return this.queue;
+        this.passQueued = true;
+
+        this.queue = this.queue.then(async () => {
+            this.passQueued = false;
+            try {
+                await this.sendDueMessages();
+            } catch (error) {
+                console.error('Reminder pass failed:', error);
+            }
+        });
+        return this.queue;
+    }
+
+    private async sendDueMessages(): Promise<void> {
+        const now = Date.now();
+        const dueIds = this.db.query(data => data.messages
+            .filter(message => message.status === 'scheduled' && Date.parse(message.sendAt) <= now)
+            .map(message => message.id));
+
+        for (const id of dueIds) {
+            await this.deliver(id);
+        }
+    }
+
+    private async deliver(id: string): Promise<void> {
+        const outgoing = await this.db.update(data => {
+            const message = data.messages.find(candidate => candidate.id === id);
+            if (!message || message.status !== 'scheduled') return null;
+
+            const appointment = data.appointments.find(candidate => candidate.reference === message.reference);
+            const skipReason = this.skipReason(data, message, appointment);
+            if (skipReason || !appointment) {
+                message.status = 'skipped';
+                message.note = skipReason;
+                return null;
+            }
+
+            message.status = 'sending';
+            message.attempts += 1;
+            return { phoneNumber: appointment.phoneNumber, text: renderMessage(message.kind, appointment) };
+        });
+        if (!outgoing) return;
+
+        try {
+            await this.sender.send(outgoing.phoneNumber, outgoing.text);
+            await this.updateMessage(id, message => {
+                message.status = 'sent';
+                message.sentAt = new Date().toISOString();
+            });
+        } catch (error) {
+            // The sender reported the failure, so nothing went out and a retry is safe
+            console.error(`Could not send message ${id}:`, error);
+            await this.updateMessage(id, message => {
+                if (message.attempts < MAX_SEND_ATTEMPTS) {
+                    message.status = 'scheduled';
+                    message.sendAt = new Date(Date.now() + RETRY_DELAY_MS * message.attempts).toISOString();
+                } else {
+                    message.status = 'failed';
+                    message.note = error instanceof Error ? error.message : String(error);
+                }
+            });
+        }
+    }
+
+    private skipReason(data: DatabaseSchema, message: PatientMessage, appointment?: Appointment): string {
+        if (!appointment) return 'Booking not found';
+        if (data.messageOptOuts.includes(appointment.phoneNumber)) return 'Patient turned off reminders';
+        if (Date.parse(message.expiresAt) <= Date.now()) return 'Too late to be useful';
+
+        // Staff confirm the visits that go ahead; others get no follow-up
+        if (message.kind === 'follow-up') {
+            return appointment.status === 'confirmed' ? '' : `Booking is ${appointment.status}`;
+        }
+        return appointment.status === 'pending' || appointment.status === 'confirmed'
+            ? ''
+            : `Booking is ${appointment.status}`;
+    }
+
+    private async updateMessage(id: string, writer: (message: PatientMessage) => void): Promise<void> {
+        await this.db.update(data => {
+            const message = data.messages.find(candidate => candidate.id === id);
+            if (message) writer(message);
+        });
+    }
+}
+
+// A course is confirmed and first announced once, at its first session, and
+// followed up after its last; every session still gets its 2-hour reminder
+function isCourseMessage(appointment: Appointment, kind: PatientMessageKind): boolean {
+    const course = appointment.course;
+    if (!course) return true;
+
+    switch (kind) {
+        case 'confirmation':
+        case 'reminder-24h':
+            return course.session === 1;
+        case 'follow-up':
+            return course.session === course.sessions;
+        case 'reminder-2h':
+            return true;
+    }
+}
+
+const MESSAGE_OPENINGS: Record<PatientMessageKind, MessageKey> = {
+    'confirmation': 'message.openingConfirmation',
+    'reminder-24h': 'message.openingReminder24h',
+    'reminder-2h': 'message.openingReminder2h',
+    'follow-up': 'message.openingFollowUp'
+};
+
+// Plain text that reads the same over SMS or WhatsApp, in the language the patient booked in
+export function renderMessage(kind: PatientMessageKind, appointment: Appointment): string {
+    return I18n.inLocale(appointment.locale ?? DEFAULT_LOCALE, () => renderLines(kind, appointment).join('\n'));
+}
+
+function renderLines(kind: PatientMessageKind, appointment: Appointment): string[] {
+    const lines = [
+        t(MESSAGE_OPENINGS[kind], { name: appointment.patientName.trim() }),
+        '',
+        t('message.reference', { reference: appointment.reference }),
+        ...bookingDetailLines(appointment, date => I18n.formatDate(date, 'long'))
+    ];
+
+    if (kind !== 'follow-up') {
+        lines.push(t('message.address', { address: clinicLocation() }));
+        lines.push('', t('message.changeOrCancel', { phone: clinicConfig.contact.phone }));
+    }
+    lines.push(t('message.stopMessages'));
+
+    return lines;
+}
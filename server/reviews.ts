@@ -0,0 +1,125 @@
+// AAYURCURE API - Patient reviews
+// A patient can rate a visit once it has taken place, proving it is theirs
+// with the booking reference and phone number like every "manage my booking"
+// request. Reviews wait for staff approval before they reach the website,
+// which shows only the first name and initial, and only if the patient agreed.
+import type { Appointment, PublicReviews, RatingSummary, Review, ReviewStatus } from '../shared/types.js';
+import { FormValidator } from '../shared/validation.js';
+import { isVisitOver, type AppointmentService } from './appointments.js';
+import type { Database } from './database.js';
+import { HttpError, json, requireObject, stringField, type ApiRouter } from './http.js';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export class ReviewService {
+    constructor(
+        private readonly db: Database,
+        private readonly appointments: AppointmentService
+    ) {}
+
+    canReview(appointment: Appointment): boolean {
+        return isVisitOver(appointment) && !this.find(appointment.reference);
+    }
+
+    async submit(reference: string, phoneNumber: string, input: unknown): Promise<Appointment> {
+        const appointment = this.appointments.findForPatient(reference, phoneNumber);
+        if (!isVisitOver(appointment)) {
+            throw new HttpError(409, 'You can review your visit once it has taken place');
+        }
+
+        const body = requireObject(input);
+        const rating = typeof body.rating === 'number' ? body.rating : 0;
+        const comment = stringField(body, 'comment').trim();
+        const errors: Record<string, string> = {};
+        const ratingError = FormValidator.validateRating(rating);
+        const commentError = FormValidator.validateReviewComment(comment);
+        if (ratingError) errors.rating = ratingError;
+        if (commentError) errors.comment = commentError;
+        if (Object.keys(errors).length > 0) {
+            throw new HttpError(422, 'Please fix the errors in your review', errors);
+        }
+
+        await this.db.update(data => {
+            if (data.reviews.some(review => review.reference === appointment.reference)) {
+                throw new HttpError(409, 'You have already reviewed this visit');
+            }
+
+            data.reviews.push({
+                reference: appointment.reference,
+                serviceType: appointment.serviceType,
+                rating,
+                comment,
+                displayName: body.showName === true ? toDisplayName(appointment.patientName) : '',
+                status: 'pending',
+                createdAt: new Date().toISOString()
+            });
+        });
+        return appointment;
+    }
+
+    listPublic(): PublicReviews {
+        const approved = this.db.query(data => data.reviews.filter(review => review.status === 'approved'))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+        const services: Record<string, RatingSummary> = {};
+        new Set(approved.map(review => review.serviceType).filter(Boolean)).forEach(serviceType => {
+            services[serviceType] = summarize(approved.filter(review => review.serviceType === serviceType));
+        });
+
+        return {
+            reviews: approved.map(({ serviceType, rating, comment, displayName, createdAt }) =>
+                ({ serviceType, rating, comment, displayName, createdAt })),
+            overall: summarize(approved),
+            services
+        };
+    }
+
+    // Oldest first, so the moderation queue is worked through in order
+    listForStaff(status: string): Review[] {
+        if (!REVIEW_STATUSES.includes(status as ReviewStatus)) {
+            throw new HttpError(400, `status must be one of: ${REVIEW_STATUSES.join(', ')}`);
+        }
+        return this.db.query(data => data.reviews.filter(review => review.status === status))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async moderate(reference: string, status: string): Promise<Review> {
+        if (status !== 'approved' && status !== 'rejected') {
+            throw new HttpError(400, 'status must be approved or rejected');
+        }
+
+        return this.db.update(data => {
+            const review = data.reviews.find(candidate => candidate.reference === reference.toUpperCase());
+            if (!review) {
+                throw new HttpError(404, 'Review not found');
+            }
+
+            review.status = status;
+            review.moderatedAt = new Date().toISOString();
+            return { ...review };
+        });
+    }
+
+    private find(reference: string): Review | undefined {
+        return this.db.query(data => data.reviews.find(review => review.reference === reference));
+    }
+}
+
+// 'Priya Sharma' -> 'Priya S.'
+function toDisplayName(patientName: string): string {
+    const [first = '', ...rest] = patientName.trim().split(/\s+/);
+    const last = rest.at(-1);
+    return last ? `${first} ${last.charAt(0).toUpperCase()}.` : first;
+}
+
+function summarize(reviews: Review[]): RatingSummary {
+    const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+    return {
+        average: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+        count: reviews.length
+    };
+}
+
+export function registerReviewRoutes(router: ApiRouter, reviews: ReviewService): void {
+    router.get('/api/reviews', () => json(reviews.listPublic()));
+}
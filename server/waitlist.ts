@@ -0,0 +1,373 @@
+// AAYURCURE API - Waitlist and slot offers
+// Patients who find their day full can wait for any time, morning or evening,
+// on that day or in the week from it. Whenever a booking changes (and once a
+// minute) the waitlist is worked through oldest first: the earliest free slot
+// that suits each patient is held for them and offered by message, with a
+// link to accept or decline. An offer that is not answered in time lapses: the
+// slot moves on to the next patient in line and is never offered to this one
+// again, but they keep waiting for other slots, as after declining.
+import { randomBytes, randomUUID } from 'node:crypto';
+import { bookingDetailLines } from '../shared/booking-message.js';
+import { ClinicCalendar } from '../shared/clinic-calendar.js';
+import { clinicConfig } from '../shared/clinic-config.js';
+import { addDays, clinicNow, clinicTimestamp } from '../shared/dates.js';
+import { DEFAULT_LOCALE, I18n, t } from '../shared/i18n.js';
+import { BOOKING_CONSENT_PURPOSES } from '../shared/privacy.js';
+import { fromMinutes, SlotScheduler, type ScheduledBooking } from '../shared/scheduling.js';
+import type {
+    PlannedSession,
+    WaitlistEntry,
+    WaitlistOffer,
+    WaitlistOfferView,
+    WaitlistPeriod,
+    WaitlistRange,
+    WaitlistReceipt
+} from '../shared/types.js';
+import { FormValidator } from '../shared/validation.js';
+import type { AppointmentService } from './appointments.js';
+import type { AuditLog } from './audit-log.js';
+import type { Database, DatabaseSchema } from './database.js';
+import { HttpError, json, localeField, requireObject, stringField, type ApiRouter } from './http.js';
+import type { MessageSender } from './message-sender.js';
+import type { PhoneVerification } from './phone-verification.js';
+
+const TICK_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// How long a patient has to answer an offer
+const OFFER_MINUTES = 120;
+// Time left between an offer lapsing and the visit, so the next patient can still come
+const MIN_NOTICE_MINUTES = 60;
+const WEEK_DAYS = 7;
+
+export const WAITLIST_PERIODS: WaitlistPeriod[] = ['any', 'morning', 'evening'];
+export const WAITLIST_RANGES: WaitlistRange[] = ['day', 'week'];
+
+type OfferedEntry = WaitlistEntry & { offer: WaitlistOffer };
+
+export class WaitlistService {
+    private queue: Promise<void> = Promise.resolve();
+    private passQueued = false;
+
+    constructor(
+        private readonly db: Database,
+        private readonly verification: PhoneVerification,
+        private readonly sender: MessageSender,
+        private readonly appointments: AppointmentService,
+        private readonly siteUrl: string = clinicConfig.site.url
+    ) {}
+
+    start(): void {
+        // A cancelled, moved or no-show booking may free a slot someone is waiting for
+        this.appointments.onChange(() => void this.run());
+        setInterval(() => void this.run(), TICK_MS);
+        void this.run();
+    }
+
+    async join(input: unknown): Promise<WaitlistEntry> {
+        const body = requireObject(input, 'Waitlist details are required');
+        const details = {
+            patientName: stringField(body, 'patientName'),
+            phoneNumber: stringField(body, 'phoneNumber').replace(/\D/g, ''),
+            serviceType: stringField(body, 'serviceType'),
+            preferredDate: stringField(body, 'preferredDate')
+        };
+        const period = stringField(body, 'period') as WaitlistPeriod;
+        const range = stringField(body, 'range') as WaitlistRange;
+        if (!WAITLIST_PERIODS.includes(period)) {
+            throw new HttpError(400, `period must be one of: ${WAITLIST_PERIODS.join(', ')}`);
+        }
+        if (!WAITLIST_RANGES.includes(range)) {
+            throw new HttpError(400, `range must be one of: ${WAITLIST_RANGES.join(', ')}`);
+        }
+
+        const validation = FormValidator.validateWaitlist(details);
+        const consentNoticeVersion = stringField(body, 'consentNoticeVersion');
+        const consentError = FormValidator.validateConsent(consentNoticeVersion);
+        if (!validation.isValid || consentError) {
+            const errors = consentError ? { ...validation.errors, consent: consentError } : validation.errors;
+            throw new HttpError(422, 'Please fix the errors in your request', errors);
+        }
+
+        this.verification.assertVerified(stringField(body, 'verificationToken'), details.phoneNumber);
+
+        const fromDate = details.preferredDate;
+        const untilDate = range === 'week' ? addDays(fromDate, WEEK_DAYS - 1) : fromDate;
+        const entry = await this.db.update(data => {
+            const duplicate = data.waitlist.some(other => other.phoneNumber === details.phoneNumber
+                && other.serviceType === details.serviceType
+                && (other.status === 'waiting' || other.status === 'offered')
+                && other.fromDate <= untilDate && fromDate <= other.untilDate);
+            if (duplicate) {
+                throw new HttpError(409, 'You are already on the waitlist for these days');
+            }
+
+            const now = new Date().toISOString();
+            const created: WaitlistEntry = {
+                id: randomUUID(),
+                patientName: details.patientName,
+                phoneNumber: details.phoneNumber,
+                serviceType: details.serviceType,
+                period,
+                fromDate,
+                untilDate,
+                status: 'waiting',
+                declinedSlots: [],
+                consent: {
+                    purposes: [...BOOKING_CONSENT_PURPOSES],
+                    noticeVersion: consentNoticeVersion,
+                    givenAt: now
+                },
+                locale: localeField(body),
+                createdAt: now,
+                updatedAt: now
+            };
+            data.waitlist.push(created);
+            return created;
+        });
+
+        // A matching slot may already be free
+        void this.run();
+        return entry;
+    }
+
+    // The entry an offer link was sent for
+    findEntry(token: string): WaitlistEntry {
+        return this.db.query(data => findByToken(data, token));
+    }
+
+    getOffer(token: string): WaitlistOfferView {
+        const entry = this.db.query(data => findByToken(data, token));
+        const { offer } = entry;
+
+        let status: WaitlistOfferView['status'] = 'expired';
+        if (entry.status === 'booked') status = 'accepted';
+        else if (offer.declinedAt) status = 'declined';
+        else if (isOpen(entry)) status = 'open';
+
+        const view: WaitlistOfferView = {
+            patientName: entry.patientName,
+            serviceType: entry.serviceType,
+            date: offer.date,
+            time: offer.time,
+            expiresAt: offer.expiresAt,
+            status
+        };
+        if (entry.reference) view.reference = entry.reference;
+        return view;
+    }
+
+    // The patient stays on the waitlist for other slots; this one moves on straight away
+    async decline(token: string): Promise<WaitlistEntry> {
+        const entry = await this.db.update(data => {
+            const offered = findByToken(data, token);
+            if (!isOpen(offered)) {
+                throw new HttpError(409, 'This offer is no longer open');
+            }
+
+            const now = new Date().toISOString();
+            offered.declinedSlots.push(slotKey(offered.offer));
+            offered.offer.declinedAt = now;
+            offered.status = 'waiting';
+            offered.updatedAt = now;
+            return { ...offered };
+        });
+
+        void this.run();
+        return entry;
+    }
+
+    // Passes run one at a time; calls made while one is waiting share it
+    private run(): Promise<void> {
+        if (this.passQueued) return this.queue;
+        this.passQueued = true;
+
+        this.queue = this.queue.then(async () => {
+            this.passQueued = false;
+            try {
+                await this.offerFreeSlots();
+            } catch (error) {
+                console.error('Waitlist pass failed:', error);
+            }
+        });
+        return this.queue;
+    }
+
+    private async offerFreeSlots(): Promise<void> {
+        const now = Date.now();
+        // A patient cannot open a relative link from a text message, so without site.url nobody is offered a slot
+        const offering = this.siteUrl !== '';
+        // Most passes find nothing to do, so the database is only written when something changes
+        const hasWork = this.db.query(data => data.waitlist.some(entry => isLapsed(entry, now)
+            || (offering && entry.status === 'waiting' && findSlot(data, entry, now) !== null)));
+        if (!hasWork) return;
+
+        const offers = await this.db.update(data => {
+            const updatedAt = new Date(now).toISOString();
+            data.waitlist.filter(entry => isLapsed(entry, now)).forEach(entry => {
+                if (entry.status === 'offered' && entry.offer) {
+                    entry.declinedSlots.push(slotKey(entry.offer));
+                    entry.status = 'waiting';
+                } else {
+                    entry.status = 'expired';
+                }
+                entry.updatedAt = updatedAt;
+            });
+
+            const made: OfferedEntry[] = [];
+            data.waitlist
+                .filter(entry => offering && entry.status === 'waiting')
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+                .forEach(entry => {
+                    // Offers made earlier in this pass already hold their slots
+                    const slot = findSlot(data, entry, now);
+                    if (!slot) return;
+
+                    const offer: WaitlistOffer = {
+                        token: randomBytes(24).toString('base64url'),
+                        date: slot.date,
+                        time: slot.time,
+                        expiresAt: new Date(now + OFFER_MINUTES * MINUTE_MS).toISOString()
+                    };
+                    entry.status = 'offered';
+                    entry.offer = offer;
+                    entry.updatedAt = updatedAt;
+                    made.push({ ...entry, offer });
+                });
+            return made;
+        });
+
+        for (const entry of offers) {
+            await this.sendOffer(entry);
+        }
+    }
+
+    private async sendOffer(entry: OfferedEntry): Promise<void> {
+        try {
+            await this.sender.send(entry.phoneNumber, renderOffer(entry, `${this.siteUrl}/#/offer/${entry.offer.token}`));
+        } catch (error) {
+            // The patient cannot answer an offer they never got - free the slot and try again next pass
+            console.error(`Could not send waitlist offer ${entry.id}:`, error);
+            await this.db.update(data => {
+                const stored = data.waitlist.find(candidate => candidate.id === entry.id);
+                if (stored?.status !== 'offered' || stored.offer?.token !== entry.offer.token) return;
+                stored.status = 'waiting';
+                delete stored.offer;
+            });
+        }
+    }
+}
+
+// Slots held for open offers count as taken for everyone else
+export function heldSlots(waitlist: readonly WaitlistEntry[], now: number = Date.now()): ScheduledBooking[] {
+    return waitlist.flatMap(entry => isOpen(entry, now)
+        ? [{
+            preferredDate: entry.offer.date,
+            preferredTime: entry.offer.time,
+            serviceType: entry.serviceType,
+            durationMinutes: SlotScheduler.getServiceSchedule(entry.serviceType).durationMinutes,
+            status: 'pending' as const
+        }]
+        : []);
+}
+
+// Offered, and the patient still has time to answer
+export function isOpen(entry: WaitlistEntry, now: number = Date.now()): entry is OfferedEntry {
+    return entry.status === 'offered' && Boolean(entry.offer) && Date.parse(entry.offer?.expiresAt ?? '') > now;
+}
+
+// An unanswered offer (the patient goes back to waiting), or a wait whose last day has gone by (it ends)
+function isLapsed(entry: WaitlistEntry, now: number): boolean {
+    if (entry.status === 'offered') return !isOpen(entry, now);
+    return entry.status === 'waiting' && entry.untilDate < clinicNow(new Date(now)).date;
+}
+
+function findByToken(data: Readonly<DatabaseSchema>, token: string): OfferedEntry {
+    const entry = data.waitlist.find(candidate => candidate.offer?.token === token);
+    if (!entry?.offer) {
+        throw new HttpError(404, 'This offer was not found - it may have been replaced by a newer one');
+    }
+    return entry as OfferedEntry;
+}
+
+// The earliest free slot that suits the patient and leaves time to answer an offer
+function findSlot(data: Readonly<DatabaseSchema>, entry: WaitlistEntry, now: number): PlannedSession | null {
+    const bookings = [...data.appointments, ...heldSlots(data.waitlist, now)];
+    const earliestStart = now + (OFFER_MINUTES + MIN_NOTICE_MINUTES) * MINUTE_MS;
+    const today = clinicNow(new Date(now)).date;
+
+    for (let date = entry.fromDate > today ? entry.fromDate : today; date <= entry.untilDate; date = addDays(date, 1)) {
+        if (!ClinicCalendar.isOpen(date)) continue;
+
+        const slot = SlotScheduler.getAvailableSlots(date, entry.serviceType, bookings, new Date(now)).find(candidate =>
+            (entry.period === 'any' || candidate.period === entry.period)
+            && clinicTimestamp(date, candidate.start) >= earliestStart
+            && !entry.declinedSlots.includes(slotKey({ date, time: candidate.start })));
+        if (slot) return { date, time: slot.start };
+    }
+    return null;
+}
+
+function slotKey(slot: PlannedSession): string {
+    return `${slot.date} ${slot.time}`;
+}
+
+// In the language the patient joined the waitlist in
+function renderOffer(entry: OfferedEntry, link: string): string {
+    const { offer } = entry;
+    const expiry = clinicNow(new Date(offer.expiresAt));
+
+    return I18n.inLocale(entry.locale ?? DEFAULT_LOCALE, () => [
+        t('message.waitlistOffer', { name: entry.patientName }),
+        '',
+        ...bookingDetailLines(
+            { serviceType: entry.serviceType, preferredDate: offer.date, preferredTime: offer.time },
+            date => I18n.formatDate(date, 'long')
+        ),
+        '',
+        t('message.waitlistHeld', { time: I18n.formatTime(fromMinutes(expiry.minutes)), link }),
+        t('message.waitlistMovesOn')
+    ].join('\n'));
+}
+
+export function registerWaitlistRoutes(router: ApiRouter, waitlist: WaitlistService, appointments: AppointmentService, audit: AuditLog): void {
+    router.post('/api/waitlist', async ({ readJson }) => {
+        const entry = await waitlist.join(await readJson());
+        await audit.record('patient', 'waitlist.join', {
+            phoneNumber: entry.phoneNumber,
+            detail: `${entry.serviceType} ${entry.fromDate}..${entry.untilDate} (${entry.period})`
+        });
+
+        const receipt: WaitlistReceipt = {
+            serviceType: entry.serviceType,
+            period: entry.period,
+            fromDate: entry.fromDate,
+            untilDate: entry.untilDate
+        };
+        return json(receipt, 201);
+    });
+
+    // The token in the link is the only key, like a booking reference plus phone number
+    router.get('/api/waitlist/offers/:token', async ({ params }) => {
+        const offer = waitlist.getOffer(params.token || '');
+        await audit.record('patient', 'waitlist.view', {
+            phoneNumber: waitlist.findEntry(params.token || '').phoneNumber,
+            detail: `${offer.date} ${offer.time} (${offer.status})`
+        });
+        return json(offer);
+    });
+
+    router.post('/api/waitlist/offers/:token/accept', async ({ params }) => {
+        const appointment = await appointments.bookWaitlistOffer(params.token || '');
+        await audit.record('patient', 'waitlist.accept', {
+            reference: appointment.reference,
+            phoneNumber: appointment.phoneNumber
+        });
+        return json(waitlist.getOffer(params.token || ''));
+    });
+
+    router.post('/api/waitlist/offers/:token/decline', async ({ params }) => {
+        const entry = await waitlist.decline(params.token || '');
+        await audit.record('patient', 'waitlist.decline', { phoneNumber: entry.phoneNumber });
+        return json(waitlist.getOffer(params.token || ''));
+    });
+}
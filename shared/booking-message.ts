@@ -0,0 +1,45 @@
+// AAYURCURE - Booking details written out as message lines
+// The WhatsApp request a patient sends and the reminders the clinic sends back
+// describe the service, date and time in the same words.
+import { getServiceName } from './clinic-config.js';
+import { I18n, t } from './i18n.js';
+import { fromMinutes, SlotScheduler, toMinutes } from './scheduling.js';
+import type { AppointmentFormData, CourseLink } from './types.js';
+
+type BookingSlot = Pick<AppointmentFormData, 'serviceType' | 'preferredDate' | 'preferredTime'>;
+
+// A course request names its package; a stored session knows its place in the course
+type BookingDetails = BookingSlot & {
+    courseSessions?: string;
+    course?: CourseLink;
+};
+
+// "4:30 PM - 5:15 PM" for the length of the chosen service
+export function describeTimeSlot(booking: BookingSlot): string {
+    const { durationMinutes } = SlotScheduler.getServiceSchedule(booking.serviceType);
+    const end = fromMinutes(toMinutes(booking.preferredTime) + durationMinutes);
+    return `${I18n.formatTime(booking.preferredTime)} - ${I18n.formatTime(end)}`;
+}
+
+// Dates stay YYYY-MM-DD unless a formatter is given
+export function bookingDetailLines(booking: BookingDetails, formatDate: (date: string) => string = date => date): string[] {
+    const lines: string[] = [];
+
+    if (booking.serviceType) {
+        const service = I18n.serviceName(booking.serviceType, getServiceName(booking.serviceType));
+        lines.push(t('message.whatsappService', { service }));
+    }
+    if (booking.preferredDate) {
+        lines.push(t('message.whatsappDate', { date: formatDate(booking.preferredDate) }));
+    }
+    if (booking.preferredTime) {
+        lines.push(t('message.whatsappTime', { time: describeTimeSlot(booking) }));
+    }
+    if (booking.course) {
+        lines.push(t('message.courseSession', { session: booking.course.session, sessions: booking.course.sessions }));
+    } else if (booking.courseSessions) {
+        lines.push(t('message.coursePackage', { sessions: booking.courseSessions }));
+    }
+
+    return lines;
+}
@@ -0,0 +1,193 @@
+// AAYURCURE - Calendar invites (RFC 5545 .ics) and "add to calendar" links
+// Used by the website after a booking and by the staff schedule feed.
+// Times are clinic wall-clock times in hours.timeZone from config/clinic.json.
+// The VTIMEZONE is worked out from that zone for the events in the file: its
+// UTC offset at the first event, plus any daylight-saving change between them.
+import { clinicConfig } from './clinic-config.js';
+import { clinicNow, clinicTimestamp } from './dates.js';
+import { fromMinutes, toMinutes } from './scheduling.js';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface CalendarEvent {
+    uid: string;
+    date: string;
+    startTime: string;
+    durationMinutes: number;
+    summary: string;
+    description: string;
+    // Minutes before the start to remind; omit for no alarm
+    reminderMinutes?: number;
+}
+
+// Same UID from the website and the staff feed, so calendars update rather than duplicate
+export function appointmentUid(reference: string): string {
+    return `${reference}@${clinicConfig.shortName.toLowerCase()}`;
+}
+
+export function clinicLocation(): string {
+    const { address } = clinicConfig;
+    return `${clinicConfig.name}, ${address.streetAddress}, ${address.locality}, ${address.region}`;
+}
+
+// "2026-10-19" + "16:30" -> "20261019T163000"
+function toLocalStamp(date: string, time: string): string {
+    return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+// Minutes the clinic's clock is ahead of UTC at a moment
+function utcOffsetMinutes(at: number): number {
+    const minute = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+    const clinic = clinicNow(new Date(minute));
+    return (Date.parse(`${clinic.date}T00:00:00Z`) + clinic.minutes * MINUTE_MS - minute) / MINUTE_MS;
+}
+
+// 330 -> "+0530"
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+';
+    const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0');
+    return `${sign}${hours}${String(Math.abs(minutes) % 60).padStart(2, '0')}`;
+}
+
+// First minute on the new offset, between a moment on the old one and a moment on the new one
+function offsetChange(before: number, after: number): number {
+    const offset = utcOffsetMinutes(before);
+    while (after - before > MINUTE_MS) {
+        const middle = Math.floor((before + after) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (utcOffsetMinutes(middle) === offset) before = middle;
+        else after = middle;
+    }
+    return after;
+}
+
+// Each observance starts on the clock it replaces (RFC 5545 3.6.5)
+function observance(start: string, offsetFrom: number, offsetTo: number): string[] {
+    return [
+        'BEGIN:STANDARD',
+        `DTSTART:${start}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        'END:STANDARD'
+    ];
+}
+
+function timeZoneLines(events: CalendarEvent[], now: Date): string[] {
+    const starts = events.map(event => clinicTimestamp(event.date, event.startTime)).sort((a, b) => a - b);
+    let previous = starts[0] ?? now.getTime();
+    let offset = utcOffsetMinutes(previous);
+    const lines = observance('19700101T000000', offset, offset);
+
+    starts.forEach(start => {
+        const next = utcOffsetMinutes(start);
+        if (next !== offset) {
+            const localStart = new Date(offsetChange(previous, start) + offset * MINUTE_MS).toISOString();
+            lines.push(...observance(localStart.replace(/[-:]/g, '').slice(0, 15), offset, next));
+            offset = next;
+        }
+        previous = start;
+    });
+
+    return ['BEGIN:VTIMEZONE', `TZID:${clinicConfig.hours.timeZone}`, ...lines, 'END:VTIMEZONE'];
+}
+
+function endTime(event: CalendarEvent): string {
+    return fromMinutes(toMinutes(event.startTime) + event.durationMinutes);
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+
+    for (const character of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + character).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += character;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;TZID=${clinicConfig.hours.timeZone}:${toLocalStamp(event.date, event.startTime)}`,
+        `DTEND;TZID=${clinicConfig.hours.timeZone}:${toLocalStamp(event.date, endTime(event))}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+        `DESCRIPTION:${escapeText(event.description)}`,
+        `LOCATION:${escapeText(clinicLocation())}`
+    ];
+
+    if (event.reminderMinutes !== undefined) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(event.summary)}`,
+            `TRIGGER:-PT${event.reminderMinutes}M`,
+            'END:VALARM'
+        );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+export function buildIcs(events: CalendarEvent[], calendarName: string, now: Date = new Date()): string {
+    // DTSTAMP is UTC: 2026-10-19T10:04:05.123Z -> 20261019T100405Z
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:-//${clinicConfig.shortName}//Appointments//EN`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        `X-WR-TIMEZONE:${clinicConfig.hours.timeZone}`,
+        ...timeZoneLines(events, now),
+        ...events.flatMap(event => eventLines(event, stamp)),
+        'END:VCALENDAR'
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function googleCalendarUrl(event: CalendarEvent): string {
+    const params = new URLSearchParams({
+        action: 'TEMPLATE',
+        text: event.summary,
+        dates: `${toLocalStamp(event.date, event.startTime)}/${toLocalStamp(event.date, endTime(event))}`,
+        ctz: clinicConfig.hours.timeZone,
+        details: event.description,
+        location: clinicLocation()
+    });
+    return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+export function outlookCalendarUrl(event: CalendarEvent): string {
+    const params = new URLSearchParams({
+        path: '/calendar/action/compose',
+        rru: 'addevent',
+        subject: event.summary,
+        startdt: new Date(clinicTimestamp(event.date, event.startTime)).toISOString(),
+        enddt: new Date(clinicTimestamp(event.date, endTime(event))).toISOString(),
+        body: event.description,
+        location: clinicLocation()
+    });
+    return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+}
@@ -0,0 +1,120 @@
+// AAYURCURE - Clinic calendar: public holidays, planned leave and special hours
+// Exceptions live in config/calendar.json and override the weekly hours in
+// config/clinic.json for the dates they cover.
+import rawCalendar from '../config/calendar.json' with { type: 'json' };
+import { clinicConfig, ClinicConfigError, ConfigChecker, WEEKDAYS } from './clinic-config.js';
+import type { ClinicSession } from './clinic-config.js';
+import { addDays, dayOfWeek } from './dates.js';
+import { I18n, t } from './i18n.js';
+
+// holiday / leave close the clinic; special-hours replaces the sessions for the
+// day (extended hours, or opening on a day that is normally closed)
+export type CalendarExceptionType = 'holiday' | 'leave' | 'special-hours';
+
+export interface CalendarException {
+    type: CalendarExceptionType;
+    date: string;
+    endDate?: string;
+    reason: string;
+    sessions?: ClinicSession[];
+}
+
+export interface DayStatus {
+    date: string;
+    isOpen: boolean;
+    sessions: ClinicSession[];
+    // Why the day is closed or has unusual hours, ready to show to patients
+    reason: string;
+    exception?: CalendarException;
+}
+
+const EXCEPTION_TYPES: CalendarExceptionType[] = ['holiday', 'leave', 'special-hours'];
+
+export function parseClinicCalendar(raw: unknown): CalendarException[] {
+    const check = new ConfigChecker();
+    const calendar = check.object(raw, 'calendar');
+
+    check.array(calendar.exceptions, 'exceptions').forEach((value, index) => {
+        const path = `exceptions[${index}]`;
+        const exception = check.object(value, path);
+
+        check.oneOf(exception.type, EXCEPTION_TYPES, `${path}.type`);
+        check.date(exception.date, `${path}.date`);
+        check.string(exception.reason, `${path}.reason`);
+
+        if (exception.endDate !== undefined) {
+            check.date(exception.endDate, `${path}.endDate`);
+            if (String(exception.endDate) < String(exception.date)) {
+                check.problems.push(`${path}.endDate must not be before ${path}.date`);
+            }
+        }
+
+        if (exception.type === 'special-hours') {
+            const sessions = check.array(exception.sessions, `${path}.sessions`);
+            if (sessions.length === 0) {
+                check.problems.push(`${path}.sessions must list the hours for the day`);
+            }
+            sessions.forEach((session, sessionIndex) => check.session(session, `${path}.sessions[${sessionIndex}]`));
+        }
+    });
+
+    if (check.problems.length > 0) {
+        throw new ClinicConfigError(check.problems);
+    }
+
+    return (calendar.exceptions as CalendarException[])
+        .slice()
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const calendarExceptions: CalendarException[] = parseClinicCalendar(rawCalendar);
+
+export class ClinicCalendar {
+    static getException(date: string): CalendarException | undefined {
+        // Closures win over special hours when both cover the same day
+        const matches = calendarExceptions.filter(exception =>
+            exception.date <= date && date <= (exception.endDate || exception.date));
+        return matches.find(exception => exception.type !== 'special-hours') || matches[0];
+    }
+
+    static getDayStatus(date: string): DayStatus {
+        const exception = this.getException(date);
+
+        if (exception) {
+            if (exception.type === 'special-hours') {
+                return { date, isOpen: true, sessions: exception.sessions || [], reason: exception.reason, exception };
+            }
+            return { date, isOpen: false, sessions: [], reason: t('calendar.closedFor', { reason: exception.reason }), exception };
+        }
+
+        const dayIndex = dayOfWeek(date);
+        const weekday = WEEKDAYS[dayIndex]!;
+        if (clinicConfig.hours.openDays.includes(weekday)) {
+            return { date, isOpen: true, sessions: clinicConfig.hours.sessions, reason: '' };
+        }
+
+        const reason = clinicConfig.hours.appointmentOnlyDays.includes(weekday)
+            ? t('calendar.appointmentOnly', { day: I18n.weekdayName(dayIndex) })
+            : t('calendar.closedOn', { day: I18n.weekdayName(dayIndex) });
+        return { date, isOpen: false, sessions: [], reason };
+    }
+
+    static isOpen(date: string): boolean {
+        return this.getDayStatus(date).isOpen;
+    }
+
+    // First open day on or after the given date (searches up to a year ahead)
+    static firstOpenDate(from: string): string {
+        for (let offset = 0; offset < 366; offset++) {
+            const date = addDays(from, offset);
+            if (this.isOpen(date)) return date;
+        }
+        return from;
+    }
+
+    // Exceptions that touch the given range, for notices on the website
+    static getExceptionsBetween(from: string, to: string): CalendarException[] {
+        return calendarExceptions.filter(exception =>
+            exception.date <= to && (exception.endDate || exception.date) >= from);
+    }
+}
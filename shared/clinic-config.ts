@@ -0,0 +1,277 @@
+// AAYURCURE - Clinic configuration (hours, services, contacts, capacity)
+// Every clinic fact lives in config/clinic.json; this module checks it once
+// at startup so a bad edit fails loudly instead of breaking bookings later.
+import rawClinicConfig from '../config/clinic.json' with { type: 'json' };
+
+export type StaffRole = 'doctor' | 'therapist';
+export type RoomType = 'consultation' | 'therapy';
+export type SessionPeriod = 'morning' | 'evening';
+// Drawn by client/service-icons.ts
+export type ServiceIcon = 'leaf' | 'star' | 'check-circle' | 'figure' | 'layers' | 'smile' | 'clipboard' | 'child';
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface ClinicSession {
+    period: SessionPeriod;
+    label: string;
+    start: string;
+    end: string;
+}
+
+// The catalog's summary, preparation and contraindications are translated text (service.<id>.* in locales/)
+export interface ServiceConfig {
+    // Also the service's address on the website, e.g. #/services/panchkarma
+    id: string;
+    name: string;
+    durationMinutes: number;
+    staff: StaffRole;
+    room: RoomType;
+    icon: ServiceIcon;
+    // '' for services without a photo
+    image: string;
+    // null shows "ask the clinic"
+    priceInr: number | null;
+    // Packages offered as a treatment course of daily sessions, e.g. [7, 14, 21]; [] for single visits only
+    courseSessions: number[];
+}
+
+export interface ClinicConfig {
+    name: string;
+    shortName: string;
+    description: string;
+    site: {
+        // Public address of the website without a trailing slash, e.g. "https://www.example.in";
+        // '' until the site is published. Canonical links, the sitemap and social tags need it,
+        // and waitlist offers link to the website so none are sent without it
+        url: string;
+        // Shared on social media and in search results
+        image: string;
+    };
+    contact: {
+        phone: string;
+        whatsapp: string;
+        email: string;
+    };
+    address: {
+        streetAddress: string;
+        locality: string;
+        region: string;
+        country: string;
+    };
+    doctor: {
+        name: string;
+        title: string;
+        registration: string;
+    };
+    hours: {
+        timeZone: string;
+        slotIntervalMinutes: number;
+        openDays: Weekday[];
+        appointmentOnlyDays: Weekday[];
+        sessions: ClinicSession[];
+    };
+    capacity: {
+        staff: Record<StaffRole, number>;
+        rooms: Record<RoomType, number>;
+    };
+    privacy: {
+        // Bookings and everything attached to them are deleted this long after the visit
+        retentionDays: number;
+    };
+    defaultService: string;
+    services: ServiceConfig[];
+}
+
+export class ClinicConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid clinic configuration:\n  - ${problems.join('\n  - ')}`);
+        this.name = 'ClinicConfigError';
+    }
+}
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const STAFF_ROLES: StaffRole[] = ['doctor', 'therapist'];
+const ROOM_TYPES: RoomType[] = ['consultation', 'therapy'];
+const SESSION_PERIODS: SessionPeriod[] = ['morning', 'evening'];
+const SERVICE_ICONS: ServiceIcon[] = ['leaf', 'star', 'check-circle', 'figure', 'layers', 'smile', 'clipboard', 'child'];
+const SERVICE_ID_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Collects every problem rather than stopping at the first one
+export class ConfigChecker {
+    readonly problems: string[] = [];
+
+    string(value: unknown, path: string, allowEmpty: boolean = false): void {
+        if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+            this.problems.push(`${path} must be a ${allowEmpty ? '' : 'non-empty '}string`);
+        }
+    }
+
+    positiveInteger(value: unknown, path: string): void {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+            this.problems.push(`${path} must be a positive whole number`);
+        }
+    }
+
+    time(value: unknown, path: string): void {
+        if (typeof value !== 'string' || !TIME_REGEX.test(value)) {
+            this.problems.push(`${path} must be a 24-hour time like "09:30"`);
+        }
+    }
+
+    date(value: unknown, path: string): void {
+        if (typeof value !== 'string' || !DATE_REGEX.test(value) || Number.isNaN(Date.parse(value))) {
+            this.problems.push(`${path} must be a date like "2026-10-20"`);
+        }
+    }
+
+    oneOf<T>(value: unknown, allowed: readonly T[], path: string): void {
+        if (!allowed.includes(value as T)) {
+            this.problems.push(`${path} must be one of: ${allowed.join(', ')}`);
+        }
+    }
+
+    session(value: unknown, path: string): void {
+        const session = this.object(value, path);
+        this.oneOf(session.period, SESSION_PERIODS, `${path}.period`);
+        this.string(session.label, `${path}.label`);
+        this.time(session.start, `${path}.start`);
+        this.time(session.end, `${path}.end`);
+
+        const start = String(session.start);
+        const end = String(session.end);
+        if (TIME_REGEX.test(start) && TIME_REGEX.test(end) && start >= end) {
+            this.problems.push(`${path} must end after it starts`);
+        }
+    }
+
+    array(value: unknown, path: string): unknown[] {
+        if (!Array.isArray(value)) {
+            this.problems.push(`${path} must be a list`);
+            return [];
+        }
+        return value;
+    }
+
+    object(value: unknown, path: string): Record<string, unknown> {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            this.problems.push(`${path} must be an object`);
+            return {};
+        }
+        return value as Record<string, unknown>;
+    }
+}
+
+export function parseClinicConfig(raw: unknown): ClinicConfig {
+    const check = new ConfigChecker();
+    const config = check.object(raw, 'config');
+
+    check.string(config.name, 'name');
+    check.string(config.shortName, 'shortName');
+    check.string(config.description, 'description');
+
+    const site = check.object(config.site, 'site');
+    check.string(site.url, 'site.url', true);
+    if (typeof site.url === 'string' && site.url !== '' && !/^https?:\/\/[^/\s]+(\/[^\s]*[^/\s])?$/.test(site.url)) {
+        check.problems.push('site.url must be a web address without a trailing slash like "https://www.example.in"');
+    }
+    check.string(site.image, 'site.image');
+
+    const contact = check.object(config.contact, 'contact');
+    check.string(contact.phone, 'contact.phone');
+    if (typeof contact.phone === 'string' && !/^\+\d{10,15}$/.test(contact.phone)) {
+        check.problems.push('contact.phone must be in international format like "+917359171081"');
+    }
+    check.string(contact.whatsapp, 'contact.whatsapp');
+    check.string(contact.email, 'contact.email', true);
+
+    const address = check.object(config.address, 'address');
+    ['streetAddress', 'locality', 'region', 'country'].forEach(field => {
+        check.string(address[field], `address.${field}`);
+    });
+
+    const doctor = check.object(config.doctor, 'doctor');
+    ['name', 'title', 'registration'].forEach(field => {
+        check.string(doctor[field], `doctor.${field}`);
+    });
+
+    const hours = check.object(config.hours, 'hours');
+    check.string(hours.timeZone, 'hours.timeZone');
+    check.positiveInteger(hours.slotIntervalMinutes, 'hours.slotIntervalMinutes');
+    check.array(hours.openDays, 'hours.openDays').forEach((day, index) => {
+        check.oneOf(day, WEEKDAYS, `hours.openDays[${index}]`);
+    });
+    check.array(hours.appointmentOnlyDays, 'hours.appointmentOnlyDays').forEach((day, index) => {
+        check.oneOf(day, WEEKDAYS, `hours.appointmentOnlyDays[${index}]`);
+    });
+
+    const sessions = check.array(hours.sessions, 'hours.sessions');
+    if (sessions.length === 0) {
+        check.problems.push('hours.sessions must list at least one session');
+    }
+    sessions.forEach((value, index) => check.session(value, `hours.sessions[${index}]`));
+
+    const capacity = check.object(config.capacity, 'capacity');
+    const staff = check.object(capacity.staff, 'capacity.staff');
+    STAFF_ROLES.forEach(role => check.positiveInteger(staff[role], `capacity.staff.${role}`));
+    const rooms = check.object(capacity.rooms, 'capacity.rooms');
+    ROOM_TYPES.forEach(room => check.positiveInteger(rooms[room], `capacity.rooms.${room}`));
+
+    const privacy = check.object(config.privacy, 'privacy');
+    check.positiveInteger(privacy.retentionDays, 'privacy.retentionDays');
+
+    const serviceIds = new Set<string>();
+    check.array(config.services, 'services').forEach((value, index) => {
+        const service = check.object(value, `services[${index}]`);
+        check.string(service.id, `services[${index}].id`);
+        check.string(service.name, `services[${index}].name`);
+        check.positiveInteger(service.durationMinutes, `services[${index}].durationMinutes`);
+        check.oneOf(service.staff, STAFF_ROLES, `services[${index}].staff`);
+        check.oneOf(service.room, ROOM_TYPES, `services[${index}].room`);
+        check.oneOf(service.icon, SERVICE_ICONS, `services[${index}].icon`);
+        check.string(service.image, `services[${index}].image`, true);
+        if (service.priceInr !== null) {
+            check.positiveInteger(service.priceInr, `services[${index}].priceInr`);
+        }
+        check.array(service.courseSessions, `services[${index}].courseSessions`).forEach((sessions, sessionIndex) => {
+            if (typeof sessions !== 'number' || !Number.isInteger(sessions) || sessions < 2) {
+                check.problems.push(`services[${index}].courseSessions[${sessionIndex}] must be a whole number of at least 2`);
+            }
+        });
+
+        if (typeof service.id === 'string' && !SERVICE_ID_REGEX.test(service.id)) {
+            check.problems.push(`services[${index}].id must be lowercase letters, digits and dashes like "hair-skin"`);
+        }
+        if (typeof service.id === 'string') {
+            if (serviceIds.has(service.id)) {
+                check.problems.push(`services[${index}].id "${service.id}" is used more than once`);
+            }
+            serviceIds.add(service.id);
+        }
+    });
+
+    if (typeof config.defaultService !== 'string' || !serviceIds.has(config.defaultService)) {
+        check.problems.push('defaultService must be the id of one of the services');
+    }
+
+    if (check.problems.length > 0) {
+        throw new ClinicConfigError(check.problems);
+    }
+
+    return raw as ClinicConfig;
+}
+
+export const clinicConfig: ClinicConfig = parseClinicConfig(rawClinicConfig);
+
+export function getService(serviceId: string): ServiceConfig | undefined {
+    return clinicConfig.services.find(service => service.id === serviceId);
+}
+
+export function getServiceName(serviceId: string): string {
+    return getService(serviceId)?.name || serviceId;
+}
+
+export function weekdayIndex(day: Weekday): number {
+    return WEEKDAYS.indexOf(day);
+}
@@ -0,0 +1,53 @@
+// AAYURCURE - Treatment course planning (runs in the browser and on the server)
+// A course is one session a day from the start date, skipping days the clinic
+// is closed. Each session keeps the patient's chosen time when it is free and
+// otherwise takes the nearest free slot that day; a fully booked day is skipped.
+import { ClinicCalendar } from './clinic-calendar.js';
+import { addDays } from './dates.js';
+import { SlotScheduler, toMinutes, type ScheduledBooking } from './scheduling.js';
+import type { PlannedSession } from './types.js';
+
+// How far past the start date a course may stretch before the planner gives up
+const MAX_COURSE_DAYS = 90;
+
+export class CoursePlanner {
+    // null when the clinic cannot fit every session within MAX_COURSE_DAYS
+    static plan(
+        serviceType: string,
+        sessions: number,
+        startDate: string,
+        time: string,
+        bookings: readonly ScheduledBooking[],
+        now: Date = new Date()
+    ): PlannedSession[] | null {
+        const { durationMinutes } = SlotScheduler.getServiceSchedule(serviceType);
+        const taken = [...bookings];
+        const planned: PlannedSession[] = [];
+
+        for (let offset = 0; offset < MAX_COURSE_DAYS && planned.length < sessions; offset++) {
+            const date = addDays(startDate, offset);
+            if (!ClinicCalendar.isOpen(date)) continue;
+
+            const slot = this.nearestSlot(SlotScheduler.getAvailableSlots(date, serviceType, taken, now), time);
+            if (!slot) continue;
+
+            planned.push({ date, time: slot });
+            // Later sessions must not double-book the ones already planned
+            taken.push({ preferredDate: date, preferredTime: slot, serviceType, durationMinutes, status: 'pending' });
+        }
+
+        return planned.length === sessions ? planned : null;
+    }
+
+    private static nearestSlot(slots: { start: string }[], time: string): string | null {
+        const wanted = toMinutes(time);
+        let best: string | null = null;
+
+        for (const slot of slots) {
+            if (best === null || Math.abs(toMinutes(slot.start) - wanted) < Math.abs(toMinutes(best) - wanted)) {
+                best = slot.start;
+            }
+        }
+        return best;
+    }
+}
@@ -0,0 +1,56 @@
+// AAYURCURE - Calendar date helpers for YYYY-MM-DD strings in clinic time
+import { clinicConfig } from './clinic-config.js';
+
+export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function toUTCDate(date: string): Date {
+    const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function isValidDate(date: string): boolean {
+    return DATE_REGEX.test(date) && toUTCDate(date).toISOString().slice(0, 10) === date;
+}
+
+// Day of week for a YYYY-MM-DD string, independent of the runtime's time zone
+export function dayOfWeek(date: string): number {
+    return toUTCDate(date).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+    const result = toUTCDate(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+}
+
+// Epoch milliseconds for a date and "HH:MM" time on the clinic's clock
+export function clinicTimestamp(date: string, time: string): number {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    const wallClock = toUTCDate(date).getTime() + (hours * 60 + minutes) * 60 * 1000;
+
+    // How far the clinic's clock is ahead of UTC around that moment
+    const clinic = clinicNow(new Date(wallClock));
+    const offset = toUTCDate(clinic.date).getTime() + clinic.minutes * 60 * 1000 - wallClock;
+    return wallClock - offset;
+}
+
+// Current date and minutes past midnight at the clinic
+export function clinicNow(now: Date = new Date()): { date: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone: clinicConfig.hours.timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+    }).formatToParts(now);
+
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+        parts.find(p => p.type === type)?.value || '00';
+
+    return {
+        date: `${part('year')}-${part('month')}-${part('day')}`,
+        minutes: Number(part('hour')) * 60 + Number(part('minute'))
+    };
+}
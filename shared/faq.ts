@@ -0,0 +1,48 @@
+// AAYURCURE - Frequently asked questions
+// The questions and their topics are listed here; the wording lives in the
+// locale files as faq.<id>.question and faq.<id>.answer. An id is also the
+// question's address on the website (#/faq/panchkarma), so keep it once published.
+import { t, type MessageKey } from './i18n.js';
+
+export type FaqCategory = 'treatments' | 'appointments' | 'privacy';
+
+export interface FaqEntry {
+    id: string;
+    category: FaqCategory;
+}
+
+export const FAQ_CATEGORIES: FaqCategory[] = ['treatments', 'appointments', 'privacy'];
+
+// In the order they are shown
+export const FAQ_ENTRIES: FaqEntry[] = [
+    { id: 'panchkarma', category: 'treatments' },
+    { id: 'swarnaprash', category: 'treatments' },
+    { id: 'duration', category: 'treatments' },
+    { id: 'booking', category: 'appointments' },
+    { id: 'manage', category: 'appointments' },
+    { id: 'privacy', category: 'privacy' }
+];
+
+export function faqQuestion(entry: FaqEntry): string {
+    return t(`faq.${entry.id}.question` as MessageKey);
+}
+
+export function faqAnswer(entry: FaqEntry): string {
+    return t(`faq.${entry.id}.answer` as MessageKey);
+}
+
+// schema.org FAQPage in the current language
+export function buildFaqSchema(entries: FaqEntry[] = FAQ_ENTRIES): Record<string, unknown> {
+    return {
+        '@context': 'https://schema.org',
+        '@type': 'FAQPage',
+        mainEntity: entries.map(entry => ({
+            '@type': 'Question',
+            name: faqQuestion(entry),
+            acceptedAnswer: {
+                '@type': 'Answer',
+                text: faqAnswer(entry)
+            }
+        }))
+    };
+}
@@ -0,0 +1,140 @@
+// AAYURCURE - Translations for the website and patient messages
+// Catalogs live in locales/*.json with flat dot keys. English is the source of
+// truth: other locales may leave keys out (English is shown instead) but may
+// not invent keys that English does not have.
+import en from '../locales/en.json' with { type: 'json' };
+import kn from '../locales/kn.json' with { type: 'json' };
+import hi from '../locales/hi.json' with { type: 'json' };
+import { ClinicConfigError, ConfigChecker } from './clinic-config.js';
+
+export type Locale = 'en' | 'kn' | 'hi';
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleInfo {
+    code: Locale;
+    // Shown in the language switcher in the language itself
+    nativeName: string;
+    // BCP 47 tag for Intl date and time formatting
+    tag: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+    { code: 'en', nativeName: 'English', tag: 'en-IN' },
+    { code: 'kn', nativeName: 'ಕನ್ನಡ', tag: 'kn-IN' },
+    { code: 'hi', nativeName: 'हिन्दी', tag: 'hi-IN' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+type Catalog = Partial<Record<MessageKey, string>>;
+
+export function parseCatalog(raw: unknown, locale: Locale): Catalog {
+    const check = new ConfigChecker();
+    const catalog = check.object(raw, `locales/${locale}.json`);
+
+    Object.keys(catalog).forEach(key => {
+        if (!(key in en)) {
+            check.problems.push(`locales/${locale}.json has unknown key "${key}"`);
+        }
+        check.string(catalog[key], `locales/${locale}.json "${key}"`);
+    });
+
+    if (check.problems.length > 0) {
+        throw new ClinicConfigError(check.problems);
+    }
+
+    return catalog as Catalog;
+}
+
+const CATALOGS: Record<Locale, Catalog> = {
+    en: parseCatalog(en, 'en'),
+    kn: parseCatalog(kn, 'kn'),
+    hi: parseCatalog(hi, 'hi')
+};
+
+type LocaleListener = (locale: Locale) => void;
+
+export class I18n {
+    private static locale: Locale = DEFAULT_LOCALE;
+    private static listeners: LocaleListener[] = [];
+
+    static isLocale(value: unknown): value is Locale {
+        return LOCALES.some(info => info.code === value);
+    }
+
+    static getLocale(): Locale {
+        return this.locale;
+    }
+
+    static getLocaleInfo(locale: Locale = this.locale): LocaleInfo {
+        return LOCALES.find(info => info.code === locale)!;
+    }
+
+    static setLocale(locale: Locale): void {
+        if (locale === this.locale) return;
+        this.locale = locale;
+        this.listeners.forEach(listener => listener(locale));
+    }
+
+    static onChange(listener: LocaleListener): void {
+        this.listeners.push(listener);
+    }
+
+    // Renders in another language without telling listeners; the API writes each
+    // patient's messages in the language they booked in
+    static inLocale<T>(locale: Locale, render: () => T): T {
+        const previous = this.locale;
+        this.locale = locale;
+        try {
+            return render();
+        } finally {
+            this.locale = previous;
+        }
+    }
+
+    // "Hello {name}" + { name: 'Asha' } -> "Hello Asha"
+    static t(key: MessageKey, params: MessageParams = {}): string {
+        const template = CATALOGS[this.locale][key] ?? en[key];
+        return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+            name in params ? String(params[name]) : placeholder);
+    }
+
+    // Service names from config/clinic.json are English; translated ones are optional
+    static serviceName(serviceId: string, fallback: string): string {
+        const key = `service.${serviceId}`;
+        return key in en ? this.t(key as MessageKey) : fallback;
+    }
+
+    // Catalog text for a service (service.<id>.summary etc.); '' when none is written yet
+    static serviceText(serviceId: string, field: 'summary' | 'preparation' | 'contraindications' | 'imageAlt'): string {
+        const key = `service.${serviceId}.${field}`;
+        return key in en ? this.t(key as MessageKey) : '';
+    }
+
+    // YYYY-MM-DD is a calendar date, so format it in UTC to avoid shifting the day
+    static formatDate(date: string, style: 'short' | 'long' = 'long'): string {
+        const options: Intl.DateTimeFormatOptions = style === 'long'
+            ? { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }
+            : { weekday: 'short', day: 'numeric', month: 'short' };
+        return new Intl.DateTimeFormat(this.getLocaleInfo().tag, { ...options, timeZone: 'UTC' })
+            .format(new Date(`${date}T00:00:00Z`));
+    }
+
+    // English keeps the "4:30 PM" style used everywhere else (en-IN gives "4:30 pm")
+    static formatTime(time: string): string {
+        const tag = this.locale === 'en' ? 'en-US' : this.getLocaleInfo().tag;
+        return new Intl.DateTimeFormat(tag, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })
+            .format(new Date(`1970-01-01T${time}:00Z`));
+    }
+
+    // 0 = Sunday, matching dayOfWeek() in dates.ts (4 Jan 1970 was a Sunday)
+    static weekdayName(dayIndex: number, style: 'long' | 'short' = 'long'): string {
+        return new Intl.DateTimeFormat(this.getLocaleInfo().tag, { weekday: style, timeZone: 'UTC' })
+            .format(new Date(Date.UTC(1970, 0, 4 + dayIndex)));
+    }
+}
+
+export function t(key: MessageKey, params?: MessageParams): string {
+    return I18n.t(key, params);
+}
@@ -0,0 +1,147 @@
+// AAYURCURE - Pre-visit health questionnaire (runs in the browser and on the server)
+// Each step is checked on its own so a patient can save halfway and come
+// back later. Choices are stored as option ids and shown through the locale
+// files as intake.<field>.<id>.
+import { t } from './i18n.js';
+import type { IntakeAnswers, IntakeStep, ValidationResult } from './types.js';
+
+export const INTAKE_STEPS: IntakeStep[] = ['complaints', 'history', 'medications', 'background'];
+
+export const INTAKE_STEP_FIELDS: Record<IntakeStep, (keyof IntakeAnswers)[]> = {
+    complaints: ['complaints', 'complaintDuration'],
+    history: ['conditions', 'otherConditions'],
+    medications: ['medications', 'allergies'],
+    background: ['pregnancyStatus', 'priorTreatment', 'priorTreatmentDetails']
+};
+
+export const COMPLAINT_DURATIONS = ['under-week', 'weeks', 'months', 'over-year'];
+
+// "none" rules out every other condition
+export const INTAKE_CONDITIONS = [
+    'diabetes',
+    'hypertension',
+    'thyroid',
+    'asthma',
+    'heart-disease',
+    'arthritis',
+    'pcos',
+    'digestive',
+    'skin',
+    'none'
+];
+
+export const PREGNANCY_STATUSES = ['not-applicable', 'no', 'yes', 'breastfeeding'];
+
+export const PRIOR_TREATMENT_OPTIONS = ['no', 'yes'];
+
+export function emptyIntakeAnswers(): IntakeAnswers {
+    return {
+        complaints: '',
+        complaintDuration: '',
+        conditions: [],
+        otherConditions: '',
+        medications: '',
+        allergies: '',
+        pregnancyStatus: '',
+        priorTreatment: '',
+        priorTreatmentDetails: ''
+    };
+}
+
+export class IntakeValidator {
+    private static readonly MAX_TEXT_LENGTH = 1000;
+
+    static validateComplaints(complaints: string): string {
+        if (complaints.trim().length === 0) {
+            return t('validation.intakeComplaintsRequired');
+        }
+        return this.validateLength(complaints);
+    }
+
+    static validateChoice(value: string, options: string[]): string {
+        return options.includes(value) ? '' : t('validation.intakeChoiceRequired');
+    }
+
+    static validateConditions(conditions: string[], otherConditions: string): string {
+        if (conditions.some(condition => !INTAKE_CONDITIONS.includes(condition))) {
+            return t('validation.intakeChoiceRequired');
+        }
+        if (conditions.length === 0 && otherConditions.trim().length === 0) {
+            return t('validation.intakeConditionsRequired');
+        }
+        if (conditions.includes('none') && (conditions.length > 1 || otherConditions.trim().length > 0)) {
+            return t('validation.intakeConditionsNone');
+        }
+        return '';
+    }
+
+    // Medicines and allergies must be answered, even if only with "None"
+    static validateRequiredText(text: string, field: 'medications' | 'allergies'): string {
+        if (text.trim().length === 0) {
+            return field === 'medications'
+                ? t('validation.intakeMedicationsRequired')
+                : t('validation.intakeAllergiesRequired');
+        }
+        return this.validateLength(text);
+    }
+
+    static validatePriorTreatmentDetails(priorTreatment: string, details: string): string {
+        if (priorTreatment === 'yes' && details.trim().length === 0) {
+            return t('validation.intakeDetailsRequired');
+        }
+        return this.validateLength(details);
+    }
+
+    static validateStep(step: IntakeStep, answers: IntakeAnswers): ValidationResult {
+        const errors: Record<string, string> = {};
+
+        switch (step) {
+            case 'complaints':
+                errors.complaints = this.validateComplaints(answers.complaints);
+                errors.complaintDuration = this.validateChoice(answers.complaintDuration, COMPLAINT_DURATIONS);
+                break;
+            case 'history':
+                errors.conditions = this.validateConditions(answers.conditions, answers.otherConditions);
+                errors.otherConditions = this.validateLength(answers.otherConditions);
+                break;
+            case 'medications':
+                errors.medications = this.validateRequiredText(answers.medications, 'medications');
+                errors.allergies = this.validateRequiredText(answers.allergies, 'allergies');
+                break;
+            case 'background':
+                errors.pregnancyStatus = this.validateChoice(answers.pregnancyStatus, PREGNANCY_STATUSES);
+                errors.priorTreatment = this.validateChoice(answers.priorTreatment, PRIOR_TREATMENT_OPTIONS);
+                errors.priorTreatmentDetails = this.validatePriorTreatmentDetails(
+                    answers.priorTreatment, answers.priorTreatmentDetails
+                );
+                break;
+        }
+
+        // Clean up empty error messages
+        Object.keys(errors).forEach(key => {
+            if (!errors[key]) {
+                delete errors[key];
+            }
+        });
+
+        return {
+            isValid: Object.keys(errors).length === 0,
+            errors
+        };
+    }
+
+    // Every step, for the final submission
+    static validateAll(answers: IntakeAnswers): ValidationResult {
+        const errors = Object.assign({}, ...INTAKE_STEPS.map(step => this.validateStep(step, answers).errors)) as Record<string, string>;
+        return {
+            isValid: Object.keys(errors).length === 0,
+            errors
+        };
+    }
+
+    private static validateLength(text: string): string {
+        return text.trim().length > this.MAX_TEXT_LENGTH
+            ? t('validation.intakeTooLong', { max: this.MAX_TEXT_LENGTH })
+            : '';
+    }
+}
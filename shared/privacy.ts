@@ -0,0 +1,10 @@
+// AAYURCURE - Privacy notice version and consent purposes (DPDP Act, 2023)
+// The notice itself is in the locale files under privacy.*. Change the version
+// whenever its wording changes: bookings record the version the patient agreed
+// to, and visitors are asked about analytics again.
+export const PRIVACY_NOTICE_VERSION = '2026-10-19';
+
+export type ConsentPurpose = 'booking' | 'health-information';
+
+// Agreed to with the booking form's consent checkbox
+export const BOOKING_CONSENT_PURPOSES: ConsentPurpose[] = ['booking', 'health-information'];
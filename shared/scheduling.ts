@@ -0,0 +1,138 @@
+// AAYURCURE - Slot scheduling (clinic sessions, service durations, staff and room capacity)
+import { ClinicCalendar } from './clinic-calendar.js';
+import { clinicConfig, getService } from './clinic-config.js';
+import type { ClinicSession, ServiceConfig, SessionPeriod } from './clinic-config.js';
+import { clinicNow } from './dates.js';
+import type { Appointment } from './types.js';
+
+export interface TimeSlot {
+    start: string;
+    end: string;
+    period: SessionPeriod;
+}
+
+// Only the fields the scheduler needs from a stored appointment
+export type ScheduledBooking = Pick<Appointment,
+    'preferredDate' | 'preferredTime' | 'serviceType' | 'durationMinutes' | 'status'>;
+
+export function toMinutes(time: string): number {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+export function fromMinutes(totalMinutes: number): string {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// "16:30" -> "4:30 PM"
+export function formatTime(time: string): string {
+    const totalMinutes = toMinutes(time);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    const suffix = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours % 12 || 12;
+    return `${displayHours}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+export class SlotScheduler {
+    static getServiceSchedule(serviceType: string): ServiceConfig {
+        return getService(serviceType)
+            || getService(clinicConfig.defaultService)!;
+    }
+
+    // Regular weekly hours unless the clinic calendar closes or changes the day
+    static getSessions(date: string): ClinicSession[] {
+        return ClinicCalendar.getDayStatus(date).sessions;
+    }
+
+    // Every start time the service could fit into, whether booked or not
+    static getCandidateSlots(date: string, serviceType: string): TimeSlot[] {
+        const { durationMinutes } = this.getServiceSchedule(serviceType);
+        const interval = clinicConfig.hours.slotIntervalMinutes;
+        const slots: TimeSlot[] = [];
+
+        this.getSessions(date).forEach(session => {
+            const sessionEnd = toMinutes(session.end);
+            for (let start = toMinutes(session.start); start + durationMinutes <= sessionEnd; start += interval) {
+                slots.push({
+                    start: fromMinutes(start),
+                    end: fromMinutes(start + durationMinutes),
+                    period: session.period
+                });
+            }
+        });
+
+        return slots;
+    }
+
+    static getAvailableSlots(
+        date: string,
+        serviceType: string,
+        bookings: readonly ScheduledBooking[],
+        now: Date = new Date()
+    ): TimeSlot[] {
+        const clinicToday = clinicNow(now);
+        if (date < clinicToday.date) return [];
+
+        return this.getCandidateSlots(date, serviceType).filter(slot => {
+            if (date === clinicToday.date && toMinutes(slot.start) <= clinicToday.minutes) {
+                return false;
+            }
+            return this.hasCapacity(date, slot, serviceType, bookings);
+        });
+    }
+
+    static isSlotAvailable(
+        date: string,
+        time: string,
+        serviceType: string,
+        bookings: readonly ScheduledBooking[],
+        now: Date = new Date()
+    ): boolean {
+        return this.getAvailableSlots(date, serviceType, bookings, now)
+            .some(slot => slot.start === time);
+    }
+
+    private static hasCapacity(
+        date: string,
+        slot: TimeSlot,
+        serviceType: string,
+        bookings: readonly ScheduledBooking[]
+    ): boolean {
+        const schedule = this.getServiceSchedule(serviceType);
+        const slotStart = toMinutes(slot.start);
+        const slotEnd = toMinutes(slot.end);
+
+        const overlapping = bookings.filter(booking => {
+            if (booking.status === 'cancelled' || booking.status === 'no-show') return false;
+            if (booking.preferredDate !== date || !booking.preferredTime) return false;
+
+            const bookingStart = toMinutes(booking.preferredTime);
+            const bookingEnd = bookingStart + booking.durationMinutes;
+            return bookingStart < slotEnd && slotStart < bookingEnd;
+        });
+
+        // Bookings that overlap the slot but not each other could share one
+        // therapist, so checking the busiest minute is exact rather than pessimistic
+        for (let minute = slotStart; minute < slotEnd; minute += 5) {
+            const active = overlapping.filter(booking => {
+                const bookingStart = toMinutes(booking.preferredTime);
+                return bookingStart <= minute && minute < bookingStart + booking.durationMinutes;
+            });
+
+            const staffInUse = active.filter(booking =>
+                this.getServiceSchedule(booking.serviceType).staff === schedule.staff).length;
+            const roomsInUse = active.filter(booking =>
+                this.getServiceSchedule(booking.serviceType).room === schedule.room).length;
+
+            const { staff, rooms } = clinicConfig.capacity;
+            if (staffInUse >= staff[schedule.staff] || roomsInUse >= rooms[schedule.room]) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
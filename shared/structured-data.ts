@@ -0,0 +1,111 @@
+// AAYURCURE - schema.org structured data for the clinic
+// One graph of MedicalClinic, Physician and a MedicalProcedure per service,
+// built from config/clinic.json and the service text in the locale files.
+// The SEO generator (scripts/seo.ts) writes it into index.html and main.ts
+// refreshes it in the visitor's language, so both always tell the same story.
+import { clinicConfig } from './clinic-config.js';
+import type { ClinicConfig, Weekday } from './clinic-config.js';
+import { I18n } from './i18n.js';
+import type { RatingSummary } from './types.js';
+
+export type StructuredData = Record<string, unknown>;
+
+const SCHEMA_DAYS: Record<Weekday, string> = {
+    sunday: 'https://schema.org/Sunday',
+    monday: 'https://schema.org/Monday',
+    tuesday: 'https://schema.org/Tuesday',
+    wednesday: 'https://schema.org/Wednesday',
+    thursday: 'https://schema.org/Thursday',
+    friday: 'https://schema.org/Friday',
+    saturday: 'https://schema.org/Saturday'
+};
+
+// siteUrl has no trailing slash, e.g. "https://www.example.in". rating comes
+// from approved patient reviews; the clinic gets no aggregateRating without one.
+export function buildClinicSchema(
+    siteUrl: string,
+    rating: RatingSummary | null = null,
+    config: ClinicConfig = clinicConfig
+): StructuredData {
+    const pageUrl = `${siteUrl}/`;
+    const clinicId = `${pageUrl}#clinic`;
+    const physicianId = `${pageUrl}#physician`;
+    const serviceUrl = (serviceId: string) => `${pageUrl}#/services/${serviceId}`;
+
+    const address = {
+        '@type': 'PostalAddress',
+        streetAddress: config.address.streetAddress,
+        addressLocality: config.address.locality,
+        addressRegion: config.address.region,
+        addressCountry: config.address.country
+    };
+
+    const clinic: StructuredData = {
+        '@type': 'MedicalClinic',
+        '@id': clinicId,
+        name: config.name,
+        description: config.description,
+        url: pageUrl,
+        image: `${siteUrl}/${config.site.image}`,
+        telephone: config.contact.phone,
+        address,
+        openingHoursSpecification: config.hours.sessions.map(session => ({
+            '@type': 'OpeningHoursSpecification',
+            dayOfWeek: config.hours.openDays.map(day => SCHEMA_DAYS[day]),
+            opens: session.start,
+            closes: session.end
+        })),
+        medicalSpecialty: 'Ayurveda',
+        member: { '@id': physicianId },
+        availableService: config.services.map(service => ({ '@id': serviceUrl(service.id) }))
+    };
+    if (config.contact.email) clinic.email = config.contact.email;
+    if (rating && rating.count > 0) {
+        clinic.aggregateRating = {
+            '@type': 'AggregateRating',
+            ratingValue: rating.average,
+            reviewCount: rating.count,
+            bestRating: 5,
+            worstRating: 1
+        };
+    }
+
+    const physician: StructuredData = {
+        '@type': 'Physician',
+        '@id': physicianId,
+        name: config.doctor.name,
+        description: config.doctor.title,
+        identifier: config.doctor.registration,
+        medicalSpecialty: 'Ayurveda',
+        telephone: config.contact.phone,
+        address,
+        parentOrganization: { '@id': clinicId }
+    };
+
+    const procedures = config.services.map(service => {
+        const procedure: StructuredData = {
+            '@type': 'MedicalProcedure',
+            '@id': serviceUrl(service.id),
+            name: I18n.serviceName(service.id, service.name),
+            url: serviceUrl(service.id),
+            description: I18n.serviceText(service.id, 'summary')
+        };
+
+        const preparation = I18n.serviceText(service.id, 'preparation');
+        if (preparation) procedure.preparation = preparation;
+        if (service.priceInr !== null) {
+            procedure.offers = {
+                '@type': 'Offer',
+                price: service.priceInr,
+                priceCurrency: 'INR',
+                seller: { '@id': clinicId }
+            };
+        }
+        return procedure;
+    });
+
+    return {
+        '@context': 'https://schema.org',
+        '@graph': [clinic, physician, ...procedures]
+    };
+}
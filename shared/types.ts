@@ -0,0 +1,336 @@
+// AAYURCURE - Types shared by the website and the appointment service
+import type { Locale } from './i18n.js';
+import type { ConsentPurpose } from './privacy.js';
+
+export interface AppointmentFormData {
+    patientName: string;
+    phoneNumber: string;
+    serviceType: string;
+    preferredDate: string;
+    preferredTime: string;
+    message: string;
+    // Number of daily sessions in a treatment course package, '' for a single visit
+    courseSessions: string;
+}
+
+export interface ValidationResult {
+    isValid: boolean;
+    errors: Record<string, string>;
+}
+
+export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'no-show';
+
+// Staff-only remarks; never sent back to patients
+export interface AppointmentNote {
+    text: string;
+    createdAt: string;
+}
+
+// What the patient agreed to when booking, and which notice they were shown
+export interface ConsentRecord {
+    purposes: ConsentPurpose[];
+    noticeVersion: string;
+    givenAt: string;
+}
+
+// Ties each session of a treatment course to the others
+export interface CourseLink {
+    // Reference of the first session, shared by the whole course
+    reference: string;
+    // 1-based position in the course
+    session: number;
+    sessions: number;
+}
+
+export interface Appointment extends Omit<AppointmentFormData, 'courseSessions'> {
+    reference: string;
+    status: AppointmentStatus;
+    durationMinutes: number;
+    internalNotes: AppointmentNote[];
+    // Set when the patient cancels through "Manage my booking"
+    cancellationReason?: string;
+    // True once the patient entered the code sent to phoneNumber; older bookings lack it
+    phoneVerified?: boolean;
+    // Set when the patient submits the health questionnaire for this booking
+    intakeSubmittedAt?: string;
+    // Older bookings were made before consent was recorded
+    consent?: ConsentRecord;
+    // Set on every session of a treatment course
+    course?: CourseLink;
+    // Language of the patient's messages; older bookings lack it and get English
+    locale?: Locale;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A day and time the course planner picked for one session
+export interface PlannedSession {
+    date: string;
+    time: string;
+}
+
+// Returned by GET /api/courses/plan; sessions is empty when the course does not fit
+export interface CoursePlan {
+    serviceType: string;
+    sessions: PlannedSession[];
+}
+
+// One session of a course as the patient sees it
+export type CourseSession = Pick<Appointment, 'reference' | 'status' | 'preferredDate' | 'preferredTime'>;
+
+// Returned by POST /api/appointments once a booking is stored
+export interface AppointmentReceipt {
+    reference: string;
+    status: AppointmentStatus;
+    // Every session in order when a treatment course was booked; the first is reference
+    sessions?: CourseSession[];
+}
+
+// What a patient sees after looking up their booking; internal notes stay private
+export type PatientBooking = Pick<Appointment,
+    'reference' | 'status' | 'patientName' | 'serviceType' | 'preferredDate' | 'preferredTime' | 'durationMinutes'> & {
+    // False once the patient has turned off reminders for their phone number
+    remindersEnabled: boolean;
+    // True after a confirmed visit has taken place, until the patient reviews it
+    canReview: boolean;
+    // The whole course when this booking is one of its sessions
+    course?: CourseLink & { bookings: CourseSession[] };
+};
+
+export type PatientMessageKind = 'confirmation' | 'reminder-24h' | 'reminder-2h' | 'follow-up';
+
+export type PatientMessageStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+// One automated message to a patient; the id (reference, kind and slot) is never reused
+export interface PatientMessage {
+    id: string;
+    reference: string;
+    kind: PatientMessageKind;
+    status: PatientMessageStatus;
+    sendAt: string;
+    // Past this point the message is no longer useful and is skipped
+    expiresAt: string;
+    attempts: number;
+    sentAt?: string;
+    // Why a message was skipped or failed
+    note?: string;
+}
+
+export type IntakeStep = 'complaints' | 'history' | 'medications' | 'background';
+
+// Health questionnaire a patient can fill in before their visit; choices hold option ids
+export interface IntakeAnswers {
+    complaints: string;
+    complaintDuration: string;
+    conditions: string[];
+    otherConditions: string;
+    medications: string;
+    allergies: string;
+    pregnancyStatus: string;
+    priorTreatment: string;
+    priorTreatmentDetails: string;
+}
+
+// Saved after every step against the booking reference
+export interface PatientIntake {
+    reference: string;
+    answers: IntakeAnswers;
+    completedSteps: IntakeStep[];
+    updatedAt: string;
+    // Set once every step is answered and the patient sends it to the doctor
+    submittedAt?: string;
+}
+
+export type AnalyticsEventName =
+    | 'page_view'
+    | 'section_view'
+    | 'booking_start'
+    | 'validation_error'
+    | 'booking_submit'
+    | 'booking_complete'
+    | 'contact_choice';
+
+// Sent by the website in batches to POST /api/analytics/events. detail names a
+// section, form field or channel - never anything the patient typed.
+export interface AnalyticsEvent {
+    name: AnalyticsEventName;
+    detail: string;
+    // Random per browser tab; not linked to a patient or booking
+    sessionId: string;
+}
+
+export interface StoredAnalyticsEvent extends AnalyticsEvent {
+    receivedAt: string;
+    // Sender's address with the host part zeroed
+    ip: string;
+}
+
+// Returned by GET /api/admin/analytics; counts are visits unless noted
+export interface AnalyticsReport {
+    from: string;
+    to: string;
+    funnel: { step: string; sessions: number }[];
+    sections: Record<string, number>;
+    // Number of errors shown per field
+    validationErrors: Record<string, number>;
+    contactChoices: Record<string, number>;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// A patient's rating of one visit, keyed by booking reference; shown on the website once staff approve it
+export interface Review {
+    reference: string;
+    serviceType: string;
+    // Whole stars, 1 to 5
+    rating: number;
+    comment: string;
+    // First name and initial, or '' when the patient would rather not be named
+    displayName: string;
+    status: ReviewStatus;
+    createdAt: string;
+    moderatedAt?: string;
+}
+
+// An approved review as the website shows it; nothing that leads back to the booking
+export type PublicReview = Pick<Review, 'serviceType' | 'rating' | 'comment' | 'displayName' | 'createdAt'>;
+
+export interface RatingSummary {
+    // Rounded to one decimal place
+    average: number;
+    count: number;
+}
+
+// Returned by GET /api/reviews
+export interface PublicReviews {
+    // Newest first
+    reviews: PublicReview[];
+    overall: RatingSummary;
+    // By service id; services without approved reviews are left out
+    services: Record<string, RatingSummary>;
+}
+
+// Returned by POST /api/privacy/export: everything held about one phone number
+export interface PatientDataExport {
+    exportedAt: string;
+    phoneNumber: string;
+    // Staff notes are internal to the clinic and left out
+    appointments: Omit<Appointment, 'internalNotes'>[];
+    intakes: PatientIntake[];
+    messages: PatientMessage[];
+    reviews: Review[];
+    waitlist: WaitlistEntry[];
+    remindersEnabled: boolean;
+}
+
+// Returned by POST /api/privacy/erase
+export interface PatientDataErasure {
+    erasedBookings: number;
+}
+
+// Returned by POST /api/verification/send
+export interface VerificationCodeSent {
+    expiresAt: string;
+    resendAfter: string;
+}
+
+// Returned by POST /api/verification/verify; the token goes with the booking
+export interface PhoneVerificationResult {
+    verificationToken: string;
+    expiresAt: string;
+}
+
+// Returned by GET /api/availability
+export interface AvailabilityResponse {
+    date: string;
+    serviceType: string;
+    slots: {
+        start: string;
+        end: string;
+        period: 'morning' | 'evening';
+    }[];
+}
+
+// Returned by POST /api/admin/login
+export interface AdminSession {
+    token: string;
+    expiresAt: string;
+}
+
+// One patient's treatment course, for GET /api/admin/courses
+export interface CourseProgress {
+    reference: string;
+    patientName: string;
+    phoneNumber: string;
+    serviceType: string;
+    sessions: number;
+    completed: number;
+    missed: number;
+    cancelled: number;
+    // The first session still to come; null once none are left
+    next: CourseSession | null;
+}
+
+// Which part of the day a waitlisted patient can come
+export type WaitlistPeriod = 'any' | 'morning' | 'evening';
+
+// Only the chosen day, or any day in the week that starts with it
+export type WaitlistRange = 'day' | 'week';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired';
+
+// A freed slot held for one waitlisted patient until they answer or time runs out
+export interface WaitlistOffer {
+    // Secret that goes in the link sent to the patient
+    token: string;
+    date: string;
+    time: string;
+    expiresAt: string;
+    // When the patient turned it down
+    declinedAt?: string;
+}
+
+export interface WaitlistEntry {
+    id: string;
+    patientName: string;
+    phoneNumber: string;
+    serviceType: string;
+    period: WaitlistPeriod;
+    // First and last day the patient can come
+    fromDate: string;
+    untilDate: string;
+    status: WaitlistStatus;
+    // Set while status is offered; kept afterwards so the link can still say what happened
+    offer?: WaitlistOffer;
+    // The booking made when the patient accepted
+    reference?: string;
+    // "YYYY-MM-DD HH:MM" slots the patient turned down or let lapse, never offered again
+    declinedSlots: string[];
+    consent: ConsentRecord;
+    // Language of the offer messages, passed on to the booking when the patient accepts
+    locale?: Locale;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Returned by POST /api/waitlist
+export type WaitlistReceipt = Pick<WaitlistEntry, 'serviceType' | 'period' | 'fromDate' | 'untilDate'>;
+
+// Returned by GET /api/waitlist/offers/:token; open means the slot is still held
+export type WaitlistOfferView = Pick<WaitlistEntry, 'patientName' | 'serviceType'>
+    & Pick<WaitlistOffer, 'date' | 'time' | 'expiresAt'> & {
+    status: 'open' | 'accepted' | 'declined' | 'expired';
+    reference?: string;
+};
+
+// Returned by GET /api/admin/appointments; date is '' for requests without a date
+export interface AdminAppointmentList {
+    date: string;
+    appointments: Appointment[];
+}
+
+// Body of every non-2xx API response
+export interface ApiErrorBody {
+    error: string;
+    errors?: Record<string, string>;
+}
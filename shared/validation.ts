@@ -0,0 +1,219 @@
+// AAYURCURE - Appointment form validation (runs in the browser and on the server)
+import { ClinicCalendar } from './clinic-calendar.js';
+import { getService } from './clinic-config.js';
+import { clinicNow, isValidDate } from './dates.js';
+import { t } from './i18n.js';
+import { PRIVACY_NOTICE_VERSION } from './privacy.js';
+import { SlotScheduler } from './scheduling.js';
+import type { AppointmentFormData, ValidationResult } from './types.js';
+
+export class FormValidator {
+    private static readonly PHONE_REGEX = /^[6-9]\d{9}$/;
+    private static readonly TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+    private static readonly REFERENCE_REGEX = /^AYR-\d{8}-[A-Z0-9]{4}$/;
+    private static readonly OTP_REGEX = /^\d{6}$/;
+    private static readonly MAX_REASON_LENGTH = 500;
+    private static readonly MIN_REVIEW_LENGTH = 10;
+    private static readonly MAX_REVIEW_LENGTH = 1000;
+    // Latin, Devanagari (Hindi/Marathi) and Kannada letters and vowel signs,
+    // plus the zero-width joiners used in conjuncts; digits are not allowed
+    private static readonly NAME_REGEX = /^[a-zA-Z\s.\u0900-\u0963\u0971-\u097F\u0C80-\u0CE5\u0CF0-\u0CFF\u200C\u200D]+$/;
+
+    static validateName(name: string): string {
+        const trimmedName = name.trim();
+        if (trimmedName.length === 0) {
+            return t('validation.nameRequired');
+        }
+        if (trimmedName.length < 2) {
+            return t('validation.nameTooShort');
+        }
+        if (!this.NAME_REGEX.test(trimmedName)) {
+            return t('validation.nameInvalid');
+        }
+        return '';
+    }
+
+    static validatePhone(phone: string): string {
+        const cleanPhone = phone.replace(/\D/g, '');
+        if (cleanPhone.length === 0) {
+            return t('validation.phoneRequired');
+        }
+        if (!this.PHONE_REGEX.test(cleanPhone)) {
+            return t('validation.phoneInvalid');
+        }
+        return '';
+    }
+
+    static validateDate(dateString: string): string {
+        if (!dateString) {
+            return ''; // Date is optional
+        }
+
+        if (!isValidDate(dateString)) {
+            return t('validation.dateInvalid');
+        }
+
+        if (dateString < clinicNow().date) {
+            return t('validation.datePast');
+        }
+
+        // Holidays, leave, special openings and the weekly closed days
+        const dayStatus = ClinicCalendar.getDayStatus(dateString);
+        if (!dayStatus.isOpen) {
+            return dayStatus.reason;
+        }
+
+        return '';
+    }
+
+    static validateService(serviceType: string): string {
+        if (serviceType && !getService(serviceType)) {
+            return t('validation.serviceInvalid');
+        }
+        return '';
+    }
+
+    // courseSessions is '' for a single visit
+    static validateCourse(serviceType: string, courseSessions: string, dateString: string): string {
+        if (!courseSessions) {
+            return '';
+        }
+        if (!getService(serviceType)?.courseSessions.includes(Number(courseSessions))) {
+            return t('validation.courseInvalid');
+        }
+        if (!dateString) {
+            return t('validation.courseDateRequired');
+        }
+        return '';
+    }
+
+    // The time must be one of the day's slot start times for the service
+    // (the default service when none is given), booked or not
+    static validateTime(dateString: string, time: string, serviceType: string = ''): string {
+        if (!time) {
+            return dateString ? t('validation.timeRequired') : '';
+        }
+        if (!dateString) {
+            return t('validation.timeWithoutDate');
+        }
+        if (!this.TIME_REGEX.test(time)) {
+            return t('validation.timeInvalid');
+        }
+        if (isValidDate(dateString)
+            && !SlotScheduler.getCandidateSlots(dateString, serviceType).some(slot => slot.start === time)) {
+            return t('validation.timeInvalid');
+        }
+        return '';
+    }
+
+    // Patients may type the reference in lower case or with stray spaces
+    static validateReference(reference: string): string {
+        const cleanReference = reference.trim().toUpperCase();
+        if (cleanReference.length === 0) {
+            return t('validation.referenceRequired');
+        }
+        if (!this.REFERENCE_REGEX.test(cleanReference)) {
+            return t('validation.referenceInvalid');
+        }
+        return '';
+    }
+
+    static validateOtpCode(code: string): string {
+        const cleanCode = code.trim();
+        if (cleanCode.length === 0) {
+            return t('validation.otpRequired');
+        }
+        if (!this.OTP_REGEX.test(cleanCode)) {
+            return t('validation.otpInvalid');
+        }
+        return '';
+    }
+
+    static validateCancellationReason(reason: string): string {
+        const trimmedReason = reason.trim();
+        if (trimmedReason.length === 0) {
+            return t('validation.reasonRequired');
+        }
+        if (trimmedReason.length > this.MAX_REASON_LENGTH) {
+            return t('validation.reasonTooLong', { max: this.MAX_REASON_LENGTH });
+        }
+        return '';
+    }
+
+    static validateRating(rating: number): string {
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            return t('validation.ratingRequired');
+        }
+        return '';
+    }
+
+    static validateReviewComment(comment: string): string {
+        const trimmedComment = comment.trim();
+        if (trimmedComment.length < this.MIN_REVIEW_LENGTH) {
+            return t('validation.reviewTooShort', { min: this.MIN_REVIEW_LENGTH });
+        }
+        if (trimmedComment.length > this.MAX_REVIEW_LENGTH) {
+            return t('validation.reviewTooLong', { max: this.MAX_REVIEW_LENGTH });
+        }
+        return '';
+    }
+
+    // noticeVersion is the privacy notice the patient agreed to, '' if they did not
+    static validateConsent(noticeVersion: string): string {
+        if (!noticeVersion) {
+            return t('validation.consentRequired');
+        }
+        if (noticeVersion !== PRIVACY_NOTICE_VERSION) {
+            return t('validation.consentOutdated');
+        }
+        return '';
+    }
+
+    // Joining the waitlist needs a service and a day to wait for
+    static validateWaitlist(
+        formData: Pick<AppointmentFormData, 'patientName' | 'phoneNumber' | 'serviceType' | 'preferredDate'>
+    ): ValidationResult {
+        const errors: Record<string, string> = {};
+
+        errors.patientName = this.validateName(formData.patientName);
+        errors.phoneNumber = this.validatePhone(formData.phoneNumber);
+        errors.serviceType = this.validateService(formData.serviceType)
+            || (formData.serviceType ? '' : t('validation.waitlistService'));
+        errors.preferredDate = this.validateDate(formData.preferredDate)
+            || (formData.preferredDate ? '' : t('validation.dateRequired'));
+
+        Object.keys(errors).forEach(key => {
+            if (!errors[key]) {
+                delete errors[key];
+            }
+        });
+
+        return {
+            isValid: Object.keys(errors).length === 0,
+            errors
+        };
+    }
+
+    static validateForm(formData: AppointmentFormData): ValidationResult {
+        const errors: Record<string, string> = {};
+
+        errors.patientName = this.validateName(formData.patientName);
+        errors.phoneNumber = this.validatePhone(formData.phoneNumber);
+        errors.serviceType = this.validateService(formData.serviceType);
+        errors.preferredDate = this.validateDate(formData.preferredDate);
+        errors.preferredTime = this.validateTime(formData.preferredDate, formData.preferredTime, formData.serviceType);
+        errors.courseSessions = this.validateCourse(formData.serviceType, formData.courseSessions, formData.preferredDate);
+
+        // Clean up empty error messages
+        Object.keys(errors).forEach(key => {
+            if (!errors[key]) {
+                delete errors[key];
+            }
+        });
+
+        return {
+            isValid: Object.keys(errors).length === 0,
+            errors
+        };
+    }
+}
@@ -0,0 +1,79 @@
+/// <reference lib="webworker" />
+// AAYURCURE - Service worker: keeps the website usable on a flaky connection
+// Only the app shell is cached up front; photos and other same-origin files
+// (scripts, translations) are cached the first time they load. The API is
+// never cached - offline bookings wait in the page's outbox instead.
+// The build puts this worker in dist/, so paths are relative to its scope, the site root.
+declare const self: ServiceWorkerGlobalScope;
+
+// Bump when the precached files change so old caches are cleared
+const CACHE_NAME = 'aayurcure-v2';
+
+const PRECACHE_FILES = [
+    './',
+    'index.html',
+    'styles.css',
+    'manifest.webmanifest',
+    'images/icon.svg'
+];
+
+function siteUrl(path: string): string {
+    return new URL(path, self.registration.scope).href;
+}
+
+self.addEventListener('install', (event) => {
+    // One file failing must not stop the install; it is cached when it next loads
+    event.waitUntil(
+        caches.open(CACHE_NAME)
+            .then(cache => Promise.allSettled(PRECACHE_FILES.map(file => cache.add(siteUrl(file)))))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(names => Promise.all(names
+                .filter(name => name.startsWith('aayurcure-') && name !== CACHE_NAME)
+                .map(name => caches.delete(name))))
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+        return;
+    }
+
+    // Images rarely change, so serve them from the cache first
+    event.respondWith(url.pathname.includes('/images/') ? cacheFirst(request) : networkFirst(request));
+});
+
+async function cacheFirst(request: Request): Promise<Response> {
+    const cached = await caches.match(request);
+    return cached || fetchAndCache(request);
+}
+
+// Fresh files when online, the last cached copy when not
+async function networkFirst(request: Request): Promise<Response> {
+    try {
+        return await fetchAndCache(request);
+    } catch (error) {
+        const cached = await caches.match(request)
+            || (request.mode === 'navigate' ? await caches.match(siteUrl('index.html')) : undefined);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+async function fetchAndCache(request: Request): Promise<Response> {
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
@@ -0,0 +1,71 @@
+// AAYURCURE tests - Analytics beacons are limited per address and saved together
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { AnalyticsService } from '../server/analytics.js';
+import { MINUTE_MS, openTestDatabase, TEST_NOW, waitFor, type TestDatabase } from './helpers.js';
+
+const SESSION_ID = 'a1b2c3d4e5f60718';
+
+function beaconFrom(remoteAddress: string): IncomingMessage {
+    return { socket: { remoteAddress } } as IncomingMessage;
+}
+
+function pageView(detail: string = ''): Record<string, string> {
+    return { name: 'page_view', detail, sessionId: SESSION_ID };
+}
+
+describe('AnalyticsService', () => {
+    let testDatabase: TestDatabase;
+    let analytics: AnalyticsService;
+
+    beforeEach(async () => {
+        mock.timers.enable({ apis: ['Date', 'setInterval'], now: TEST_NOW });
+        testDatabase = await openTestDatabase();
+        analytics = new AnalyticsService(testDatabase.db);
+        analytics.start();
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await testDatabase.remove();
+    });
+
+    it('saves the events from many beacons in one write a minute', async () => {
+        const update = mock.method(testDatabase.db, 'update');
+
+        analytics.record([pageView()], beaconFrom('203.0.113.7'));
+        analytics.record([pageView(), { name: 'booking_start', detail: '', sessionId: SESSION_ID }], beaconFrom('203.0.113.7'));
+
+        assert.equal(update.mock.callCount(), 0);
+        // Events not saved yet still count
+        assert.equal(analytics.report('', '').funnel[0]?.sessions, 1);
+
+        mock.timers.tick(MINUTE_MS);
+        await waitFor(() => update.mock.callCount() === 1, 'the events are saved');
+        await update.mock.calls[0]?.result;
+
+        assert.equal(testDatabase.db.query(data => data.analyticsEvents.length), 3);
+        assert.equal(testDatabase.db.query(data => data.analyticsEvents[0]?.ip), '203.0.113.0');
+    });
+
+    it('drops events that are not the website\'s own', () => {
+        const recorded = analytics.record([pageView('<script>'), { name: 'purchase', detail: '', sessionId: SESSION_ID }, pageView()],
+            beaconFrom('203.0.113.7'));
+
+        assert.equal(recorded, 1);
+    });
+
+    it('ignores an address that sends too many beacons for 10 minutes', async () => {
+        for (let beacon = 0; beacon < 120; beacon++) {
+            analytics.record([pageView()], beaconFrom('203.0.113.7'));
+        }
+
+        assert.throws(() => analytics.record([pageView()], beaconFrom('203.0.113.7')), { status: 429 });
+        assert.equal(analytics.record([pageView()], beaconFrom('198.51.100.4')), 1);
+
+        await analytics.save();
+        mock.timers.tick(10 * MINUTE_MS);
+        assert.equal(analytics.record([pageView()], beaconFrom('203.0.113.7')), 1);
+    });
+});
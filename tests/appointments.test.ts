@@ -0,0 +1,80 @@
+// AAYURCURE tests - Bookings take slots only on the grid and up to the clinic's capacity
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { t } from '../shared/i18n.js';
+import { AppointmentService } from '../server/appointments.js';
+import { PhoneVerification } from '../server/phone-verification.js';
+import { bookingRequest, openTestDatabase, RecordingSender, TEST_NOW, verifyPhone, type TestDatabase } from './helpers.js';
+
+const PHONES = ['9876500001', '9876500002', '9876500003'];
+
+describe('AppointmentService.create', () => {
+    let testDatabase: TestDatabase;
+    let codes: RecordingSender;
+    let verification: PhoneVerification;
+    let appointments: AppointmentService;
+
+    async function book(phoneNumber: string, details: Record<string, string> = {}): Promise<string> {
+        const token = await verifyPhone(verification, codes, phoneNumber);
+        const [appointment] = await appointments.create({ ...bookingRequest(token, { phoneNumber }), ...details });
+        return appointment?.reference ?? '';
+    }
+
+    function bookedCount(): number {
+        return testDatabase.db.query(data => data.appointments.length);
+    }
+
+    beforeEach(async () => {
+        mock.timers.enable({ apis: ['Date'], now: TEST_NOW });
+        testDatabase = await openTestDatabase();
+        codes = new RecordingSender();
+        verification = new PhoneVerification(codes);
+        appointments = new AppointmentService(testDatabase.db, verification);
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await testDatabase.remove();
+    });
+
+    it('turns down a time off the slot grid as a form error', async () => {
+        await assert.rejects(book(PHONES[0]!, { preferredTime: '10:07' }), {
+            status: 422,
+            errors: { preferredTime: t('validation.timeInvalid') }
+        });
+        assert.equal(bookedCount(), 0);
+    });
+
+    it('gives a consultation slot to one patient', async () => {
+        await book(PHONES[0]!);
+
+        await assert.rejects(book(PHONES[1]!), { status: 409 });
+        assert.equal(bookedCount(), 1);
+    });
+
+    it('shares a therapy slot between the two therapists and no more', async () => {
+        const therapy = { serviceType: 'kansya-thali', preferredTime: '10:00' };
+        await book(PHONES[0]!, therapy);
+        await book(PHONES[1]!, therapy);
+
+        await assert.rejects(book(PHONES[2]!, therapy), { status: 409 });
+        // Panchkarma needs a therapist too
+        await assert.rejects(book(PHONES[2]!, { serviceType: 'panchkarma', preferredTime: '09:30' }), { status: 409 });
+        assert.equal(bookedCount(), 2);
+    });
+
+    it('does not book one patient into the same slot twice', async () => {
+        const therapy = { serviceType: 'kansya-thali', preferredTime: '10:00' };
+        const first = await book(PHONES[0]!, therapy);
+
+        await assert.rejects(book(PHONES[0]!, therapy), {
+            status: 409,
+            errors: { preferredTime: 'You already have a booking at this time - please choose another time' }
+        });
+
+        // Once the first booking is cancelled the slot is theirs to take again
+        await appointments.updateStatus(first, 'cancelled');
+        await book(PHONES[0]!, therapy);
+        assert.equal(bookedCount(), 2);
+    });
+});
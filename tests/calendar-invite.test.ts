@@ -0,0 +1,92 @@
+// AAYURCURE tests - Calendar invites are in the clinic's time zone
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { buildIcs, googleCalendarUrl, outlookCalendarUrl, type CalendarEvent } from '../shared/calendar-invite.js';
+import { clinicConfig } from '../shared/clinic-config.js';
+import { TEST_NOW } from './helpers.js';
+
+const CLINIC_TIME_ZONE = clinicConfig.hours.timeZone;
+
+function visit(date: string, details: Partial<CalendarEvent> = {}): CalendarEvent {
+    return {
+        uid: `AYR-${date.replace(/-/g, '')}-ABC123@aayurcure`,
+        date,
+        startTime: '10:00',
+        durationMinutes: 30,
+        summary: 'Consultation, AAYURCURE',
+        description: 'Reference AYR-ABC123; bring your reports',
+        ...details
+    };
+}
+
+// The lines of the VTIMEZONE block
+function timeZoneBlock(ics: string): string[] {
+    const lines = ics.split('\r\n');
+    return lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+}
+
+describe('buildIcs', () => {
+    afterEach(() => {
+        clinicConfig.hours.timeZone = CLINIC_TIME_ZONE;
+    });
+
+    it('writes clinic wall-clock times against the configured zone', () => {
+        const ics = buildIcs([visit('2027-02-03', { reminderMinutes: 120 })], 'AAYURCURE', new Date(TEST_NOW));
+
+        assert.match(ics, /\r\nDTSTART;TZID=Asia\/Kolkata:20270203T100000\r\n/);
+        assert.match(ics, /\r\nDTEND;TZID=Asia\/Kolkata:20270203T103000\r\n/);
+        assert.match(ics, /\r\nDTSTAMP:20270201T033000Z\r\n/);
+        assert.match(ics, /\r\nTRIGGER:-PT120M\r\n/);
+        assert.deepEqual(timeZoneBlock(ics), [
+            'BEGIN:VTIMEZONE',
+            'TZID:Asia/Kolkata',
+            'BEGIN:STANDARD',
+            'DTSTART:19700101T000000',
+            'TZOFFSETFROM:+0530',
+            'TZOFFSETTO:+0530',
+            'END:STANDARD',
+            'END:VTIMEZONE'
+        ]);
+    });
+
+    it('describes a daylight-saving change between the events', () => {
+        clinicConfig.hours.timeZone = 'Europe/London';
+
+        const ics = buildIcs([visit('2027-04-07'), visit('2027-03-24')], 'AAYURCURE', new Date(TEST_NOW));
+
+        assert.match(ics, /\r\nDTSTART;TZID=Europe\/London:20270407T100000\r\n/);
+        // British Summer Time starts at 01:00 UTC on 28 March 2027
+        assert.deepEqual(timeZoneBlock(ics).slice(2), [
+            'BEGIN:STANDARD',
+            'DTSTART:19700101T000000',
+            'TZOFFSETFROM:+0000',
+            'TZOFFSETTO:+0000',
+            'END:STANDARD',
+            'BEGIN:STANDARD',
+            'DTSTART:20270328T010000',
+            'TZOFFSETFROM:+0000',
+            'TZOFFSETTO:+0100',
+            'END:STANDARD',
+            'END:VTIMEZONE'
+        ]);
+    });
+
+    it('escapes text and folds lines longer than 75 octets', () => {
+        const ics = buildIcs([visit('2027-02-03', { description: 'Fasting, please; नमस्ते '.repeat(4) })], 'AAYURCURE');
+        const encoder = new TextEncoder();
+
+        assert.ok(ics.split('\r\n').every(line => encoder.encode(line).length <= 75));
+        assert.match(ics.replace(/\r\n /g, ''), /DESCRIPTION:Fasting\\, please\\; नमस्ते/);
+    });
+});
+
+describe('calendar links', () => {
+    it('give Google the zone and Outlook the times in UTC', () => {
+        const event = visit('2027-02-03');
+
+        assert.equal(new URL(googleCalendarUrl(event)).searchParams.get('ctz'), 'Asia/Kolkata');
+        const outlook = new URL(outlookCalendarUrl(event)).searchParams;
+        assert.equal(outlook.get('startdt'), '2027-02-03T04:30:00.000Z');
+        assert.equal(outlook.get('enddt'), '2027-02-03T05:00:00.000Z');
+    });
+});
@@ -0,0 +1,64 @@
+// AAYURCURE tests - The analytics consent choice survives broken browser storage
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+import { AnalyticsConsent } from '../client/consent.js';
+
+const STORAGE_KEY = 'aayurcure-analytics-consent';
+
+// Enough of the Storage interface for AnalyticsConsent
+function useStorage(storage: Pick<Storage, 'getItem' | 'setItem'>): void {
+    Object.defineProperty(globalThis, 'localStorage', { value: storage, configurable: true });
+}
+
+function memoryStorage(values: Record<string, string> = {}): Pick<Storage, 'getItem' | 'setItem'> {
+    return {
+        getItem: key => values[key] ?? null,
+        setItem: (key, value) => {
+            values[key] = value;
+        }
+    };
+}
+
+describe('AnalyticsConsent', () => {
+    afterEach(() => {
+        delete (globalThis as { localStorage?: Storage }).localStorage;
+    });
+
+    it('remembers an answer given under the current privacy notice', () => {
+        useStorage(memoryStorage());
+
+        AnalyticsConsent.set(true);
+
+        assert.equal(AnalyticsConsent.isGranted(), true);
+        assert.equal(AnalyticsConsent.get()?.noticeVersion, PRIVACY_NOTICE_VERSION);
+    });
+
+    it('asks again once the privacy notice changes', () => {
+        const earlier = { granted: true, noticeVersion: 'an-older-notice', decidedAt: '2026-01-01T00:00:00.000Z' };
+        useStorage(memoryStorage({ [STORAGE_KEY]: JSON.stringify(earlier) }));
+
+        assert.equal(AnalyticsConsent.get(), null);
+    });
+
+    it('treats a garbled stored answer as no answer', () => {
+        useStorage(memoryStorage({ [STORAGE_KEY]: '{"granted":tr' }));
+
+        assert.equal(AnalyticsConsent.get(), null);
+        assert.equal(AnalyticsConsent.isGranted(), false);
+    });
+
+    it('treats blocked storage as no answer and still takes the click', () => {
+        const blocked = (): never => {
+            throw new DOMException('The operation is insecure.', 'SecurityError');
+        };
+        useStorage({ getItem: blocked, setItem: blocked });
+        const heard: boolean[] = [];
+        AnalyticsConsent.onChange(granted => heard.push(granted));
+
+        AnalyticsConsent.set(true);
+
+        assert.deepEqual(heard, [true]);
+        assert.equal(AnalyticsConsent.isGranted(), false);
+    });
+});
@@ -0,0 +1,109 @@
+// AAYURCURE tests - Shared fixtures for the API tests
+// Each test gets its own database file in a temporary folder, and messages go
+// to a RecordingSender instead of a log file so tests can read them back.
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+import type { AppointmentFormData } from '../shared/types.js';
+import { Database } from '../server/database.js';
+import type { MessageSender } from '../server/message-sender.js';
+import type { PhoneVerification } from '../server/phone-verification.js';
+
+// Monday 1 February 2027, 09:00 in the clinic's time zone (IST)
+export const TEST_NOW = Date.parse('2027-02-01T03:30:00Z');
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+
+export interface SentMessage {
+    phoneNumber: string;
+    text: string;
+}
+
+export class RecordingSender implements MessageSender {
+    readonly sent: SentMessage[] = [];
+    // Every send call, including ones that failed or never finished
+    attempts = 0;
+
+    // failures: how many calls throw before sends go through; hang: calls never finish, like a crash mid-send
+    constructor(private readonly options: { failures?: number; hang?: boolean } = {}) {}
+
+    async send(phoneNumber: string, text: string): Promise<void> {
+        this.attempts += 1;
+        if (this.options.hang) {
+            return new Promise(() => undefined);
+        }
+        if (this.attempts <= (this.options.failures ?? 0)) {
+            throw new Error('Provider unavailable');
+        }
+        this.sent.push({ phoneNumber, text });
+    }
+
+    to(phoneNumber: string): string[] {
+        return this.sent.filter(message => message.phoneNumber === phoneNumber).map(message => message.text);
+    }
+}
+
+export interface TestDatabase {
+    db: Database;
+    filePath: string;
+    remove(): Promise<void>;
+}
+
+export async function openTestDatabase(): Promise<TestDatabase> {
+    const folder = await mkdtemp(join(tmpdir(), 'aayurcure-test-'));
+    const filePath = join(folder, 'aayurcure.json');
+
+    return {
+        db: await Database.open(filePath),
+        filePath,
+        remove: () => rm(folder, { recursive: true, force: true })
+    };
+}
+
+// The code in the last verification message sent to the number
+export function lastCode(sender: RecordingSender, phoneNumber: string): string {
+    return sender.to(phoneNumber).at(-1)?.match(/^\d{6}/)?.[0] ?? '';
+}
+
+// Asks for a code, reads it from the text message and trades it for a token
+export async function verifyPhone(
+    verification: PhoneVerification,
+    sender: RecordingSender,
+    phoneNumber: string
+): Promise<string> {
+    await verification.sendCode(phoneNumber);
+    return verification.verifyCode(phoneNumber, lastCode(sender, phoneNumber)).verificationToken;
+}
+
+export function bookingRequest(
+    verificationToken: string,
+    details: Partial<AppointmentFormData> = {}
+): Record<string, string> {
+    return {
+        patientName: 'Meera Rao',
+        phoneNumber: '9876543210',
+        serviceType: 'consultation',
+        preferredDate: '2027-02-03',
+        preferredTime: '10:00',
+        message: '',
+        courseSessions: '',
+        ...details,
+        consentNoticeVersion: PRIVACY_NOTICE_VERSION,
+        verificationToken
+    };
+}
+
+// Services send messages in passes that run in the background; wait until one has shown its effect
+export async function waitFor(condition: () => boolean, description: string): Promise<void> {
+    for (let waited = 0; waited < 2000; waited += 10) {
+        if (condition()) return;
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Timed out waiting until ${description}`);
+}
+
+// For checking that something did not happen: gives background passes time to run first
+export function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 50));
+}
@@ -0,0 +1,77 @@
+// AAYURCURE tests - Verification codes and the tokens they earn expire
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { I18n, t } from '../shared/i18n.js';
+import { PhoneVerification } from '../server/phone-verification.js';
+import { lastCode, MINUTE_MS, RecordingSender, TEST_NOW, verifyPhone } from './helpers.js';
+
+const PHONE = '9876543210';
+
+describe('PhoneVerification', () => {
+    let sender: RecordingSender;
+    let verification: PhoneVerification;
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: TEST_NOW });
+        sender = new RecordingSender();
+        verification = new PhoneVerification(sender);
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('texts the code in the language the request asks for', async () => {
+        await verification.sendCode(PHONE, 'kn');
+        const code = lastCode(sender, PHONE);
+
+        const expected = I18n.inLocale('kn', () => t('message.verificationCode', { code, minutes: 10 }));
+        assert.deepEqual(sender.to(PHONE), [expected]);
+        assert.notEqual(expected, t('message.verificationCode', { code, minutes: 10 }));
+    });
+
+    it('accepts a code until it is 10 minutes old', async () => {
+        await verification.sendCode(PHONE);
+        const code = lastCode(sender, PHONE);
+
+        mock.timers.tick(10 * MINUTE_MS - 1);
+        const result = verification.verifyCode(PHONE, code);
+
+        assert.match(result.verificationToken, /^[0-9a-f]{48}$/);
+        assert.equal(result.expiresAt, new Date(Date.now() + 30 * MINUTE_MS).toISOString());
+    });
+
+    it('turns down an expired code, even the right one', async () => {
+        await verification.sendCode(PHONE);
+        const code = lastCode(sender, PHONE);
+
+        mock.timers.tick(10 * MINUTE_MS);
+
+        assert.throws(() => verification.verifyCode(PHONE, code), { status: 410 });
+        // The expired code is gone, so trying again does not bring it back
+        assert.throws(() => verification.verifyCode(PHONE, code), { status: 410 });
+    });
+
+    it('accepts a token for 30 minutes and only for the number it was sent to', async () => {
+        const token = await verifyPhone(verification, sender, PHONE);
+
+        verification.assertVerified(token, PHONE);
+        assert.throws(() => verification.assertVerified(token, '9876500000'), { status: 403 });
+
+        mock.timers.tick(30 * MINUTE_MS - 1);
+        verification.assertVerified(token, PHONE);
+
+        mock.timers.tick(1);
+        assert.throws(() => verification.assertVerified(token, PHONE), { status: 403 });
+    });
+
+    it('accepts a new code once the old token has expired', async () => {
+        const expired = await verifyPhone(verification, sender, PHONE);
+        mock.timers.tick(30 * MINUTE_MS);
+
+        const renewed = await verifyPhone(verification, sender, PHONE);
+
+        assert.throws(() => verification.assertVerified(expired, PHONE), { status: 403 });
+        verification.assertVerified(renewed, PHONE);
+    });
+});
@@ -0,0 +1,213 @@
+// AAYURCURE tests - Patients can erase their data, and old data is deleted on schedule
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+import type { Appointment, IntakeAnswers, WaitlistEntry } from '../shared/types.js';
+import { AuditLog } from '../server/audit-log.js';
+import type { Database } from '../server/database.js';
+import { PhoneVerification } from '../server/phone-verification.js';
+import { DataRetention, PrivacyService } from '../server/privacy.js';
+import { openTestDatabase, RecordingSender, TEST_NOW, verifyPhone, type TestDatabase } from './helpers.js';
+
+const PHONE = '9876543210';
+const OTHER_PHONE = '9876500001';
+
+function storedBooking(reference: string, phoneNumber: string, preferredDate: string, updatedAt: string = preferredDate): Appointment {
+    return {
+        patientName: 'Meera Rao',
+        phoneNumber,
+        serviceType: 'consultation',
+        preferredDate,
+        preferredTime: '10:00',
+        message: '',
+        reference,
+        status: 'confirmed',
+        durationMinutes: 30,
+        internalNotes: [{ text: 'Prefers a morning call', createdAt: `${updatedAt}T04:00:00.000Z` }],
+        createdAt: `${preferredDate}T04:00:00.000Z`,
+        updatedAt: `${updatedAt}T04:00:00.000Z`
+    };
+}
+
+function waitlistEntry(phoneNumber: string, untilDate: string): WaitlistEntry {
+    return {
+        id: `${phoneNumber}-${untilDate}`,
+        patientName: 'Meera Rao',
+        phoneNumber,
+        serviceType: 'consultation',
+        period: 'any',
+        fromDate: untilDate,
+        untilDate,
+        status: 'waiting',
+        declinedSlots: [],
+        consent: { purposes: [], noticeVersion: PRIVACY_NOTICE_VERSION, givenAt: `${untilDate}T04:00:00.000Z` },
+        createdAt: `${untilDate}T04:00:00.000Z`,
+        updatedAt: `${untilDate}T04:00:00.000Z`
+    };
+}
+
+// A questionnaire, a message and a review filed under the booking
+async function fileUnder(db: Database, reference: string): Promise<void> {
+    await db.update(data => {
+        data.intakes.push({ reference, answers: { complaints: 'Back pain' } as IntakeAnswers, completedSteps: [], updatedAt: new Date().toISOString() });
+        data.messages.push({
+            id: `${reference}-confirmation`,
+            reference,
+            kind: 'confirmation',
+            status: 'sent',
+            sendAt: new Date().toISOString(),
+            expiresAt: new Date().toISOString(),
+            attempts: 1
+        });
+        data.reviews.push({
+            reference,
+            serviceType: 'consultation',
+            rating: 5,
+            comment: 'Very helpful visit',
+            displayName: '',
+            status: 'approved',
+            createdAt: new Date().toISOString()
+        });
+    });
+}
+
+function referencesIn(db: Database): Record<string, string[]> {
+    return db.query(data => ({
+        appointments: data.appointments.map(appointment => appointment.reference),
+        intakes: data.intakes.map(intake => intake.reference),
+        messages: data.messages.map(message => message.reference),
+        reviews: data.reviews.map(review => review.reference)
+    }));
+}
+
+describe('privacy', () => {
+    let testDatabase: TestDatabase;
+    let auditFile: string;
+    let audit: AuditLog;
+
+    async function auditActions(): Promise<Record<string, unknown>[]> {
+        const lines = (await readFile(auditFile, 'utf8')).trim().split('\n');
+        return lines.map(line => JSON.parse(line) as Record<string, unknown>);
+    }
+
+    beforeEach(async () => {
+        mock.timers.enable({ apis: ['Date'], now: TEST_NOW });
+        testDatabase = await openTestDatabase();
+        auditFile = join(dirname(testDatabase.filePath), 'audit.log');
+        audit = new AuditLog(auditFile);
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await testDatabase.remove();
+    });
+
+    describe('PrivacyService', () => {
+        let codes: RecordingSender;
+        let verification: PhoneVerification;
+        let privacy: PrivacyService;
+
+        beforeEach(async () => {
+            codes = new RecordingSender();
+            verification = new PhoneVerification(codes);
+            privacy = new PrivacyService(testDatabase.db, verification, audit);
+
+            await testDatabase.db.update(data => {
+                data.appointments.push(storedBooking('AYR-20270201-MINE', PHONE, '2027-02-03'));
+                data.appointments.push(storedBooking('AYR-20270201-THEM', OTHER_PHONE, '2027-02-03'));
+                data.waitlist.push(waitlistEntry(PHONE, '2027-02-05'), waitlistEntry(OTHER_PHONE, '2027-02-05'));
+                data.messageOptOuts.push(PHONE, OTHER_PHONE);
+            });
+            await fileUnder(testDatabase.db, 'AYR-20270201-MINE');
+            await fileUnder(testDatabase.db, 'AYR-20270201-THEM');
+        });
+
+        it('erases everything held for the number and nothing else', async () => {
+            const token = await verifyPhone(verification, codes, PHONE);
+
+            const erasure = await privacy.eraseData(PHONE, token);
+
+            assert.deepEqual(erasure, { erasedBookings: 1 });
+            assert.deepEqual(referencesIn(testDatabase.db), {
+                appointments: ['AYR-20270201-THEM'],
+                intakes: ['AYR-20270201-THEM'],
+                messages: ['AYR-20270201-THEM'],
+                reviews: ['AYR-20270201-THEM']
+            });
+            assert.deepEqual(testDatabase.db.query(data => data.waitlist.map(entry => entry.phoneNumber)), [OTHER_PHONE]);
+            assert.deepEqual(testDatabase.db.query(data => data.messageOptOuts), [OTHER_PHONE]);
+
+            const [entry] = await auditActions();
+            assert.equal(entry?.action, 'data.erase');
+            assert.equal(entry?.phone, '******3210');
+        });
+
+        it('erases nothing without a verified phone number', async () => {
+            const otherToken = await verifyPhone(verification, codes, OTHER_PHONE);
+
+            await assert.rejects(privacy.eraseData(PHONE, otherToken), { status: 403 });
+            await assert.rejects(privacy.eraseData('12345', otherToken), { status: 422 });
+            assert.equal(referencesIn(testDatabase.db).appointments?.length, 2);
+        });
+
+        it('leaves staff notes out of the download', async () => {
+            const token = await verifyPhone(verification, codes, PHONE);
+
+            const exported = await privacy.exportData(PHONE, token);
+
+            assert.deepEqual(exported.appointments.map(appointment => appointment.reference), ['AYR-20270201-MINE']);
+            assert.equal('internalNotes' in (exported.appointments[0] ?? {}), false);
+            assert.equal(exported.reviews.length, 1);
+            assert.equal(exported.remindersEnabled, false);
+        });
+    });
+
+    describe('DataRetention', () => {
+        // With 30 days, anything last active before 2 January 2027 goes
+        const RETENTION_DAYS = 30;
+
+        beforeEach(async () => {
+            await testDatabase.db.update(data => {
+                data.appointments.push(
+                    storedBooking('AYR-20261201-OLD1', PHONE, '2026-12-01'),
+                    // Visited long ago, but changed since
+                    storedBooking('AYR-20261201-EDIT', OTHER_PHONE, '2026-12-01', '2027-01-20'),
+                    storedBooking('AYR-20270115-NEW1', OTHER_PHONE, '2027-01-15')
+                );
+                data.waitlist.push(waitlistEntry(PHONE, '2026-12-20'), waitlistEntry(OTHER_PHONE, '2027-01-02'));
+                data.messageOptOuts.push(PHONE, OTHER_PHONE);
+            });
+            await fileUnder(testDatabase.db, 'AYR-20261201-OLD1');
+            await fileUnder(testDatabase.db, 'AYR-20270115-NEW1');
+        });
+
+        it('deletes bookings last active before the retention period, with what is filed under them', async () => {
+            const purged = await new DataRetention(testDatabase.db, audit, RETENTION_DAYS).purge();
+
+            assert.equal(purged, 1);
+            assert.deepEqual(referencesIn(testDatabase.db), {
+                appointments: ['AYR-20261201-EDIT', 'AYR-20270115-NEW1'],
+                intakes: ['AYR-20270115-NEW1'],
+                messages: ['AYR-20270115-NEW1'],
+                reviews: ['AYR-20270115-NEW1']
+            });
+            // The opt-out goes with the number's last booking
+            assert.deepEqual(testDatabase.db.query(data => data.messageOptOuts), [OTHER_PHONE]);
+            assert.deepEqual(testDatabase.db.query(data => data.waitlist.map(entry => entry.untilDate)), ['2027-01-02']);
+
+            const [entry] = await auditActions();
+            assert.equal(entry?.actor, 'system');
+            assert.equal(entry?.action, 'retention.purge');
+        });
+
+        it('does nothing when nothing is old enough', async () => {
+            const retention = new DataRetention(testDatabase.db, audit, RETENTION_DAYS);
+            await retention.purge();
+
+            assert.equal(await retention.purge(), 0);
+            assert.equal((await auditActions()).length, 1);
+        });
+    });
+});
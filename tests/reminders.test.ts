@@ -0,0 +1,151 @@
+// AAYURCURE tests - Reminders go out once, across booking changes and restarts
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { I18n, t } from '../shared/i18n.js';
+import type { PatientMessage } from '../shared/types.js';
+import { AppointmentService } from '../server/appointments.js';
+import { Database } from '../server/database.js';
+import { PhoneVerification } from '../server/phone-verification.js';
+import { ReminderScheduler } from '../server/reminders.js';
+import {
+    bookingRequest,
+    MINUTE_MS,
+    openTestDatabase,
+    RecordingSender,
+    TEST_NOW,
+    verifyPhone,
+    waitFor,
+    type TestDatabase
+} from './helpers.js';
+
+const PHONE = '9876543210';
+const OTHER_PHONE = '9876500001';
+
+// The scheduler checks for due messages once a minute
+const TICK_MS = MINUTE_MS;
+
+interface Clinic {
+    db: Database;
+    codes: RecordingSender;
+    verification: PhoneVerification;
+    appointments: AppointmentService;
+}
+
+// The API's wiring for one run of the server; a restart opens the same file again
+async function startClinic(filePath: string, sender: RecordingSender): Promise<Clinic> {
+    const db = await Database.open(filePath);
+    const codes = new RecordingSender();
+    const verification = new PhoneVerification(codes);
+    const appointments = new AppointmentService(db, verification);
+    await new ReminderScheduler(db, sender).start(appointments);
+    return { db, codes, verification, appointments };
+}
+
+async function book(clinic: Clinic, phoneNumber: string, preferredTime: string = '10:00'): Promise<string> {
+    const token = await verifyPhone(clinic.verification, clinic.codes, phoneNumber);
+    const [appointment] = await clinic.appointments.create(bookingRequest(token, { phoneNumber, preferredTime }));
+    return appointment?.reference ?? '';
+}
+
+function messagesFor(db: Database, reference: string): PatientMessage[] {
+    return db.query(data => data.messages.filter(message => message.reference === reference));
+}
+
+function statusOf(db: Database, reference: string, kind: PatientMessage['kind']): string | undefined {
+    return messagesFor(db, reference).find(message => message.kind === kind)?.status;
+}
+
+function waitForStatus(db: Database, reference: string, kind: PatientMessage['kind'], status: string): Promise<void> {
+    return waitFor(() => statusOf(db, reference, kind) === status, `the ${kind} for ${reference} is ${status}`);
+}
+
+describe('ReminderScheduler', () => {
+    let testDatabase: TestDatabase;
+
+    beforeEach(async () => {
+        mock.timers.enable({ apis: ['Date', 'setInterval'], now: TEST_NOW });
+        testDatabase = await openTestDatabase();
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await testDatabase.remove();
+    });
+
+    it('plans each message once and sends it once, however often the booking changes', async () => {
+        const sender = new RecordingSender();
+        const clinic = await startClinic(testDatabase.filePath, sender);
+
+        const reference = await book(clinic, PHONE);
+        await waitForStatus(clinic.db, reference, 'confirmation', 'sent');
+
+        // Each change plans the booking's messages again
+        await clinic.appointments.updateStatus(reference, 'confirmed');
+        await clinic.appointments.addNote(reference, 'Prefers a morning call');
+
+        // 24 hours before the 10:00 visit on Wednesday
+        mock.timers.setTime(Date.parse('2027-02-02T04:30:00Z'));
+        mock.timers.tick(TICK_MS);
+        await waitForStatus(clinic.db, reference, 'reminder-24h', 'sent');
+
+        const kinds = messagesFor(clinic.db, reference).map(message => message.kind).sort();
+        assert.deepEqual(kinds, ['confirmation', 'follow-up', 'reminder-24h', 'reminder-2h']);
+        assert.equal(sender.to(PHONE).length, 2);
+        assert.match(sender.to(PHONE)[0] ?? '', /we have received your booking/i);
+        assert.match(sender.to(PHONE)[1] ?? '', /tomorrow/i);
+    });
+
+    it('never resends a message that was being sent when the server stopped', async () => {
+        // The first run stops mid-send: the provider got the message, the database never heard back
+        const crashed = new RecordingSender({ hang: true });
+        const firstRun = await startClinic(testDatabase.filePath, crashed);
+        const reference = await book(firstRun, PHONE);
+        // The row is saved as "sending" before the sender is called
+        await waitFor(() => crashed.attempts === 1, 'the first run has started sending');
+        assert.equal(statusOf(firstRun.db, reference, 'confirmation'), 'sending');
+
+        const sender = new RecordingSender();
+        const secondRun = await startClinic(testDatabase.filePath, sender);
+        assert.equal(statusOf(secondRun.db, reference, 'confirmation'), 'failed');
+
+        // Passes run one at a time, so once this confirmation is out the restart pass is done
+        const otherReference = await book(secondRun, OTHER_PHONE, '11:00');
+        await waitForStatus(secondRun.db, otherReference, 'confirmation', 'sent');
+
+        assert.equal(crashed.attempts, 1);
+        assert.deepEqual(sender.to(PHONE), []);
+        assert.equal(messagesFor(secondRun.db, reference).filter(message => message.kind === 'confirmation').length, 1);
+    });
+
+    it('writes the messages in the language the patient booked in', async () => {
+        const sender = new RecordingSender();
+        const clinic = await startClinic(testDatabase.filePath, sender);
+
+        const token = await verifyPhone(clinic.verification, clinic.codes, PHONE);
+        const [appointment] = await clinic.appointments.create({ ...bookingRequest(token), locale: 'hi' });
+        const reference = appointment?.reference ?? '';
+        await waitForStatus(clinic.db, reference, 'confirmation', 'sent');
+
+        const opening = I18n.inLocale('hi', () => t('message.openingConfirmation', { name: 'Meera Rao' }));
+        assert.equal(appointment?.locale, 'hi');
+        assert.equal(sender.to(PHONE)[0]?.split('\n')[0], opening);
+        assert.notEqual(opening, t('message.openingConfirmation', { name: 'Meera Rao' }));
+    });
+
+    it('retries a message the sender turned down and sends it once', async () => {
+        const sender = new RecordingSender({ failures: 1 });
+        const clinic = await startClinic(testDatabase.filePath, sender);
+
+        const reference = await book(clinic, PHONE);
+        await waitFor(() => sender.attempts === 1 && statusOf(clinic.db, reference, 'confirmation') === 'scheduled',
+            'the first attempt has failed');
+
+        // The first retry waits 5 minutes
+        mock.timers.tick(5 * MINUTE_MS);
+        await waitForStatus(clinic.db, reference, 'confirmation', 'sent');
+
+        assert.equal(sender.attempts, 2);
+        assert.equal(sender.to(PHONE).length, 1);
+        assert.equal(messagesFor(clinic.db, reference).find(message => message.kind === 'confirmation')?.attempts, 2);
+    });
+});
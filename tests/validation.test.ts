@@ -0,0 +1,90 @@
+// AAYURCURE tests - The booking form is checked the same way in the browser and the API
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { t } from '../shared/i18n.js';
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+import type { AppointmentFormData } from '../shared/types.js';
+import { FormValidator } from '../shared/validation.js';
+import { TEST_NOW } from './helpers.js';
+
+// A Wednesday with the regular morning (09:30-13:00) and evening (16:30-19:30) sessions
+const DATE = '2027-02-03';
+
+function form(details: Partial<AppointmentFormData> = {}): AppointmentFormData {
+    return {
+        patientName: 'Meera Rao',
+        phoneNumber: '9876543210',
+        serviceType: 'consultation',
+        preferredDate: DATE,
+        preferredTime: '10:00',
+        message: '',
+        courseSessions: '',
+        ...details
+    };
+}
+
+describe('FormValidator', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: TEST_NOW });
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('accepts only slot start times that the service fits into', () => {
+        assert.equal(FormValidator.validateTime(DATE, '09:30', 'consultation'), '');
+        assert.equal(FormValidator.validateTime(DATE, '19:00', 'consultation'), '');
+        assert.equal(FormValidator.validateTime(DATE, '18:00', 'panchkarma'), '');
+
+        assert.equal(FormValidator.validateTime(DATE, '10:07', 'consultation'), t('validation.timeInvalid'));
+        assert.equal(FormValidator.validateTime(DATE, '14:00', 'consultation'), t('validation.timeInvalid'));
+        assert.equal(FormValidator.validateTime(DATE, '13:00', 'consultation'), t('validation.timeInvalid'));
+        // 90 minutes from 18:30 runs past the evening session
+        assert.equal(FormValidator.validateTime(DATE, '18:30', 'panchkarma'), t('validation.timeInvalid'));
+    });
+
+    it('asks for a time with a date and a date with a time', () => {
+        assert.equal(FormValidator.validateTime(DATE, ''), t('validation.timeRequired'));
+        assert.equal(FormValidator.validateTime('', '10:00'), t('validation.timeWithoutDate'));
+        assert.equal(FormValidator.validateTime('', ''), '');
+        assert.equal(FormValidator.validateTime(DATE, '25:00'), t('validation.timeInvalid'));
+    });
+
+    it('turns down dates that are malformed, past or closed', () => {
+        assert.equal(FormValidator.validateDate(DATE), '');
+        assert.equal(FormValidator.validateDate(''), '');
+        assert.equal(FormValidator.validateDate('2027-02-30'), t('validation.dateInvalid'));
+        assert.equal(FormValidator.validateDate('2027-01-31'), t('validation.datePast'));
+        assert.notEqual(FormValidator.validateDate('2027-02-07'), '');
+    });
+
+    it('takes names in Latin, Devanagari and Kannada but not digits', () => {
+        assert.equal(FormValidator.validateName('Meera Rao'), '');
+        assert.equal(FormValidator.validateName('मीरा राव'), '');
+        assert.equal(FormValidator.validateName('ಮೀರಾ ರಾವ್'), '');
+        assert.equal(FormValidator.validateName('M'), t('validation.nameTooShort'));
+        assert.equal(FormValidator.validateName('Meera 2'), t('validation.nameInvalid'));
+    });
+
+    it('takes Indian mobile numbers with or without spacing', () => {
+        assert.equal(FormValidator.validatePhone('98765 43210'), '');
+        assert.equal(FormValidator.validatePhone(''), t('validation.phoneRequired'));
+        assert.equal(FormValidator.validatePhone('5876543210'), t('validation.phoneInvalid'));
+        assert.equal(FormValidator.validatePhone('987654321'), t('validation.phoneInvalid'));
+    });
+
+    it('needs agreement to the current privacy notice', () => {
+        assert.equal(FormValidator.validateConsent(PRIVACY_NOTICE_VERSION), '');
+        assert.equal(FormValidator.validateConsent(''), t('validation.consentRequired'));
+        assert.equal(FormValidator.validateConsent('an-older-notice'), t('validation.consentOutdated'));
+    });
+
+    it('reports each field that is wrong and nothing else', () => {
+        assert.deepEqual(FormValidator.validateForm(form()), { isValid: true, errors: {} });
+
+        const result = FormValidator.validateForm(form({ phoneNumber: '12345', preferredTime: '10:07' }));
+        assert.equal(result.isValid, false);
+        assert.deepEqual(Object.keys(result.errors).sort(), ['phoneNumber', 'preferredTime']);
+    });
+});
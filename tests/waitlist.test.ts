@@ -0,0 +1,210 @@
+// AAYURCURE tests - Waitlist offers are held for a while, then move on
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { I18n, t } from '../shared/i18n.js';
+import { PRIVACY_NOTICE_VERSION } from '../shared/privacy.js';
+import type { Appointment, WaitlistEntry } from '../shared/types.js';
+import { AppointmentService } from '../server/appointments.js';
+import type { Database } from '../server/database.js';
+import { PhoneVerification } from '../server/phone-verification.js';
+import { WaitlistService } from '../server/waitlist.js';
+import {
+    MINUTE_MS,
+    openTestDatabase,
+    RecordingSender,
+    settle,
+    TEST_NOW,
+    verifyPhone,
+    waitFor,
+    type TestDatabase
+} from './helpers.js';
+
+const FIRST_PHONE = '9876500001';
+const SECOND_PHONE = '9876500002';
+const DATE = '2027-02-02';
+// Every evening consultation on DATE is booked except this one
+const FREE_TIME = '19:00';
+const BOOKED_TIMES = ['16:30', '17:00', '17:30', '18:00', '18:30'];
+
+// Offers are open for 2 hours; the waitlist is worked through once a minute
+const OFFER_MS = 120 * MINUTE_MS;
+const TICK_MS = MINUTE_MS;
+const SITE_URL = 'https://clinic.example';
+
+function storedBooking(time: string, index: number): Appointment {
+    const createdAt = new Date(TEST_NOW).toISOString();
+    return {
+        patientName: 'Booked Patient',
+        phoneNumber: `98765100${String(index).padStart(2, '0')}`,
+        serviceType: 'consultation',
+        preferredDate: DATE,
+        preferredTime: time,
+        message: '',
+        reference: `AYR-20270201-BK0${index}`,
+        status: 'confirmed',
+        durationMinutes: 30,
+        internalNotes: [],
+        createdAt,
+        updatedAt: createdAt
+    };
+}
+
+// The token at the end of the link in the patient's last offer message
+function offerToken(sender: RecordingSender, phoneNumber: string): string {
+    return sender.to(phoneNumber).at(-1)?.match(/#\/offer\/(\S+)/)?.[1] ?? '';
+}
+
+function entryFor(db: Database, phoneNumber: string): WaitlistEntry | undefined {
+    return db.query(data => data.waitlist.find(entry => entry.phoneNumber === phoneNumber));
+}
+
+describe('WaitlistService', () => {
+    let testDatabase: TestDatabase;
+    let codes: RecordingSender;
+    let sender: RecordingSender;
+    let verification: PhoneVerification;
+    let appointments: AppointmentService;
+    let waitlist: WaitlistService;
+
+    async function join(phoneNumber: string, locale: string = 'en'): Promise<void> {
+        const verificationToken = await verifyPhone(verification, codes, phoneNumber);
+        await waitlist.join({
+            patientName: 'Waiting Patient',
+            phoneNumber,
+            serviceType: 'consultation',
+            preferredDate: DATE,
+            period: 'evening',
+            range: 'day',
+            consentNoticeVersion: PRIVACY_NOTICE_VERSION,
+            verificationToken,
+            locale
+        });
+    }
+
+    function startWaitlist(siteUrl: string): void {
+        waitlist = new WaitlistService(testDatabase.db, verification, sender, appointments, siteUrl);
+        waitlist.start();
+    }
+
+    // The first patient is offered the free slot; the second waits behind them
+    async function joinBoth(): Promise<string> {
+        await join(FIRST_PHONE);
+        await waitFor(() => sender.to(FIRST_PHONE).length === 1, 'the first patient has an offer');
+        await join(SECOND_PHONE);
+        return offerToken(sender, FIRST_PHONE);
+    }
+
+    beforeEach(async () => {
+        mock.timers.enable({ apis: ['Date', 'setInterval'], now: TEST_NOW });
+        testDatabase = await openTestDatabase();
+        await testDatabase.db.update(data => {
+            data.appointments.push(...BOOKED_TIMES.map(storedBooking));
+        });
+
+        codes = new RecordingSender();
+        sender = new RecordingSender();
+        verification = new PhoneVerification(codes);
+        appointments = new AppointmentService(testDatabase.db, verification);
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        await testDatabase.remove();
+    });
+
+    describe('with site.url set', () => {
+        beforeEach(() => {
+            startWaitlist(SITE_URL);
+        });
+
+        it('holds the offered slot for the patient and no one else', async () => {
+            const token = await joinBoth();
+
+            const offer = waitlist.getOffer(token);
+            assert.equal(offer.status, 'open');
+            assert.equal(offer.time, FREE_TIME);
+            assert.equal(offer.expiresAt, new Date(TEST_NOW + OFFER_MS).toISOString());
+            assert.match(sender.to(FIRST_PHONE)[0] ?? '', /https:\/\/clinic\.example\/#\/offer\//);
+
+            const evening = appointments.getAvailability(DATE, 'consultation').slots.filter(slot => slot.period === 'evening');
+            assert.deepEqual(evening, []);
+            assert.equal(entryFor(testDatabase.db, SECOND_PHONE)?.status, 'waiting');
+        });
+
+        it('books the slot when the offer is taken before it lapses', async () => {
+            const token = await joinBoth();
+
+            mock.timers.tick(OFFER_MS - TICK_MS);
+            const appointment = await appointments.bookWaitlistOffer(token);
+
+            assert.equal(appointment.preferredTime, FREE_TIME);
+            assert.equal(appointment.phoneNumber, FIRST_PHONE);
+            assert.equal(waitlist.getOffer(token).status, 'accepted');
+            assert.equal(entryFor(testDatabase.db, FIRST_PHONE)?.status, 'booked');
+        });
+
+        it('writes the offer in the language the patient joined in and books in it', async () => {
+            await join(FIRST_PHONE, 'kn');
+            await waitFor(() => sender.to(FIRST_PHONE).length === 1, 'the patient has an offer');
+
+            const opening = I18n.inLocale('kn', () => t('message.waitlistOffer', { name: 'Waiting Patient' }));
+            assert.equal(sender.to(FIRST_PHONE)[0]?.split('\n')[0], opening);
+
+            const appointment = await appointments.bookWaitlistOffer(offerToken(sender, FIRST_PHONE));
+            assert.equal(appointment.locale, 'kn');
+        });
+
+        it('lets an unanswered offer lapse and offers the slot to the next patient', async () => {
+            const token = await joinBoth();
+
+            mock.timers.tick(OFFER_MS);
+            await waitFor(() => sender.to(SECOND_PHONE).length === 1, 'the second patient has an offer');
+
+            assert.equal(waitlist.getOffer(token).status, 'expired');
+            await assert.rejects(appointments.bookWaitlistOffer(token), { status: 409 });
+            // Only the offer lapsed: the patient keeps waiting, just not for that slot
+            const first = entryFor(testDatabase.db, FIRST_PHONE);
+            assert.equal(first?.status, 'waiting');
+            assert.deepEqual(first?.declinedSlots, [`${DATE} ${FREE_TIME}`]);
+
+            const nextOffer = waitlist.getOffer(offerToken(sender, SECOND_PHONE));
+            assert.equal(nextOffer.status, 'open');
+            assert.equal(nextOffer.time, FREE_TIME);
+        });
+
+        it('passes a declined slot to the next patient and does not offer it again', async () => {
+            const token = await joinBoth();
+
+            await waitlist.decline(token);
+            await waitFor(() => sender.to(SECOND_PHONE).length === 1, 'the second patient has an offer');
+
+            assert.equal(waitlist.getOffer(token).status, 'declined');
+            assert.equal(entryFor(testDatabase.db, FIRST_PHONE)?.status, 'waiting');
+
+            // The second patient lets it lapse; both have passed on it, so it stays free
+            mock.timers.tick(OFFER_MS);
+            await waitFor(() => entryFor(testDatabase.db, SECOND_PHONE)?.declinedSlots.length === 1, 'the second offer has lapsed');
+            mock.timers.tick(TICK_MS);
+            await settle();
+            assert.equal(sender.to(FIRST_PHONE).length, 1);
+            assert.equal(sender.to(SECOND_PHONE).length, 1);
+            assert.equal(entryFor(testDatabase.db, FIRST_PHONE)?.status, 'waiting');
+            assert.equal(entryFor(testDatabase.db, SECOND_PHONE)?.status, 'waiting');
+        });
+    });
+
+    describe('without site.url', () => {
+        beforeEach(() => {
+            startWaitlist('');
+        });
+
+        it('lets patients join but offers them nothing', async () => {
+            await join(FIRST_PHONE);
+            mock.timers.tick(TICK_MS);
+            await settle();
+
+            assert.equal(entryFor(testDatabase.db, FIRST_PHONE)?.status, 'waiting');
+            assert.deepEqual(sender.sent, []);
+        });
+    });
+});